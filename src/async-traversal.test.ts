@@ -0,0 +1,276 @@
+import { traverseAsync } from './async-traversal';
+import { traverse } from './traversal';
+import { InMemorySignerResolver, CachingSignerResolver, SignerResolver, SignerLookup } from './signer-resolver';
+import { KeyResolution } from './key-registry';
+import { testDataGenerator } from './test-data-generator';
+import { AnySignerRegistry, SignedDocument, SignerRegistry, TimeAwareSignerRegistry } from './types';
+
+describe('Async Traversal', () => {
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    document = await testDataGenerator.generateValidDocument();
+  });
+
+  /**
+   * Resolver that records its calls and can be made to fail or hang
+   */
+  class RecordingResolver implements SignerResolver {
+    calls: string[] = [];
+    failFor = new Set<string>();
+    hangFor = new Set<string>();
+
+    constructor(private readonly registry: SignerRegistry) {}
+
+    async resolve(signerId: string, signedAt: string): Promise<KeyResolution> {
+      this.calls.push(signerId);
+      if (this.failFor.has(signerId)) {
+        throw new Error('directory unavailable');
+      }
+      if (this.hangFor.has(signerId)) {
+        return new Promise(() => undefined);
+      }
+      return new InMemorySignerResolver(this.registry).resolve(signerId, signedAt);
+    }
+  }
+
+  describe('traverseAsync', () => {
+    it('should produce the same result as traverse', async () => {
+      const result = await traverseAsync(document, new InMemorySignerResolver(signerRegistry));
+      expect(result).toEqual(traverse(document, signerRegistry));
+    });
+
+    it('should detect tampering', async () => {
+      const tampered = await testDataGenerator.generateDocumentWithTamperedPayload();
+      const result = await traverseAsync(tampered, new InMemorySignerResolver(signerRegistry));
+
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0].hashChainValid).toBe(false);
+    });
+
+    it('should look up each signer and timestamp only once', async () => {
+      const resolver = new RecordingResolver(signerRegistry);
+      const duplicated: SignedDocument = {
+        ...document,
+        signatures: [document.signatures[0], document.signatures[0]]
+      };
+
+      await traverseAsync(duplicated, resolver);
+      expect(resolver.calls).toEqual(['developer-alice']);
+    });
+
+    it('should fetch each signer\'s key history once when the resolver supports it', async () => {
+      const fetches: string[][] = [];
+      const inner = new InMemorySignerResolver(signerRegistry);
+      const resolver: SignerResolver = {
+        resolve: async () => { throw new Error('unused'); },
+        fetchSigners: async signerIds => {
+          fetches.push(signerIds);
+          return inner.fetchSigners(signerIds);
+        }
+      };
+      const repeated: SignedDocument = { ...document, signatures: [...document.signatures, { ...document.signatures[0], signedAt: '2030-01-01T00:00:00Z' }] };
+
+      const result = await traverseAsync(repeated, resolver);
+      expect(result.signatureResults.slice(0, 3).every(sigResult => sigResult.isValid)).toBe(true);
+      expect(fetches).toEqual([['developer-alice', 'qa-bob', 'manager-charlie']]);
+    });
+
+    it('should fail every lookup when the fetched registry is malformed', async () => {
+      const resolver: SignerResolver = {
+        resolve: async () => { throw new Error('unused'); },
+        fetchSigners: async () => null as any
+      };
+
+      const result = await traverseAsync(document, resolver);
+      expect(result.signatureResults.every(sigResult => sigResult.error?.includes('malformed registry'))).toBe(true);
+    });
+
+    it('should use batch lookups when available', async () => {
+      const batches: SignerLookup[][] = [];
+      const inner = new InMemorySignerResolver(signerRegistry);
+      const resolver: SignerResolver = {
+        resolve: (signerId, signedAt) => inner.resolve(signerId, signedAt),
+        resolveMany: async lookups => {
+          batches.push(lookups);
+          return inner.resolveMany(lookups);
+        }
+      };
+
+      const result = await traverseAsync(document, resolver);
+      expect(result.isValid).toBe(true);
+      expect(batches).toHaveLength(1);
+      expect(batches[0].map(lookup => lookup.signerId)).toEqual(['developer-alice', 'qa-bob', 'manager-charlie']);
+    });
+
+    it('should report resolver errors per signature', async () => {
+      const resolver = new RecordingResolver(signerRegistry);
+      resolver.failFor.add('qa-bob');
+
+      const result = await traverseAsync(document, resolver);
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0].isValid).toBe(true);
+      expect(result.signatureResults[1].error).toBe('Signer resolution failed for qa-bob: directory unavailable');
+      expect(result.signatureResults[2].isValid).toBe(true);
+    });
+
+    it('should fail lookups that exceed the timeout', async () => {
+      const resolver = new RecordingResolver(signerRegistry);
+      resolver.hangFor.add('manager-charlie');
+
+      const result = await traverseAsync(document, resolver, { resolverTimeoutMs: 20 });
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[2].error).toBe('Signer resolution failed for manager-charlie: timed out after 20ms');
+    });
+
+    it('should fail a whole batch that is malformed', async () => {
+      const resolver: SignerResolver = {
+        resolve: async () => { throw new Error('unused'); },
+        resolveMany: async () => []
+      };
+
+      const result = await traverseAsync(document, resolver);
+      expect(result.signatureResults.every(sigResult => sigResult.error?.includes('malformed batch'))).toBe(true);
+    });
+
+    it('should report missing and malformed resolutions per signature', async () => {
+      const inner = new InMemorySignerResolver(signerRegistry);
+      const resolver: SignerResolver = {
+        resolve: async (signerId, signedAt) => {
+          if (signerId === 'qa-bob') {
+            return undefined as any;
+          }
+          if (signerId === 'manager-charlie') {
+            return { found: true, candidates: [{ address: '0xabc' }] } as any;
+          }
+          return inner.resolve(signerId, signedAt);
+        }
+      };
+
+      const result = await traverseAsync(document, resolver);
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('RESOLVER_FAILURE');
+      expect(result.signatureResults[0].isValid).toBe(true);
+      expect(result.signatureResults[1].error).toBe('Signer resolution failed for qa-bob: resolver returned no resolution');
+      expect(result.signatureResults[2].error)
+        .toBe('Signer resolution failed for manager-charlie: resolver returned a malformed resolution');
+    });
+
+    it('should validate the document before resolving', async () => {
+      const resolver = new RecordingResolver(signerRegistry);
+      const result = await traverseAsync(null as any, resolver);
+
+      expect(result.error).toBe('Document has no signatures');
+      expect(resolver.calls).toEqual([]);
+    });
+  });
+
+  describe('CachingSignerResolver', () => {
+    /**
+     * Resolver fetching key histories that records each fetch and can be made to fail
+     */
+    class RecordingDirectory extends InMemorySignerResolver {
+      fetches: string[][] = [];
+      failing = false;
+
+      async fetchSigners(signerIds: string[]): Promise<AnySignerRegistry> {
+        this.fetches.push(signerIds);
+        if (this.failing) {
+          throw new Error('directory unavailable');
+        }
+        return super.fetchSigners(signerIds);
+      }
+    }
+
+    it('should fetch each signer once across signatures and documents', async () => {
+      const inner = new RecordingDirectory(signerRegistry);
+      const resolver = new CachingSignerResolver(inner);
+      const other = await testDataGenerator.generateValidDocument();
+      expect(other.signatures[0].signedAt).not.toBe(document.signatures[0].signedAt);
+
+      expect((await traverseAsync(document, resolver)).isValid).toBe(true);
+      expect((await traverseAsync(other, resolver)).isValid).toBe(true);
+
+      expect(inner.fetches).toEqual([['developer-alice', 'qa-bob', 'manager-charlie']]);
+    });
+
+    it('should select the key valid at each signature from the cached history', async () => {
+      const registry: TimeAwareSignerRegistry = {
+        'qa-bob': {
+          keys: [
+            { address: '0x01', validUntil: '2025-01-01T00:00:00Z' },
+            { address: '0x02', validFrom: '2025-01-01T00:00:00Z' }
+          ]
+        }
+      };
+      const inner = new RecordingDirectory(registry);
+      const resolver = new CachingSignerResolver(inner);
+
+      const [before, after] = await resolver.resolveMany([
+        { signerId: 'qa-bob', signedAt: '2024-06-01T00:00:00Z' },
+        { signerId: 'qa-bob', signedAt: '2025-06-01T00:00:00Z' }
+      ]);
+
+      expect(before.candidates.map(key => key.publicKey)).toEqual(['0x01']);
+      expect(after.candidates.map(key => key.publicKey)).toEqual(['0x02']);
+      expect(inner.fetches).toEqual([['qa-bob']]);
+    });
+
+    it('should share a fetch in flight', async () => {
+      const inner = new RecordingDirectory(signerRegistry);
+      const resolver = new CachingSignerResolver(inner);
+
+      await Promise.all([resolver.resolve('qa-bob', 't1'), resolver.resolve('qa-bob', 't2')]);
+
+      expect(inner.fetches).toEqual([['qa-bob']]);
+    });
+
+    it('should cache unknown signers', async () => {
+      const inner = new RecordingDirectory(signerRegistry);
+      const resolver = new CachingSignerResolver(inner);
+
+      await resolver.resolve('mallory', 't1');
+      const resolution = await resolver.resolve('mallory', 't2');
+
+      expect(resolution).toMatchObject({ found: false, errorCode: 'UNKNOWN_SIGNER' });
+      expect(inner.fetches).toEqual([['mallory']]);
+    });
+
+    it('should expire entries after the TTL', async () => {
+      let now = 0;
+      const inner = new RecordingDirectory(signerRegistry);
+      const resolver = new CachingSignerResolver(inner, { ttlMs: 1000, now: () => now });
+
+      await resolver.resolve('qa-bob', '2025-01-01T00:00:00Z');
+      now = 999;
+      await resolver.resolve('qa-bob', '2025-01-02T00:00:00Z');
+      now = 1000;
+      await resolver.resolve('qa-bob', '2025-01-01T00:00:00Z');
+
+      expect(inner.fetches).toEqual([['qa-bob'], ['qa-bob']]);
+    });
+
+    it('should evict the oldest entry when full', async () => {
+      const inner = new RecordingDirectory(signerRegistry);
+      const resolver = new CachingSignerResolver(inner, { maxEntries: 1 });
+
+      await resolver.resolve('qa-bob', 't');
+      await resolver.resolve('developer-alice', 't');
+      await resolver.resolve('qa-bob', 't');
+
+      expect(inner.fetches).toEqual([['qa-bob'], ['developer-alice'], ['qa-bob']]);
+    });
+
+    it('should not cache failures', async () => {
+      const inner = new RecordingDirectory(signerRegistry);
+      const resolver = new CachingSignerResolver(inner);
+      inner.failing = true;
+
+      await expect(resolver.resolve('qa-bob', 't')).rejects.toThrow('directory unavailable');
+      inner.failing = false;
+      await expect(resolver.resolve('qa-bob', 't')).resolves.toMatchObject({ found: true });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { SignedDocument, Signature, ChainStep, VerificationResult, AsyncTraversalOptions } from './types';
+import { KeyResolution, resolveSignerKeys } from './key-registry';
+import { SignerResolver, SignerLookup, lookupKey } from './signer-resolver';
+import { verifyDocument } from './traversal';
+import { isCoSignedStep } from './crypto-utils';
+import { preloadContent } from './content-references';
+import { currentPayload } from './chain-records';
+import { withTrustedTime } from './timestamp-tokens';
+
+/**
+ * Performs signature traversal with signer keys fetched from an asynchronous source
+ *
+ * While referenced content is loaded, each signer's key history is fetched
+ * once when the resolver supports it; otherwise each distinct (signer,
+ * timestamp) pair is looked up once, in a single batch when the resolver
+ * supports it. Resolver failures, timeouts and malformed answers are reported
+ * on the affected signatures instead of rejecting the returned promise.
+ *
+ * @param document - The signed document to verify
+ * @param resolver - Source of signer keys
+ * @param options - Traversal settings, including the resolver timeout
+ * @returns Verification result with detailed information
+ */
+export async function traverseAsync(
+  document: SignedDocument<ChainStep>,
+  resolver: SignerResolver,
+  options: AsyncTraversalOptions = {}
+): Promise<VerificationResult> {
+  const steps: ChainStep[] = Array.isArray(document?.signatures) ? document.signatures : [];
+  // Co-signers are looked up alongside the single signers
+  const signatures = steps.flatMap(step => step && isCoSignedStep(step) && Array.isArray(step.signatures)
+    ? step.signatures
+    : [step as Signature]
+  );
+  // Signatures with a verified timestamp token are looked up at the token's time
+  const authorities = options.timestampAuthorities;
+  const lookupSignatures = authorities
+    ? signatures.map(signature => signature?.timestampToken
+      ? withTrustedTime(signature, authorities, options.maxTimestampTokenDriftMs)
+      : signature)
+    : signatures;
+  const [resolutions, contentLoader] = await Promise.all([
+    resolveSigners(lookupSignatures, resolver, options.resolverTimeoutMs),
+    preloadContent(currentPayload(document), options.contentLoader)
+  ]);
+
+  return verifyDocument(
+    document,
+    signature => {
+      const lookup = { signerId: signature.signerId, signedAt: signature.signedAt };
+      return checkedResolution(lookup, resolutions.get(lookupKey(lookup)));
+    },
+    { ...options, contentLoader }
+  );
+}
+
+/**
+ * Resolves the keys for every signature, de-duplicating identical lookups
+ */
+async function resolveSigners(
+  signatures: Signature[],
+  resolver: SignerResolver,
+  timeoutMs?: number
+): Promise<Map<string, KeyResolution>> {
+  const uniqueLookups = new Map<string, SignerLookup>();
+  for (const signature of signatures) {
+    const lookup = { signerId: signature?.signerId, signedAt: signature?.signedAt };
+    uniqueLookups.set(lookupKey(lookup), lookup);
+  }
+
+  const lookups = [...uniqueLookups.values()];
+  const resolved = new Map<string, KeyResolution>();
+
+  if (resolver.fetchSigners) {
+    const signerIds = [...new Set(lookups.map(lookup => lookup.signerId))];
+    try {
+      const registry = await withTimeout(resolver.fetchSigners(signerIds), timeoutMs);
+      if (typeof registry !== 'object' || registry === null) {
+        throw new Error('resolver returned a malformed registry');
+      }
+      // Keys are selected by time locally, from one history per signer
+      lookups.forEach(lookup => resolved.set(lookupKey(lookup), resolveSignerKeys(registry, lookup.signerId, lookup.signedAt)));
+    } catch (error) {
+      lookups.forEach(lookup => resolved.set(lookupKey(lookup), failedResolution(lookup, error)));
+    }
+  } else if (resolver.resolveMany) {
+    try {
+      const batch = await withTimeout(resolver.resolveMany(lookups), timeoutMs);
+      if (!Array.isArray(batch) || batch.length !== lookups.length) {
+        throw new Error('resolver returned a malformed batch');
+      }
+      lookups.forEach((lookup, index) => resolved.set(lookupKey(lookup), batch[index]));
+    } catch (error) {
+      lookups.forEach(lookup => resolved.set(lookupKey(lookup), failedResolution(lookup, error)));
+    }
+  } else {
+    await Promise.all(lookups.map(async lookup => {
+      try {
+        resolved.set(lookupKey(lookup), await withTimeout(resolver.resolve(lookup.signerId, lookup.signedAt), timeoutMs));
+      } catch (error) {
+        resolved.set(lookupKey(lookup), failedResolution(lookup, error));
+      }
+    }));
+  }
+
+  return resolved;
+}
+
+/**
+ * Replaces a missing resolution, or one not shaped like a KeyResolution, by a failure
+ */
+function checkedResolution(lookup: SignerLookup, resolution: unknown): KeyResolution {
+  const candidate = resolution as Partial<KeyResolution> | null | undefined;
+  const wellFormed = typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.found === 'boolean' &&
+    Array.isArray(candidate.candidates) &&
+    candidate.candidates.every(key => typeof key === 'object' && key !== null && typeof key.publicKey === 'string');
+
+  return wellFormed
+    ? candidate as KeyResolution
+    : failedResolution(lookup, new Error(resolution === undefined ? 'resolver returned no resolution' : 'resolver returned a malformed resolution'));
+}
+
+/**
+ * Builds the resolution reported for a lookup that failed
+ */
+function failedResolution(lookup: SignerLookup, error: unknown): KeyResolution {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    found: false,
+    candidates: [],
+    error: `Signer resolution failed for ${lookup.signerId}: ${message}`,
+    errorCode: 'RESOLVER_FAILURE'
+  };
+}
+
+/**
+ * Rejects if the promise does not settle within the timeout
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs?: number): Promise<T> {
+  if (timeoutMs === undefined) {
+    return promise;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,121 @@
+import { verifyBatch } from './batch-verification';
+import { traverse } from './traversal';
+import { InMemoryReplayStore } from './replay-protection';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry, TraversalOptions } from './types';
+
+describe('Batch Verification', () => {
+  let signerRegistry: SignerRegistry;
+  let documents: SignedDocument[];
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    const valid = await testDataGenerator.generateValidDocument();
+    const tampered = await testDataGenerator.generateDocumentWithTamperedPayload();
+    const noSignatures: SignedDocument = { payload: { documentId: 'empty', content: '' }, signatures: [] };
+
+    documents = [valid, tampered, valid, noSignatures, valid];
+  });
+
+  describe('on the calling thread', () => {
+    it('should return results in input order', async () => {
+      const { results } = await verifyBatch(documents, signerRegistry, { concurrency: 0 });
+
+      expect(results).toEqual(documents.map(document => traverse(document, signerRegistry)));
+    });
+
+    it('should aggregate statistics', async () => {
+      const { stats } = await verifyBatch(documents, signerRegistry, { concurrency: 0 });
+
+      expect(stats.total).toBe(5);
+      expect(stats.valid).toBe(3);
+      expect(stats.invalid).toBe(2);
+      expect(stats.failuresByKind).toEqual({ HASH_MISMATCH: 1, EMPTY_CHAIN: 1 });
+      expect(stats.averageDocumentMs).toBeGreaterThan(0);
+      expect(stats.maxDocumentMs).toBeGreaterThanOrEqual(stats.averageDocumentMs);
+      expect(stats.durationMs).toBeGreaterThan(0);
+    });
+
+    it('should pass traversal options through', async () => {
+      const { stats } = await verifyBatch(documents, signerRegistry, {
+        concurrency: 0,
+        traversalOptions: { policy: { requiredSigners: ['legal-dave'] } }
+      });
+
+      expect(stats.valid).toBe(0);
+      expect(stats.failuresByKind.POLICY_VIOLATION).toBe(3);
+    });
+
+    it('should stop when aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('shutting down'));
+
+      await expect(
+        verifyBatch(documents, signerRegistry, { concurrency: 0, signal: controller.signal })
+      ).rejects.toThrow('shutting down');
+    });
+  });
+
+  describe('in worker threads', () => {
+    it('should produce the same results as verifying inline', async () => {
+      const inline = await verifyBatch(documents, signerRegistry, { concurrency: 0 });
+      const pooled = await verifyBatch(documents, signerRegistry, { concurrency: 2, chunkSize: 2 });
+
+      expect(pooled.results).toEqual(inline.results);
+      expect(pooled.stats.failuresByKind).toEqual(inline.stats.failuresByKind);
+    }, 60000);
+
+    it('should handle an empty batch without starting workers', async () => {
+      const { results, stats } = await verifyBatch([], signerRegistry, { concurrency: 2 });
+
+      expect(results).toEqual([]);
+      expect(stats.total).toBe(0);
+      expect(stats.averageDocumentMs).toBe(0);
+    });
+
+    it('should default to a pool of workers', async () => {
+      const inline = await verifyBatch(documents, signerRegistry, { concurrency: 0 });
+      const pooled = await verifyBatch(documents, signerRegistry);
+
+      expect(pooled.results).toEqual(inline.results);
+      expect(pooled.stats.valid).toBe(3);
+    }, 60000);
+
+    it.each([
+      [{ concurrency: -1 }, 'concurrency must be a non-negative integer, got -1'],
+      [{ concurrency: NaN }, 'concurrency must be a non-negative integer, got NaN'],
+      [{ concurrency: 1.5 }, 'concurrency must be a non-negative integer, got 1.5'],
+      [{ concurrency: 1, chunkSize: 0 }, 'chunkSize must be a positive integer, got 0'],
+      [{ concurrency: 0, chunkSize: -2 }, 'chunkSize must be a positive integer, got -2']
+    ])('should reject %o', async (options, message) => {
+      await expect(verifyBatch(documents, signerRegistry, options)).rejects.toThrow(message);
+    });
+
+    it('should reject when aborted while running', async () => {
+      const controller = new AbortController();
+      const batch = verifyBatch(documents, signerRegistry, { concurrency: 1, chunkSize: 1, signal: controller.signal });
+      controller.abort(new Error('cancelled by operator'));
+
+      await expect(batch).rejects.toThrow('cancelled by operator');
+    });
+
+    it.each<[string, TraversalOptions]>([
+      ['timestamps.now', { timestamps: { now: () => new Date() } }],
+      ['replayStore', { replayStore: new InMemoryReplayStore() }],
+      ['contentLoader', { contentLoader: { load: () => undefined } }],
+      ['transparencyLog', { transparencyLog: { log: { proveInclusion: () => undefined }, logKey: '0x00' } }]
+    ])('should reject %s, which cannot be copied to workers', async (option, traversalOptions) => {
+      await expect(verifyBatch(documents, signerRegistry, { concurrency: 1, traversalOptions }))
+        .rejects.toThrow(`traversalOptions.${option} cannot be copied to worker threads; use concurrency: 0`);
+    });
+
+    it('should reject a signal that is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('too late'));
+
+      await expect(
+        verifyBatch(documents, signerRegistry, { concurrency: 1, signal: controller.signal })
+      ).rejects.toThrow('too late');
+    });
+  });
+});
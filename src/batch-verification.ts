@@ -0,0 +1,312 @@
+import { Worker } from 'worker_threads';
+import { existsSync } from 'fs';
+import { cpus } from 'os';
+import * as path from 'path';
+import {
+  SignedDocument,
+  ChainStep,
+  AnySignerRegistry,
+  TraversalOptions,
+  VerificationResult,
+  VerificationErrorCode
+} from './types';
+import { traverse } from './traversal';
+
+/**
+ * Options for verifyBatch()
+ */
+export interface BatchVerificationOptions {
+  /**
+   * Number of worker threads (defaults to one less than the CPU count, at least 1).
+   * Use 0 to verify on the calling thread.
+   */
+  concurrency?: number;
+  /** Documents sent to a worker at a time (defaults to 50, at least 1) */
+  chunkSize?: number;
+  /**
+   * Options passed to traverse(); must be structured-cloneable when workers are
+   * used, so an injected clock (`timestamps.now`), a `replayStore`, a
+   * `contentLoader` or a `transparencyLog` requires `concurrency: 0`
+   */
+  traversalOptions?: TraversalOptions;
+  /** Aborts the batch; the returned promise rejects and all workers are stopped */
+  signal?: AbortSignal;
+}
+
+/**
+ * Aggregate statistics of a batch verification
+ */
+export interface BatchVerificationStats {
+  /** Number of documents verified */
+  total: number;
+  /** Number of valid documents */
+  valid: number;
+  /** Number of invalid documents */
+  invalid: number;
+  /** Number of invalid documents per error code */
+  failuresByKind: Partial<Record<VerificationErrorCode | 'UNKNOWN', number>>;
+  /** Wall-clock time of the whole batch */
+  durationMs: number;
+  /** Mean time spent verifying a single document */
+  averageDocumentMs: number;
+  /** Longest time spent verifying a single document */
+  maxDocumentMs: number;
+}
+
+/**
+ * Results of a batch verification
+ */
+export interface BatchVerificationResult {
+  /** One result per document, in input order */
+  results: VerificationResult[];
+  /** Aggregate statistics */
+  stats: BatchVerificationStats;
+}
+
+/**
+ * Data every batch worker is started with
+ */
+export interface BatchWorkerData {
+  signerRegistry: AnySignerRegistry;
+  traversalOptions?: TraversalOptions;
+}
+
+/**
+ * A chunk of documents sent to a worker
+ */
+export interface BatchChunkRequest {
+  /** Index of the chunk's first document in the batch */
+  start: number;
+  documents: SignedDocument<ChainStep>[];
+}
+
+/**
+ * Verification results for a chunk, sent back by a worker
+ */
+export interface BatchChunkResponse {
+  start: number;
+  results: VerificationResult[];
+  durations: number[];
+}
+
+/**
+ * Verifies many documents, spreading traverse() across a pool of worker threads
+ *
+ * @param documents - The documents to verify
+ * @param signerRegistry - The signer registry (copied to every worker)
+ * @param options - Concurrency, traversal options and cancellation
+ * @returns Results in input order plus aggregate statistics
+ * @throws If `concurrency` or `chunkSize` is not a valid count, or if workers are used
+ *   with traversal options that cannot be copied to them
+ */
+export async function verifyBatch(
+  documents: SignedDocument<ChainStep>[],
+  signerRegistry: AnySignerRegistry,
+  options: BatchVerificationOptions = {}
+): Promise<BatchVerificationResult> {
+  const startedAt = performance.now();
+  const concurrency = options.concurrency ?? Math.max(cpus().length - 1, 1);
+  // A pool without workers or chunks would never settle
+  if (!Number.isInteger(concurrency) || concurrency < 0) {
+    throw new Error(`concurrency must be a non-negative integer, got ${concurrency}`);
+  }
+  if (options.chunkSize !== undefined && (!Number.isInteger(options.chunkSize) || options.chunkSize < 1)) {
+    throw new Error(`chunkSize must be a positive integer, got ${options.chunkSize}`);
+  }
+
+  const threadBound = concurrency === 0 ? undefined : threadBoundOption(options.traversalOptions);
+  if (threadBound) {
+    throw new Error(`traversalOptions.${threadBound} cannot be copied to worker threads; use concurrency: 0`);
+  }
+
+  const { results, durations } = concurrency === 0
+    ? verifyInline(documents, signerRegistry, options)
+    : await verifyInWorkers(documents, signerRegistry, concurrency, options);
+
+  return {
+    results,
+    stats: summarize(results, durations, performance.now() - startedAt)
+  };
+}
+
+/**
+ * Finds a traversal option that holds functions or shared state, which workers cannot receive
+ */
+function threadBoundOption(options: TraversalOptions = {}): string | undefined {
+  if (options.timestamps?.now) {
+    return 'timestamps.now';
+  }
+  // A store copied to each worker would miss the uses recorded by the others
+  return (['replayStore', 'contentLoader', 'transparencyLog'] as const).find(option => options[option] !== undefined);
+}
+
+/**
+ * Verifies the documents on the calling thread
+ */
+function verifyInline(
+  documents: SignedDocument<ChainStep>[],
+  signerRegistry: AnySignerRegistry,
+  options: BatchVerificationOptions
+): { results: VerificationResult[]; durations: number[] } {
+  const results: VerificationResult[] = [];
+  const durations: number[] = [];
+
+  for (const document of documents) {
+    throwIfAborted(options.signal);
+    const startedAt = performance.now();
+    results.push(traverse(document, signerRegistry, options.traversalOptions));
+    durations.push(performance.now() - startedAt);
+  }
+
+  return { results, durations };
+}
+
+/**
+ * Verifies the documents in a pool of worker threads, handing out chunks on demand
+ */
+function verifyInWorkers(
+  documents: SignedDocument<ChainStep>[],
+  signerRegistry: AnySignerRegistry,
+  concurrency: number,
+  options: BatchVerificationOptions
+): Promise<{ results: VerificationResult[]; durations: number[] }> {
+  const chunkSize = options.chunkSize ?? 50;
+  const results: VerificationResult[] = new Array(documents.length);
+  const durations: number[] = new Array(documents.length);
+
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    let nextStart = 0;
+    let pendingChunks = Math.ceil(documents.length / chunkSize);
+    let settled = false;
+
+    const finish = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      options.signal?.removeEventListener('abort', onAbort);
+      workers.forEach(worker => worker.terminate());
+      error === undefined ? resolve({ results, durations }) : reject(error);
+    };
+
+    const onAbort = () => finish(abortReason(options.signal!));
+
+    const dispatch = (worker: Worker) => {
+      if (nextStart >= documents.length) {
+        return;
+      }
+      const request: BatchChunkRequest = {
+        start: nextStart,
+        documents: documents.slice(nextStart, nextStart + chunkSize)
+      };
+      nextStart += chunkSize;
+      worker.postMessage(request);
+    };
+
+    if (options.signal?.aborted) {
+      reject(abortReason(options.signal));
+      return;
+    }
+    if (pendingChunks === 0) {
+      resolve({ results, durations });
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+
+    const workerCount = Math.min(concurrency, pendingChunks);
+    const workerData: BatchWorkerData = { signerRegistry, traversalOptions: options.traversalOptions };
+
+    for (let i = 0; i < workerCount; i++) {
+      let worker: Worker;
+      try {
+        worker = createWorker(workerData);
+      } catch (error) {
+        finish(error);
+        return;
+      }
+      workers.push(worker);
+
+      worker.on('message', (response: BatchChunkResponse) => {
+        response.results.forEach((result, offset) => {
+          results[response.start + offset] = result;
+          durations[response.start + offset] = response.durations[offset];
+        });
+
+        if (--pendingChunks === 0) {
+          finish();
+        } else {
+          dispatch(worker);
+        }
+      });
+      worker.on('error', error => finish(error));
+      worker.on('exit', code => {
+        if (code !== 0) {
+          finish(new Error(`Batch worker exited with code ${code}`));
+        }
+      });
+
+      dispatch(worker);
+    }
+  });
+}
+
+/**
+ * Starts a batch worker from the compiled output, or from the TypeScript
+ * sources through ts-node when running uncompiled (ts-node, ts-jest)
+ */
+function createWorker(workerData: BatchWorkerData): Worker {
+  const compiledPath = path.join(__dirname, 'batch-worker.js');
+  if (existsSync(compiledPath)) {
+    return new Worker(compiledPath, { workerData });
+  }
+
+  const sourcePath = path.join(__dirname, 'batch-worker.ts');
+  const bootstrap = `require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(sourcePath)});`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/**
+ * Computes aggregate statistics for a batch
+ */
+function summarize(results: VerificationResult[], durations: number[], durationMs: number): BatchVerificationStats {
+  const failuresByKind: BatchVerificationStats['failuresByKind'] = {};
+  let valid = 0;
+
+  for (const result of results) {
+    if (result.isValid) {
+      valid++;
+      continue;
+    }
+    const code = result.errorCode ?? 'UNKNOWN';
+    failuresByKind[code] = (failuresByKind[code] ?? 0) + 1;
+  }
+
+  const totalDocumentMs = durations.reduce((sum, duration) => sum + duration, 0);
+
+  return {
+    total: results.length,
+    valid,
+    invalid: results.length - valid,
+    failuresByKind,
+    durationMs,
+    averageDocumentMs: results.length > 0 ? totalDocumentMs / results.length : 0,
+    maxDocumentMs: durations.reduce((max, duration) => Math.max(max, duration), 0)
+  };
+}
+
+/**
+ * The error a batch rejects with when aborted
+ */
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error('Batch verification aborted');
+}
+
+/**
+ * Throws the abort reason if the signal has been aborted
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
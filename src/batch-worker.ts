@@ -0,0 +1,29 @@
+/**
+ * Worker thread entry point for verifyBatch()
+ *
+ * Receives chunks of documents, verifies each with traverse() and posts the
+ * results back along with the time each verification took.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { traverse } from './traversal';
+import { SignedDocument, ChainStep } from './types';
+import { BatchWorkerData, BatchChunkRequest, BatchChunkResponse } from './batch-verification';
+
+const { signerRegistry, traversalOptions } = workerData as BatchWorkerData;
+
+parentPort?.on('message', (request: BatchChunkRequest) => {
+  const response: BatchChunkResponse = {
+    start: request.start,
+    results: [],
+    durations: []
+  };
+
+  request.documents.forEach((document: SignedDocument<ChainStep>) => {
+    const startedAt = performance.now();
+    response.results.push(traverse(document, signerRegistry, traversalOptions));
+    response.durations.push(performance.now() - startedAt);
+  });
+
+  parentPort?.postMessage(response);
+});
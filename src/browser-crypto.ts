@@ -0,0 +1,14 @@
+/**
+ * Stand-in for Node's crypto module in the browser bundle
+ *
+ * The PEM-based schemes (`ed25519`, `p256`) need Node's crypto: in the
+ * browser their signatures fail to verify and signing throws.
+ */
+
+function unavailable(): never {
+  throw new Error('Node crypto is not available in the browser');
+}
+
+export const createPublicKey = unavailable;
+export const sign = unavailable;
+export const verify = unavailable;
@@ -0,0 +1,18 @@
+/**
+ * Browser entry point, bundled as an ES module by `npm run build:browser`
+ *
+ * Node's crypto module is replaced by browser-crypto.ts in the bundle, so
+ * only the Ethereum signature schemes (`eip191`, `eip712`, `eip712-step`)
+ * work in the browser.
+ */
+
+export { traverse } from './traversal';
+export { calculateExpectedHash, verifySignature, signMessage, isCoSignedStep } from './crypto-utils';
+export { parseSignedDocument, DocumentValidationError } from './document-validation';
+export { buildStepTypedData, DEFAULT_STEP_DOMAIN } from './signature-schemes';
+export { createDocumentContext, InMemoryReplayStore } from './replay-protection';
+export { verifyInclusionProof, verifyConsistencyProof, verifyTreeHead } from './merkle-log';
+export { DocumentSigner } from './document-signer';
+export { formatVerificationText } from './report-formatters';
+export { Wallet } from 'ethers';
+export * from './types';
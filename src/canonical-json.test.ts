@@ -0,0 +1,44 @@
+import { canonicalize } from './canonical-json';
+
+describe('canonicalize', () => {
+  it('should match the RFC 8785 example output', () => {
+    const input = JSON.parse(
+      '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],' +
+      '"string":"\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/",' +
+      '"literals":[null,true,false]}'
+    );
+
+    expect(canonicalize(input)).toBe(
+      '{"literals":[null,true,false],' +
+      '"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+      '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+  });
+
+  it('should sort keys at every nesting level', () => {
+    const a = { b: { y: 1, x: [{ d: 1, c: 2 }] }, a: 'first' };
+    const b = { a: 'first', b: { x: [{ c: 2, d: 1 }], y: 1 } };
+
+    expect(canonicalize(a)).toBe('{"a":"first","b":{"x":[{"c":2,"d":1}],"y":1}}');
+    expect(canonicalize(a)).toBe(canonicalize(b));
+  });
+
+  it('should sort keys by UTF-16 code units', () => {
+    expect(canonicalize({ '€': 1, '\r': 2, 'a': 3, '1': 4 })).toBe('{"\\r":2,"1":4,"a":3,"€":1}');
+  });
+
+  it('should drop undefined members like JSON.stringify', () => {
+    expect(canonicalize({ a: undefined, b: 1 })).toBe('{"b":1}');
+    expect(canonicalize([undefined, 1])).toBe('[null,1]');
+  });
+
+  it('should serialize dates through toJSON', () => {
+    expect(canonicalize({ at: new Date('2025-01-01T00:00:00Z') })).toBe('{"at":"2025-01-01T00:00:00.000Z"}');
+  });
+
+  it('should reject values that have no JSON representation', () => {
+    expect(() => canonicalize(NaN)).toThrow('non-finite');
+    expect(() => canonicalize(Infinity)).toThrow('non-finite');
+    expect(() => canonicalize(BigInt(1))).toThrow('bigint');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Serializes a value using the JSON Canonicalization Scheme (RFC 8785)
+ *
+ * Object keys are sorted by UTF-16 code units at every nesting level,
+ * numbers use the ECMAScript number serialization, and no whitespace is
+ * emitted. Two structurally equal values always produce the same string.
+ *
+ * @param value - The JSON-compatible value to serialize
+ * @returns The canonical JSON string
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      return JSON.stringify(value);
+
+    case 'string':
+      return JSON.stringify(value);
+
+    case 'object':
+      return canonicalizeObject(value as object);
+
+    default:
+      throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+  }
+}
+
+/**
+ * Serializes an array or plain object, recursing into its members
+ */
+function canonicalizeObject(value: object): string {
+  // Honour toJSON (e.g. Date) the same way JSON.stringify does
+  const json = value as { toJSON?: () => unknown };
+  if (typeof json.toJSON === 'function') {
+    return canonicalize(json.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(item => (isOmitted(item) ? 'null' : canonicalize(item)));
+    return `[${items.join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const members = Object.keys(record)
+    .filter(key => !isOmitted(record[key]))
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+
+  return `{${members.join(',')}}`;
+}
+
+/**
+ * Values that JSON.stringify drops from objects (and turns into null in arrays)
+ */
+function isOmitted(value: unknown): boolean {
+  return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
@@ -0,0 +1,81 @@
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { Payload, ChainStep, DocumentHeader, CanonicalizationMode } from './types';
+import { createHasher, serializeChainRoot, serializeStep, IncrementalHash } from './crypto-utils';
+
+/**
+ * Running hash over a document's payload and signature chain
+ *
+ * Produces the same hashes as `calculateExpectedHash`, but keeps the hash
+ * state between steps: each step is serialized and hashed exactly once,
+ * so walking a chain of n steps costs O(n) instead of O(n²).
+ */
+export class ChainHasher {
+  private readonly mode: CanonicalizationMode;
+  private state: IncrementalHash;
+  private signatureCount = 0;
+
+  /**
+   * @param payload - The document payload
+   * @param header - The document header selecting serialization and hash algorithm
+   */
+  constructor(payload: Payload, header: DocumentHeader = {}) {
+    this.mode = header.canonicalization ?? 'legacy';
+    this.state = createHasher(header.hashAlgorithm);
+    this.state.update(utf8ToBytes(serializeChainRoot(payload, header)));
+  }
+
+  /**
+   * Number of chain steps hashed so far
+   */
+  get length(): number {
+    return this.signatureCount;
+  }
+
+  /**
+   * The hash the next signer must sign
+   * @returns The hash of the payload and all appended signatures
+   */
+  currentHash(): string {
+    return `0x${bytesToHex(this.state.clone().digest())}`;
+  }
+
+  /**
+   * Adds a chain step to the running hash
+   * @param signature - The next signature or co-signed step in the chain
+   */
+  append(signature: ChainStep): void {
+    this.state.update(utf8ToBytes(serializeStep(signature, this.mode)));
+    this.signatureCount++;
+  }
+
+  /**
+   * Creates an independent copy of this hasher
+   * @returns A hasher with the same state
+   */
+  clone(): ChainHasher {
+    const copy = Object.create(ChainHasher.prototype) as ChainHasher;
+    Object.assign(copy, this, { state: this.state.clone() });
+    return copy;
+  }
+}
+
+/**
+ * Calculates the expected hash for every position of a chain in one pass
+ * @param payload - The document payload
+ * @param signatures - The chain steps in order
+ * @param header - The document header
+ * @returns The hash that step i must have signed, for every i
+ */
+export function calculateExpectedHashes(
+  payload: Payload,
+  signatures: ChainStep[],
+  header: DocumentHeader = {}
+): string[] {
+  const hasher = new ChainHasher(payload, header);
+
+  return signatures.map(signature => {
+    const expectedHash = hasher.currentHash();
+    hasher.append(signature);
+    return expectedHash;
+  });
+}
@@ -0,0 +1,111 @@
+import { traverse } from './traversal';
+import { calculateExpectedHash, signMessage } from './crypto-utils';
+import { MUTATION_KINDS, flipHexDigit, mutateChain, seededRandom } from './chain-mutations';
+import { testDataGenerator } from './test-data-generator';
+
+// Set FUZZ_SEED (and FUZZ_RUNS) to reproduce or extend a run
+const FUZZ_SEED = Number(process.env.FUZZ_SEED ?? 20250101);
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS ?? 25);
+
+describe('Chain Mutations', () => {
+  describe('seeded random numbers', () => {
+    it('should repeat the sequence of a seed', () => {
+      const first = seededRandom(42);
+      const second = seededRandom(42);
+      const other = seededRandom(43);
+
+      const sequence = Array.from({ length: 5 }, () => first());
+      expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+      expect(Array.from({ length: 5 }, () => other())).not.toEqual(sequence);
+      expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+  });
+
+  describe('flipHexDigit', () => {
+    it('should always change exactly one digit', () => {
+      const random = seededRandom(7);
+      for (const hex of ['0xaaaa', '0x0000', '0xffff', '0x5']) {
+        for (let i = 0; i < 50; i++) {
+          const { value, position } = flipHexDigit(hex, random);
+          expect(value).toHaveLength(hex.length);
+          expect(value[position]).not.toBe(hex[position]);
+          expect(value.slice(0, position) + value.slice(position + 1)).toBe(hex.slice(0, position) + hex.slice(position + 1));
+        }
+      }
+    });
+
+    it('should keep the generated corruptions from being no-ops', async () => {
+      const valid = await testDataGenerator.generateValidDocument();
+      const registry = testDataGenerator.getSignerRegistry();
+
+      expect(traverse(await testDataGenerator.generateDocumentWithInvalidSignature(), registry).isValid).toBe(false);
+      expect(traverse(await testDataGenerator.generateDocumentWithBrokenHashChain(), registry).isValid).toBe(false);
+      expect(traverse(valid, registry).isValid).toBe(true);
+    });
+
+    it('should corrupt the generated fixtures the same way on every run', async () => {
+      const invalid = await testDataGenerator.generateDocumentWithInvalidSignature();
+      const { signerId, signedHash } = invalid.signatures[1];
+      const original = await signMessage(signedHash, testDataGenerator.getWallet(signerId)!);
+      expect(invalid.signatures[1].signature).toBe(flipHexDigit(original, seededRandom(1)).value);
+
+      const broken = await testDataGenerator.generateDocumentWithBrokenHashChain();
+      const expectedHash = calculateExpectedHash(broken.payload, broken.signatures.slice(0, 1), broken.header);
+      expect(broken.signatures[1].signedHash).toBe(flipHexDigit(expectedHash, seededRandom(2)).value);
+    });
+  });
+
+  describe('generated chains', () => {
+    it.each([
+      [1, 1],
+      [4, 2],
+      [9, 7]
+    ])('should generate a valid chain of length %i with %i signers', async (length, signerCount) => {
+      const { document, signerRegistry } = await testDataGenerator.generateChain({ length, signerCount });
+
+      expect(document.signatures).toHaveLength(length);
+      expect(Object.keys(signerRegistry)).toHaveLength(signerCount);
+      expect(traverse(document, signerRegistry).isValid).toBe(true);
+    });
+
+    it('should generate the same run from the same seed', async () => {
+      const first = await testDataGenerator.generateMutationRun(99);
+      const second = await testDataGenerator.generateMutationRun(99);
+
+      expect(second).toEqual(first);
+      expect(traverse(first.original, first.signerRegistry).isValid).toBe(true);
+    });
+  });
+
+  describe('mutations', () => {
+    it('should not modify the original document', async () => {
+      const { document } = await testDataGenerator.generateChain({ length: 3 });
+      const snapshot = JSON.stringify(document);
+
+      for (const kind of MUTATION_KINDS) {
+        mutateChain(document, kind, seededRandom(1));
+      }
+      expect(JSON.stringify(document)).toBe(snapshot);
+    });
+
+    it(`should all be rejected by traverse() (seed ${FUZZ_SEED}, ${FUZZ_RUNS} runs)`, async () => {
+      const accepted: string[] = [];
+      const kinds = new Set<string>();
+
+      for (let run = 0; run < FUZZ_RUNS; run++) {
+        const { seed, original, signerRegistry, mutations } = await testDataGenerator.generateMutationRun(FUZZ_SEED + run);
+        expect(traverse(original, signerRegistry).isValid).toBe(true);
+
+        for (const mutation of mutations) {
+          kinds.add(mutation.kind);
+          if (traverse(mutation.document, signerRegistry).isValid) {
+            accepted.push(`seed ${seed}: ${mutation.kind} (${mutation.description})`);
+          }
+        }
+      }
+
+      expect(accepted).toEqual([]);
+      expect([...kinds].sort()).toEqual([...MUTATION_KINDS].sort());
+    });
+  });
+});
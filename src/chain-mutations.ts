@@ -0,0 +1,186 @@
+import { SignedDocument, Signature } from './types';
+
+/**
+ * Source of random numbers in [0, 1), like Math.random
+ */
+export type Random = () => number;
+
+/**
+ * Systematic corruptions of a signed chain, each of which verification must reject
+ *
+ * - `byte-flip`: one hex digit of a signature or signed hash, or one character of the content, changes
+ * - `field-swap`: two signatures exchange a field, or one swaps its signature and signed hash
+ * - `reorder`: two signatures change places
+ * - `truncate`: signatures before the last one are cut out (cutting the tail leaves a valid shorter chain)
+ * - `duplicate`: a signature appears twice
+ * - `signer-swap`: a signature claims another signer
+ */
+export type MutationKind = 'byte-flip' | 'field-swap' | 'reorder' | 'truncate' | 'duplicate' | 'signer-swap';
+
+/**
+ * Every mutation kind
+ */
+export const MUTATION_KINDS: MutationKind[] = ['byte-flip', 'field-swap', 'reorder', 'truncate', 'duplicate', 'signer-swap'];
+
+/**
+ * A corrupted copy of a document
+ */
+export interface ChainMutation {
+  /** The kind of corruption */
+  kind: MutationKind;
+  /** What exactly was changed, e.g. `signatures[2].signedHash: flipped digit 17` */
+  description: string;
+  /** The corrupted document */
+  document: SignedDocument;
+}
+
+const HEX_DIGITS = '0123456789abcdef';
+const SWAPPABLE_FIELDS: (keyof Signature)[] = ['signature', 'signedHash', 'signedAt'];
+
+/**
+ * Creates a seeded random number generator (mulberry32)
+ * @param seed - Any 32-bit integer; equal seeds give equal sequences
+ * @returns The generator
+ */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks an integer in [0, n)
+ * @param random - The random number generator
+ * @param n - Number of choices
+ * @returns The chosen integer
+ */
+export function randomInt(random: Random, n: number): number {
+  return Math.floor(random() * n);
+}
+
+/**
+ * Changes one hex digit of a 0x-prefixed hex string to a different digit
+ * @param hex - The hex string, with at least one digit
+ * @param random - The random number generator (defaults to Math.random)
+ * @returns The changed string and the position of the changed digit
+ */
+export function flipHexDigit(hex: string, random: Random = Math.random): { value: string; position: number } {
+  const prefix = hex.startsWith('0x') ? 2 : 0;
+  if (hex.length <= prefix) {
+    throw new Error('Cannot flip a digit of an empty hex string');
+  }
+
+  const position = prefix + randomInt(random, hex.length - prefix);
+  const digit = HEX_DIGITS.indexOf(hex[position].toLowerCase());
+  // Adding 1 to 15 modulo 16 never yields the same digit
+  const flipped = HEX_DIGITS[(Math.max(digit, 0) + 1 + randomInt(random, 15)) % 16];
+  return { value: hex.slice(0, position) + flipped + hex.slice(position + 1), position };
+}
+
+/**
+ * Applies one mutation of the given kind to a copy of a document
+ * @param document - A valid document with at least one signature
+ * @param kind - The kind of mutation
+ * @param random - The random number generator choosing positions and fields
+ * @param signerIds - Signer IDs a signer swap may claim (defaults to the chain's other signers)
+ * @returns The mutation; the input document is not modified
+ */
+export function mutateChain(
+  document: SignedDocument,
+  kind: MutationKind,
+  random: Random,
+  signerIds: string[] = []
+): ChainMutation {
+  const signatures = document.signatures.map(signature => ({ ...signature }));
+  const payload = { ...document.payload };
+  const count = signatures.length;
+  if (count === 0) {
+    throw new Error('Cannot mutate a document without signatures');
+  }
+
+  const mutation = (description: string): ChainMutation => ({
+    kind,
+    description,
+    document: { ...document, payload, signatures }
+  });
+  // Two different positions, the first one before the second
+  const pickPair = (): [number, number] => {
+    const first = randomInt(random, count - 1);
+    return [first, first + 1 + randomInt(random, count - 1 - first)];
+  };
+
+  switch (kind) {
+    case 'byte-flip': {
+      const target = randomInt(random, 2 * count + 1);
+      if (target === 2 * count && typeof payload.content === 'string' && payload.content.length > 0) {
+        const position = randomInt(random, payload.content.length);
+        const replacement = payload.content[position] === 'a' ? 'b' : 'a';
+        payload.content = payload.content.slice(0, position) + replacement + payload.content.slice(position + 1);
+        return mutation(`payload.content: changed character ${position}`);
+      }
+      const index = target % count;
+      const field = target < count ? 'signature' : 'signedHash';
+      const { value, position } = flipHexDigit(signatures[index][field], random);
+      signatures[index][field] = value;
+      return mutation(`signatures[${index}].${field}: flipped digit ${position}`);
+    }
+
+    case 'field-swap': {
+      if (count === 1) {
+        [signatures[0].signature, signatures[0].signedHash] = [signatures[0].signedHash, signatures[0].signature];
+        return mutation('signatures[0]: swapped signature and signedHash');
+      }
+      const [first, second] = pickPair();
+      // signedAt is only hashed by later steps, so it must differ between the two
+      const fields = SWAPPABLE_FIELDS.filter(field => signatures[first][field] !== signatures[second][field]);
+      const field = fields[randomInt(random, fields.length)] as 'signature' | 'signedHash' | 'signedAt';
+      [signatures[first][field], signatures[second][field]] = [signatures[second][field], signatures[first][field]];
+      return mutation(`signatures[${first}] and signatures[${second}]: swapped ${field}`);
+    }
+
+    case 'reorder': {
+      if (count === 1) {
+        throw new Error('Cannot reorder a chain of one signature');
+      }
+      const [first, second] = pickPair();
+      [signatures[first], signatures[second]] = [signatures[second], signatures[first]];
+      return mutation(`swapped signatures[${first}] and signatures[${second}]`);
+    }
+
+    case 'truncate': {
+      if (count === 1) {
+        throw new Error('Cannot truncate a chain of one signature');
+      }
+      // Cut out a range that ends before the last signature
+      const start = randomInt(random, count - 1);
+      const length = 1 + randomInt(random, count - 1 - start);
+      signatures.splice(start, length);
+      return mutation(`removed signatures[${start}..${start + length - 1}]`);
+    }
+
+    case 'duplicate': {
+      const index = randomInt(random, count);
+      const at = index + 1 + randomInt(random, count - index);
+      signatures.splice(at, 0, { ...signatures[index] });
+      return mutation(`copied signatures[${index}] to position ${at}`);
+    }
+
+    case 'signer-swap': {
+      const index = randomInt(random, count);
+      const current = signatures[index].signerId;
+      const candidates = [...new Set([...signerIds, ...signatures.map(signature => signature.signerId)])]
+        .filter(signerId => signerId !== current);
+      const claimed = candidates.length > 0 ? candidates[randomInt(random, candidates.length)] : `${current}-impostor`;
+      signatures[index].signerId = claimed;
+      return mutation(`signatures[${index}].signerId: ${current} -> ${claimed}`);
+    }
+
+    default:
+      throw new Error(`Unknown mutation kind: ${kind}`);
+  }
+}
@@ -0,0 +1,187 @@
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { traverseAsync } from './async-traversal';
+import { InMemorySignerResolver } from './signer-resolver';
+import { calculateExpectedHash, calculateRecordHash, signMessage } from './crypto-utils';
+import { formatVerificationText, formatChain } from './report-formatters';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry, ChainStep, WithdrawalStep, AmendmentStep } from './types';
+
+describe('Withdrawal and Amendment Records', () => {
+  const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+  const original = { documentId: 'PO-2025-003', content: 'Purchase order: 500 units at $10' };
+  const amended = { documentId: 'PO-2025-003', content: 'Purchase order: 400 units at $10' };
+  let signerRegistry: SignerRegistry;
+  let signer: DocumentSigner;
+  let approved: SignedDocument<ChainStep>;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    signer = new DocumentSigner(signerRegistry);
+
+    approved = signer.createDocument(original);
+    approved = await signer.sign(approved, 'developer-alice', wallet('developer-alice'));
+    approved = await signer.sign(approved, 'qa-bob', wallet('qa-bob'));
+  });
+
+  describe('withdrawals', () => {
+    it('should keep the chain valid and mark the approval as withdrawn', async () => {
+      const document = await signer.withdraw(approved, 'qa-bob', wallet('qa-bob'), 1, 'Quantity disputed');
+      const result = traverse(document, signerRegistry);
+
+      expect(result.isValid).toBe(true);
+      expect(result.signatureResults.map(r => r.signerId)).toEqual(['developer-alice', 'qa-bob', 'qa-bob']);
+      expect(result.effectiveState).toMatchObject({
+        payload: original,
+        payloadVersion: 0,
+        approvals: [
+          { signerId: 'developer-alice', index: 0, payloadVersion: 0 },
+          { signerId: 'qa-bob', index: 1, payloadVersion: 0, withdrawnAt: 2 }
+        ],
+        currentApprovers: ['developer-alice']
+      });
+      expect(result.effectiveState!.approvals[0].withdrawnAt).toBeUndefined();
+    });
+
+    it('should only let signers withdraw their own approvals, once', async () => {
+      await expect(signer.withdraw(approved, 'manager-charlie', wallet('manager-charlie'), 1))
+        .rejects.toThrow('manager-charlie cannot withdraw step 1: signed by qa-bob');
+      await expect(signer.withdraw(approved, 'qa-bob', wallet('qa-bob'), 2))
+        .rejects.toThrow('qa-bob cannot withdraw step 2: no such earlier step');
+
+      const withdrawn = await signer.withdraw(approved, 'qa-bob', wallet('qa-bob'), 1);
+      await expect(signer.withdraw(withdrawn, 'qa-bob', wallet('qa-bob'), 1))
+        .rejects.toThrow('qa-bob has already withdrawn step 1');
+      await expect(signer.withdraw(withdrawn, 'qa-bob', wallet('qa-bob'), 2))
+        .rejects.toThrow('qa-bob cannot withdraw step 2: it is not an approval');
+    });
+
+    it('should reject a signed withdrawal of somebody else\'s approval', async () => {
+      const chainHash = calculateExpectedHash(approved.payload, approved.signatures, approved.header);
+      const fields = { type: 'withdrawal' as const, signerId: 'manager-charlie', withdraws: 0, signedAt: '2025-01-02T10:00:00.000Z' };
+      const signedHash = calculateRecordHash(chainHash, fields as WithdrawalStep, approved.header);
+      const forged: WithdrawalStep = {
+        ...fields,
+        signature: await signMessage(signedHash, wallet('manager-charlie')),
+        signedHash
+      };
+
+      const result = traverse({ ...approved, signatures: [...approved.signatures, forged] }, signerRegistry);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('INVALID_WITHDRAWAL');
+      expect(result.errorDetails).toMatchObject({ signerId: 'manager-charlie', withdraws: 0, index: 2 });
+      expect(result.effectiveState!.currentApprovers).toEqual(['developer-alice', 'qa-bob']);
+    });
+
+    it('should detect a withdrawal redirected to another step', async () => {
+      const document = await signer.withdraw(approved, 'qa-bob', wallet('qa-bob'), 1);
+      const signatures = [...document.signatures];
+      signatures[2] = { ...(signatures[2] as WithdrawalStep), withdraws: 0 };
+
+      const result = traverse({ ...document, signatures }, signerRegistry);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('HASH_MISMATCH');
+    });
+
+    it('should not count withdrawn approvals towards the signing policy', async () => {
+      const document = await signer.withdraw(approved, 'qa-bob', wallet('qa-bob'), 1);
+      const result = traverse(document, signerRegistry, { policy: { requiredSigners: ['qa-bob'] } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('POLICY_VIOLATION');
+    });
+
+    it('should count records towards the maximum chain length', async () => {
+      const document = await signer.withdraw(approved, 'qa-bob', wallet('qa-bob'), 1);
+      const result = traverse(document, signerRegistry, { policy: { maxSignatures: 2 } });
+
+      expect(result.policyViolations).toEqual([{ rule: 'maxSignatures', message: 'Chain has 3 signatures, maximum is 2' }]);
+    });
+  });
+
+  describe('amendments', () => {
+    let document: SignedDocument<ChainStep>;
+
+    beforeAll(async () => {
+      document = await signer.amend(approved, 'developer-alice', wallet('developer-alice'), amended, 'Reduced quantity');
+      document = await signer.sign(document, 'qa-bob', wallet('qa-bob'));
+    });
+
+    it('should track which payload version each signer approved', () => {
+      const result = traverse(document, signerRegistry);
+
+      expect(result.isValid).toBe(true);
+      expect(result.effectiveState).toEqual({
+        payload: amended,
+        payloadVersion: 1,
+        approvals: [
+          expect.objectContaining({ signerId: 'developer-alice', index: 0, payloadVersion: 0 }),
+          expect.objectContaining({ signerId: 'qa-bob', index: 1, payloadVersion: 0 }),
+          expect.objectContaining({ signerId: 'qa-bob', index: 3, payloadVersion: 1 })
+        ],
+        currentApprovers: ['qa-bob']
+      });
+    });
+
+    it('should require approvals of the amended payload for the signing policy', async () => {
+      const policy = { requiredSigners: ['developer-alice', 'qa-bob'] };
+      expect(traverse(document, signerRegistry, { policy }).policyViolations)
+        .toEqual([{ rule: 'requiredSigner', message: 'Required signer developer-alice has not signed' }]);
+
+      const resigned = await signer.sign(document, 'developer-alice', wallet('developer-alice'));
+      expect(traverse(resigned, signerRegistry, { policy }).isValid).toBe(true);
+    });
+
+    it('should detect a tampered amended payload', () => {
+      const signatures = [...document.signatures];
+      signatures[2] = { ...(signatures[2] as AmendmentStep), payload: { ...amended, content: 'Purchase order: 4000 units' } };
+
+      const result = traverse({ ...document, signatures }, signerRegistry);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('HASH_MISMATCH');
+      expect(result.signatureResults.map(r => r.isValid)).toEqual([true, true, false, false]);
+    });
+
+    it('should keep the document ID', async () => {
+      await expect(signer.amend(approved, 'developer-alice', wallet('developer-alice'), { ...amended, documentId: 'PO-9' }))
+        .rejects.toThrow('Amended payload must keep document ID PO-2025-003');
+
+      const signatures = [...document.signatures];
+      signatures[2] = { ...(signatures[2] as AmendmentStep), payload: { ...amended, documentId: 'PO-9' } };
+      expect(traverse({ ...document, signatures }, signerRegistry).error)
+        .toBe('Invalid document: signatures[2].payload.documentId: must match payload.documentId');
+    });
+
+    it('should cover the amended payload in legacy canonicalization', async () => {
+      let legacy: SignedDocument<ChainStep> = signer.createDocument(original, { canonicalization: 'legacy' });
+      legacy = await signer.sign(legacy, 'developer-alice', wallet('developer-alice'));
+      legacy = await signer.amend(legacy, 'developer-alice', wallet('developer-alice'), { ...amended, note: 'urgent' });
+      legacy = await signer.sign(legacy, 'qa-bob', wallet('qa-bob'));
+      expect(traverse(legacy, signerRegistry).isValid).toBe(true);
+
+      const signatures = [...legacy.signatures];
+      signatures[1] = { ...(signatures[1] as AmendmentStep), payload: { ...amended, note: 'not urgent' } };
+      expect(traverse({ ...legacy, signatures }, signerRegistry).errorCode).toBe('HASH_MISMATCH');
+    });
+
+    it('should verify records with asynchronously resolved keys', async () => {
+      const result = await traverseAsync(document, new InMemorySignerResolver(signerRegistry));
+
+      expect(result.isValid).toBe(true);
+      expect(result.effectiveState!.payloadVersion).toBe(1);
+    });
+
+    it('should report the effective state', () => {
+      const text = formatVerificationText(traverse(document, signerRegistry));
+
+      expect(text).toContain('Effective state: payload version 1');
+      expect(text).toContain('#0 developer-alice: approved version 0, superseded by amendment');
+      expect(text).toContain('#3 qa-bob: approved version 1, in force');
+      expect(formatChain(document)).toContain('#2 amendment by developer-alice\n   Reason:      Reduced quantity');
+      expect(formatChain(document)).not.toContain('❌');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  SignedDocument,
+  ChainStep,
+  Payload,
+  Approval,
+  EffectiveState,
+  SignatureVerificationResult,
+  VerificationError
+} from './types';
+import { isCoSignedStep, isWithdrawalStep, isAmendmentStep, isRecordStep } from './crypto-utils';
+
+/**
+ * Finds the payload in force at the end of a chain
+ * @param document - The signed document
+ * @returns The last amendment's payload, or the original payload
+ */
+export function currentPayload(document: SignedDocument<ChainStep>): Payload {
+  const steps = Array.isArray(document?.signatures) ? document.signatures : [];
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const step = steps[i];
+    if (step && isAmendmentStep(step)) {
+      return step.payload;
+    }
+  }
+  return document?.payload;
+}
+
+/**
+ * Checks that a withdrawal names an approval of its own signer that is still in force
+ * @param steps - The chain steps
+ * @param index - Position of the withdrawal in the chain
+ * @returns The error, or undefined if the withdrawal is acceptable
+ */
+export function checkWithdrawal(steps: ChainStep[], index: number): VerificationError | undefined {
+  const withdrawal = steps[index];
+  if (!isWithdrawalStep(withdrawal)) {
+    return undefined;
+  }
+
+  const { signerId, withdraws } = withdrawal;
+  const fail = (message: string): VerificationError => ({
+    code: 'INVALID_WITHDRAWAL',
+    message,
+    details: { signerId, withdraws }
+  });
+
+  const target = withdraws < index ? steps[withdraws] : undefined;
+  if (!target) {
+    return fail(`${signerId} cannot withdraw step ${withdraws}: no such earlier step`);
+  }
+  if (isRecordStep(target)) {
+    return fail(`${signerId} cannot withdraw step ${withdraws}: it is not an approval`);
+  }
+
+  const signers = isCoSignedStep(target) ? target.signatures.map(signature => signature.signerId) : [target.signerId];
+  if (!signers.includes(signerId)) {
+    return fail(`${signerId} cannot withdraw step ${withdraws}: signed by ${signers.join(' + ')}`);
+  }
+
+  const earlier = steps.slice(0, index).some(step =>
+    isWithdrawalStep(step) && step.signerId === signerId && step.withdraws === withdraws
+  );
+  if (earlier) {
+    return fail(`${signerId} has already withdrawn step ${withdraws}`);
+  }
+
+  return undefined;
+}
+
+/**
+ * Applies a chain's amendments and withdrawals
+ *
+ * Only steps that verified count: an invalid approval approves nothing, and
+ * an invalid record changes nothing.
+ *
+ * @param document - The signed document
+ * @param signatureResults - The verification result of every step, in chain order
+ * @returns The payload and approvals in force
+ */
+export function computeEffectiveState(
+  document: SignedDocument<ChainStep>,
+  signatureResults: SignatureVerificationResult[]
+): EffectiveState {
+  let payload = document.payload;
+  let payloadVersion = 0;
+  const approvals: Approval[] = [];
+
+  document.signatures.forEach((step, index) => {
+    const stepResult = signatureResults[index];
+    if (!stepResult?.isValid) {
+      return;
+    }
+
+    if (isAmendmentStep(step)) {
+      payload = step.payload;
+      payloadVersion++;
+    } else if (isWithdrawalStep(step)) {
+      const approval = approvals.find(entry => entry.index === step.withdraws && entry.signerId === step.signerId);
+      if (approval) {
+        approval.withdrawnAt = index;
+      }
+    } else if (isCoSignedStep(step)) {
+      step.signatures.forEach((signature, cosignerIndex) => {
+        if (stepResult.cosignerResults?.[cosignerIndex]?.isValid) {
+          approvals.push({ signerId: signature.signerId, index, signedAt: signature.signedAt, payloadVersion });
+        }
+      });
+    } else {
+      approvals.push({ signerId: step.signerId, index, signedAt: step.signedAt, payloadVersion });
+    }
+  });
+
+  const currentApprovers = new Set(approvals
+    .filter(approval => approval.payloadVersion === payloadVersion && approval.withdrawnAt === undefined)
+    .map(approval => approval.signerId));
+
+  return { payload, payloadVersion, approvals, currentApprovers: [...currentApprovers] };
+}
+
+/**
+ * Lists the signers of the approvals in force, as signing policies count them
+ * @param state - The effective state of a chain
+ * @returns The signer of every approval of the payload in force that was not withdrawn, in chain order
+ */
+export function approversInForce(state: EffectiveState): string[] {
+  return state.approvals
+    .filter(approval => approval.payloadVersion === state.payloadVersion && approval.withdrawnAt === undefined)
+    .map(approval => approval.signerId);
+}
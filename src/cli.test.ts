@@ -0,0 +1,240 @@
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { runCli } from './cli';
+import { traverse } from './traversal';
+import { DocumentSigner } from './document-signer';
+import { createContentReference } from './content-references';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry, TimeAwareSignerRegistry } from './types';
+
+describe('CLI', () => {
+  let dir: string;
+  let signerRegistry: SignerRegistry;
+  let files: { valid: string; tampered: string; registry: string; bobKey: string; unsigned: string };
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'sst-cli-'));
+    signerRegistry = testDataGenerator.getSignerRegistry();
+
+    const write = (name: string, contents: string) => {
+      const file = path.join(dir, name);
+      writeFileSync(file, contents);
+      return file;
+    };
+    const valid = await testDataGenerator.generateValidDocument();
+    const unsigned: SignedDocument = { payload: valid.payload, signatures: valid.signatures.slice(0, 1) };
+
+    files = {
+      valid: write('valid.json', JSON.stringify(valid)),
+      tampered: write('tampered.json', JSON.stringify(await testDataGenerator.generateDocumentWithTamperedPayload())),
+      registry: write('registry.json', JSON.stringify(signerRegistry)),
+      bobKey: write('bob.key', `${testDataGenerator.getWallet('qa-bob')!.privateKey}\n`),
+      unsigned: write('partial.json', JSON.stringify(unsigned))
+    };
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs the CLI and captures its output
+   */
+  async function run(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(argv, {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) }
+    });
+    return { code, stdout, stderr };
+  }
+
+  describe('verify', () => {
+    it('should exit with 0 for a valid document', async () => {
+      const { code, stdout } = await run('verify', files.valid, '--registry', files.registry);
+
+      expect(code).toBe(0);
+      expect(stdout).toContain('VALID');
+      expect(stdout).toContain('manager-charlie');
+    });
+
+    it('should exit with 1 and report the error code for an invalid document', async () => {
+      const { code, stdout } = await run('verify', files.tampered, '--registry', files.registry);
+
+      expect(code).toBe(1);
+      expect(stdout).toContain('INVALID');
+      expect(stdout).toContain('HASH_MISMATCH');
+    });
+
+    it('should print the verification result as JSON', async () => {
+      const { stdout } = await run('verify', files.valid, '-r', files.registry, '--format', 'json');
+      const document = JSON.parse(readFileSync(files.valid, 'utf8'));
+
+      expect(JSON.parse(stdout)).toEqual(traverse(document, signerRegistry));
+    });
+
+    it('should print a JUnit report with one case per signature', async () => {
+      const { stdout } = await run('verify', files.tampered, '-r', files.registry, '-f', 'junit');
+
+      expect(stdout).toContain('<testsuite name="CONTRACT-XYZ-123" tests="4" failures="4">');
+      expect(stdout).toContain('<failure type="HASH_MISMATCH"');
+      expect(stdout).toContain('name="document"');
+    });
+
+    it('should check referenced content given with --content', async () => {
+      const contract = new TextEncoder().encode('Purchase agreement');
+      const signer = new DocumentSigner(signerRegistry, { chainOnly: true });
+      const document = await signer.sign(
+        signer.createDocument({ documentId: 'PO-9', content: createContentReference(contract, 'text/plain') }),
+        'developer-alice',
+        testDataGenerator.getWallet('developer-alice')!
+      );
+      const documentFile = path.join(dir, 'referenced.json');
+      const contentFile = path.join(dir, 'contract.txt');
+      writeFileSync(documentFile, JSON.stringify(document));
+      writeFileSync(contentFile, contract);
+
+      expect((await run('verify', documentFile, '-r', files.registry, '--content', contentFile)).code).toBe(0);
+      expect((await run('verify', documentFile, '-r', files.registry)).stdout).toContain('CONTENT_UNAVAILABLE');
+      expect((await run('verify', documentFile, '-r', files.registry, '--chain-only')).stdout).toContain('VALID (chain only)');
+    });
+
+    it('should exit with 2 on usage errors', async () => {
+      expect((await run('verify', files.valid)).code).toBe(2);
+      expect((await run('verify', files.valid, '-r', files.registry, '-f', 'yaml')).stderr).toContain('Unknown format: yaml');
+      expect((await run('verify', path.join(dir, 'missing.json'), '-r', files.registry)).stderr).toContain('Cannot read document');
+      expect((await run('verify', files.bobKey, '-r', files.registry)).stderr).toContain('Invalid JSON in document');
+      expect((await run('frobnicate', files.valid)).stderr).toContain('Unknown command: frobnicate');
+      expect((await run('verify', files.valid, '--bogus')).code).toBe(2);
+      expect((await run('verify')).stderr).toContain('Missing document file for verify');
+      expect((await run()).code).toBe(2);
+    });
+  });
+
+  describe('sign', () => {
+    it('should append a signature that verifies', async () => {
+      const output = path.join(dir, 'signed.json');
+      const { code } = await run(
+        'sign', files.unsigned,
+        '--key', files.bobKey,
+        '--signer-id', 'qa-bob',
+        '--registry', files.registry,
+        '--output', output
+      );
+
+      const signed: SignedDocument = JSON.parse(readFileSync(output, 'utf8'));
+      expect(code).toBe(0);
+      expect(signed.signatures.map(signature => signature.signerId)).toEqual(['developer-alice', 'qa-bob']);
+      expect(traverse(signed, signerRegistry).isValid).toBe(true);
+    });
+
+    it('should write the signed document to stdout without --output', async () => {
+      const { stdout } = await run(
+        'sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', files.registry,
+        '--signed-at', '2025-01-01T00:00:00.000Z'
+      );
+
+      expect(JSON.parse(stdout).signatures[1].signedAt).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should sign and verify typed chain steps in the domain given with --domain', async () => {
+      const output = path.join(dir, 'typed.json');
+      const domain = path.join(dir, 'domain.json');
+      writeFileSync(domain, JSON.stringify({ name: 'AcmeApprovals', version: '1', chainId: 1 }));
+
+      await run(
+        'sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', files.registry,
+        '--scheme', 'eip712-step', '--domain', domain, '--output', output
+      );
+
+      expect(JSON.parse(readFileSync(output, 'utf8')).signatures[1].scheme).toBe('eip712-step');
+      expect((await run('verify', output, '-r', files.registry, '--domain', domain)).code).toBe(0);
+      expect((await run('verify', output, '-r', files.registry)).code).toBe(1);
+    });
+
+    it('should refuse to extend an invalid chain', async () => {
+      const { code, stderr } = await run(
+        'sign', files.tampered, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', files.registry
+      );
+
+      expect(code).toBe(2);
+      expect(stderr).toContain('Refusing to sign an invalid chain');
+    });
+
+    it('should refuse a key that is not registered for the signer', async () => {
+      const { code, stderr } = await run(
+        'sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'manager-charlie', '-r', files.registry
+      );
+
+      expect(code).toBe(2);
+      expect(stderr).toContain('Signing key does not match registry entry for manager-charlie');
+    });
+
+    it('should refuse a revoked key', async () => {
+      const registry = path.join(dir, 'revoked.json');
+      const histories: TimeAwareSignerRegistry = Object.fromEntries(
+        Object.entries(signerRegistry).map(([signerId, address]) => [signerId, { keys: [{ address }] }])
+      );
+      histories['qa-bob'] = {
+        keys: [{ address: signerRegistry['qa-bob'] }],
+        revocations: [{ address: signerRegistry['qa-bob'], reason: 'key compromised', effectiveAt: '2024-01-01T00:00:00.000Z' }]
+      };
+      writeFileSync(registry, JSON.stringify(histories));
+
+      const { code, stderr } = await run('sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', registry);
+
+      expect(code).toBe(2);
+      expect(stderr).toContain('Key of qa-bob has been revoked: key compromised');
+    });
+
+    it('should reject documents without a payload and invalid signing times', async () => {
+      const noPayload = path.join(dir, 'no-payload.json');
+      writeFileSync(noPayload, JSON.stringify({ signatures: [] }));
+
+      expect((await run('sign', noPayload, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', files.registry)).stderr)
+        .toContain('Document has no payload');
+      expect((await run(
+        'sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', files.registry, '--signed-at', 'noon'
+      )).stderr)
+        .toContain('Invalid --signed-at time: noon');
+    });
+
+    it('should require a key, signer ID and registry', async () => {
+      const usage = 'sign requires --key, --signer-id and --registry';
+      expect((await run('sign', files.unsigned, '--signer-id', 'qa-bob', '-r', files.registry)).stderr).toContain(usage);
+      expect((await run('sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'qa-bob')).stderr).toContain(usage);
+      expect((await run(
+        'sign', files.unsigned, '-k', files.bobKey, '--signer-id', 'qa-bob', '-r', files.registry, '--scheme', 'rot13'
+      )).stderr)
+        .toContain('Unknown signature scheme: rot13');
+    });
+  });
+
+  describe('inspect', () => {
+    it('should print each link of the chain', async () => {
+      const { code, stdout } = await run('inspect', files.tampered);
+
+      expect(code).toBe(0);
+      expect(stdout).toContain('Document CONTRACT-XYZ-123');
+      expect(stdout).toContain('#2 manager-charlie');
+      expect(stdout).toContain('❌ expected 0x');
+      expect(stdout).not.toContain('Verified:');
+    });
+
+    it('should include verification results when given a registry', async () => {
+      const { stdout } = await run('inspect', files.valid, '-r', files.registry);
+
+      expect(stdout).toContain('✅ intact');
+      expect(stdout).toContain('Verified:    ✅');
+    });
+  });
+
+  it('should print usage with --help', async () => {
+    const { code, stdout } = await run('--help');
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Usage:');
+  });
+});
@@ -0,0 +1,202 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for verifying, signing and inspecting documents
+ *
+ * Exit codes: 0 on success, 1 when a document fails verification,
+ * 2 on usage or input errors.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { ethers } from 'ethers';
+import { traverse } from './traversal';
+import { DocumentSigner } from './document-signer';
+import { DEFAULT_SIGNATURE_SCHEME, getSignatureScheme } from './signature-schemes';
+import { formatVerificationText, formatVerificationJunit, formatChain } from './report-formatters';
+import { parseStrictJson } from './strict-json';
+import { InMemoryContentLoader } from './content-references';
+import {
+  SignedDocument,
+  ChainStep,
+  AnySignerRegistry,
+  TypedDataDomain
+} from './types';
+
+/**
+ * Streams the CLI writes to
+ */
+export interface CliIo {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+const USAGE = `Usage:
+  secure-signature-traversal verify <doc.json> --registry <registry.json> [--format text|json|junit]
+      [--content <file>]... [--chain-only] [--domain <domain.json>]
+  secure-signature-traversal sign <doc.json> --key <keyfile> --signer-id <id> --registry <registry.json>
+      [--scheme <scheme>] [--signed-at <iso-time>] [--output <file>] [--content <file>]... [--chain-only]
+      [--domain <domain.json>]
+  secure-signature-traversal inspect <doc.json> [--registry <registry.json>] [--domain <domain.json>]
+`;
+
+const OUTPUT_FORMATS = ['text', 'json', 'junit'];
+
+/**
+ * Error in the command line or its input files, reported with exit code 2
+ */
+class UsageError extends Error {}
+
+/**
+ * Runs the CLI
+ * @param argv - Arguments after the executable and script name
+ * @param io - Output streams
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[], io: CliIo = process): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        registry: { type: 'string', short: 'r' },
+        format: { type: 'string', short: 'f', default: 'text' },
+        key: { type: 'string', short: 'k' },
+        'signer-id': { type: 'string' },
+        scheme: { type: 'string', default: DEFAULT_SIGNATURE_SCHEME },
+        'signed-at': { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        content: { type: 'string', short: 'c', multiple: true },
+        'chain-only': { type: 'boolean' },
+        domain: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+
+    const [command, documentPath] = positionals;
+    if (values.help || !command) {
+      io.stdout.write(USAGE);
+      return values.help ? 0 : 2;
+    }
+    if (!documentPath) {
+      throw new UsageError(`Missing document file for ${command}`);
+    }
+
+    const document = readJson<SignedDocument<ChainStep>>(documentPath, 'document');
+    const registry = values.registry ? readJson<AnySignerRegistry>(values.registry, 'registry') : undefined;
+    const typedDataDomain = values.domain ? readJson<TypedDataDomain>(values.domain, 'domain') : undefined;
+
+    switch (command) {
+      case 'verify': {
+        if (!registry) {
+          throw new UsageError('verify requires --registry');
+        }
+        if (!OUTPUT_FORMATS.includes(values.format!)) {
+          throw new UsageError(`Unknown format: ${values.format}`);
+        }
+
+        const result = traverse(document, registry, {
+          contentLoader: readContent(values.content),
+          chainOnly: values['chain-only'],
+          typedDataDomain
+        });
+        if (values.format === 'json') {
+          io.stdout.write(JSON.stringify(result, null, 2) + '\n');
+        } else if (values.format === 'junit') {
+          io.stdout.write(formatVerificationJunit(result, document.payload?.documentId ?? path.basename(documentPath)));
+        } else {
+          io.stdout.write(formatVerificationText(result));
+        }
+        return result.isValid ? 0 : 1;
+      }
+
+      case 'sign': {
+        if (!values.key || !values['signer-id'] || !registry) {
+          throw new UsageError('sign requires --key, --signer-id and --registry');
+        }
+        if (!getSignatureScheme(values.scheme!)) {
+          throw new UsageError(`Unknown signature scheme: ${values.scheme}`);
+        }
+        const signedAt = new Date(values['signed-at'] ?? Date.now());
+        if (Number.isNaN(signedAt.getTime())) {
+          throw new UsageError(`Invalid --signed-at time: ${values['signed-at']}`);
+        }
+
+        // DocumentSigner checks the chain, the registry key and its revocation before signing
+        const privateKey = readFileSync(values.key, 'utf8').trim();
+        const signer = new DocumentSigner(registry, {
+          contentLoader: readContent(values.content),
+          chainOnly: values['chain-only'],
+          typedDataDomain
+        });
+        const signed = await signer.sign(
+          document,
+          values['signer-id'],
+          values.scheme === DEFAULT_SIGNATURE_SCHEME
+            ? new ethers.Wallet(privateKey)
+            : { scheme: values.scheme!, privateKey },
+          signedAt
+        );
+        const json = JSON.stringify(signed, null, 2) + '\n';
+        if (values.output) {
+          writeFileSync(values.output, json);
+        } else {
+          io.stdout.write(json);
+        }
+        return 0;
+      }
+
+      case 'inspect': {
+        io.stdout.write(formatChain(document, registry ? traverse(document, registry, { typedDataDomain }) : undefined));
+        return 0;
+      }
+
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr.write(`Error: ${message}\n`);
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr.write(USAGE);
+    }
+    return 2;
+  }
+}
+
+/**
+ * Reads and parses a JSON input file
+ */
+function readJson<T>(filePath: string, description: string): T {
+  const text = readInput(filePath, description).toString('utf8');
+
+  try {
+    return parseStrictJson(text) as T;
+  } catch (error) {
+    throw new UsageError(`Invalid JSON in ${description} ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Loads the given content files, to be looked up by digest
+ */
+function readContent(files: string[] = []): InMemoryContentLoader {
+  return new InMemoryContentLoader(files.map(file => readInput(file, 'content')));
+}
+
+/**
+ * Reads an input file
+ */
+function readInput(filePath: string, description: string): Buffer {
+  try {
+    return readFileSync(filePath);
+  } catch (error) {
+    throw new UsageError(`Cannot read ${description} ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,126 @@
+import {
+  createContentReference,
+  verifyContent,
+  isContentReference,
+  InMemoryContentLoader
+} from './content-references';
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { traverseAsync } from './async-traversal';
+import { InMemorySignerResolver } from './signer-resolver';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry, ContentReference } from './types';
+
+describe('Content References', () => {
+  const contract = new TextEncoder().encode('%PDF-1.7 purchase agreement, 500 units');
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    const signer = new DocumentSigner(signerRegistry, { contentLoader: new InMemoryContentLoader([contract]) });
+
+    document = signer.createDocument({
+      documentId: 'PO-2025-002',
+      content: createContentReference(contract, 'application/pdf', { uri: 'https://example.com/po-2025-002.pdf' })
+    });
+    document = await signer.sign(document, 'developer-alice', testDataGenerator.getWallet('developer-alice')!);
+    document = await signer.sign(document, 'qa-bob', testDataGenerator.getWallet('qa-bob')!);
+  });
+
+  describe('createContentReference', () => {
+    it('should describe the content by digest, size and media type', () => {
+      const reference = createContentReference(contract, 'application/pdf');
+
+      expect(isContentReference(reference)).toBe(true);
+      expect(reference).toEqual({
+        type: 'content-reference',
+        digest: expect.stringMatching(/^0x[0-9a-f]{64}$/),
+        size: contract.length,
+        mediaType: 'application/pdf'
+      });
+      expect(verifyContent(reference, contract)).toBeUndefined();
+      expect(createContentReference(contract, 'application/pdf', { algorithm: 'sha3-256' }).algorithm).toBe('sha3-256');
+    });
+
+    it('should report size and digest mismatches', () => {
+      const reference = createContentReference(contract, 'application/pdf');
+      const altered = contract.slice();
+      altered[0] ^= 1;
+
+      expect(verifyContent(reference, contract.slice(1))?.message).toContain('Content size mismatch');
+      expect(verifyContent(reference, altered)).toMatchObject({
+        code: 'CONTENT_MISMATCH',
+        details: { expectedHash: reference.digest }
+      });
+    });
+  });
+
+  describe('traverse', () => {
+    it('should verify referenced content against its digest', () => {
+      const result = traverse(document, signerRegistry, { contentLoader: new InMemoryContentLoader([contract]) });
+
+      expect(result.isValid).toBe(true);
+      expect(result.contentVerified).toBe(true);
+    });
+
+    it('should reject content that does not match the reference', () => {
+      const substitute = new TextEncoder().encode('%PDF-1.7 purchase agreement, 900 units');
+      const loader = { load: () => substitute };
+      const result = traverse(document, signerRegistry, { contentLoader: loader });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('CONTENT_MISMATCH');
+      expect(result.signatureResults.every(sigResult => sigResult.isValid)).toBe(true);
+    });
+
+    it('should require the content unless running in chain-only mode', () => {
+      const missing = traverse(document, signerRegistry, { contentLoader: new InMemoryContentLoader() });
+      expect(missing.isValid).toBe(false);
+      expect(missing.errorCode).toBe('CONTENT_UNAVAILABLE');
+      expect(traverse(document, signerRegistry).errorCode).toBe('CONTENT_UNAVAILABLE');
+
+      const chainOnly = traverse(document, signerRegistry, { chainOnly: true });
+      expect(chainOnly.isValid).toBe(true);
+      expect(chainOnly.contentVerified).toBe(false);
+    });
+
+    it('should still break the chain when the reference is altered', () => {
+      const reference = document.payload.content as ContentReference;
+      const altered = { ...document, payload: { ...document.payload, content: { ...reference, size: reference.size + 1 } } };
+
+      expect(traverse(altered, signerRegistry, { chainOnly: true }).signatureResults[0].errorCode).toBe('HASH_MISMATCH');
+    });
+
+    it('should reject content references in legacy documents', () => {
+      const legacy = { ...document, header: {} };
+      const result = traverse(legacy, signerRegistry, { chainOnly: true });
+
+      expect(result.errorCode).toBe('MALFORMED_DOCUMENT');
+      expect(result.error).toBe('Invalid document: payload.content: content references require jcs canonicalization');
+    });
+
+    it('should not accept asynchronous loaders', () => {
+      const result = traverse(document, signerRegistry, { contentLoader: { load: async () => contract } });
+
+      expect(result.errorCode).toBe('CONTENT_UNAVAILABLE');
+      expect(result.error).toContain('use traverseAsync()');
+    });
+  });
+
+  describe('traverseAsync', () => {
+    it('should await asynchronous loaders', async () => {
+      const resolver = new InMemorySignerResolver(signerRegistry);
+
+      const loaded = await traverseAsync(document, resolver, { contentLoader: { load: async () => contract } });
+      expect(loaded.isValid).toBe(true);
+      expect(loaded.contentVerified).toBe(true);
+
+      const failed = await traverseAsync(document, resolver, {
+        contentLoader: { load: async () => { throw new Error('404 Not Found'); } }
+      });
+      expect(failed.errorCode).toBe('CONTENT_UNAVAILABLE');
+      expect(failed.error).toContain('404 Not Found');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { Payload, ContentReference, ContentLoader, HashAlgorithm, TraversalOptions, VerificationError } from './types';
+import { createHasher } from './crypto-utils';
+
+/**
+ * Hash algorithm of content digests that do not name one
+ */
+export const DEFAULT_CONTENT_ALGORITHM: HashAlgorithm = 'sha256';
+
+/**
+ * Outcome of checking a payload's referenced content
+ */
+export interface ContentCheck {
+  /** Whether the content bytes were checked against the reference */
+  verified: boolean;
+  /** Why the content is unacceptable, if it is */
+  error?: VerificationError;
+}
+
+/**
+ * Checks whether payload content is a reference to external content
+ * @param content - The payload content
+ * @returns True for content references, false for inline content
+ */
+export function isContentReference(content: Payload['content']): content is ContentReference {
+  return typeof content === 'object' && content !== null && content.type === 'content-reference';
+}
+
+/**
+ * Creates a reference to content bytes
+ * @param bytes - The content
+ * @param mediaType - Media type of the content, e.g. `application/pdf`
+ * @param options - Digest algorithm and location of the content
+ * @returns The content reference, to be used as `payload.content`
+ */
+export function createContentReference(
+  bytes: Uint8Array,
+  mediaType: string,
+  options: { algorithm?: HashAlgorithm; uri?: string } = {}
+): ContentReference {
+  const reference: ContentReference = {
+    type: 'content-reference',
+    digest: digestContent(bytes, options.algorithm ?? DEFAULT_CONTENT_ALGORITHM),
+    size: bytes.length,
+    mediaType
+  };
+
+  // Defaults are left out so the reference stays as small as the data it must carry
+  if (options.algorithm && options.algorithm !== DEFAULT_CONTENT_ALGORITHM) {
+    reference.algorithm = options.algorithm;
+  }
+  if (options.uri !== undefined) {
+    reference.uri = options.uri;
+  }
+  return reference;
+}
+
+/**
+ * Checks content bytes against their reference
+ * @param reference - The content reference
+ * @param bytes - The loaded content
+ * @returns The mismatch, or undefined if the bytes match
+ */
+export function verifyContent(reference: ContentReference, bytes: Uint8Array): VerificationError | undefined {
+  if (bytes.length !== reference.size) {
+    return {
+      code: 'CONTENT_MISMATCH',
+      message: `Content size mismatch: expected ${reference.size} bytes, got ${bytes.length}`,
+      details: { expectedSize: reference.size, actualSize: bytes.length }
+    };
+  }
+
+  const digest = digestContent(bytes, reference.algorithm ?? DEFAULT_CONTENT_ALGORITHM);
+  if (digest !== reference.digest.toLowerCase()) {
+    return {
+      code: 'CONTENT_MISMATCH',
+      message: `Content digest mismatch: expected ${reference.digest}, got ${digest}`,
+      details: { expectedHash: reference.digest, actualHash: digest }
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Loads and checks the content a payload references
+ * @param payload - The document payload
+ * @param options - Traversal options holding the content loader and chain-only mode
+ * @returns The outcome, or undefined if the payload content is inline
+ */
+export function checkPayloadContent(payload: Payload, options: TraversalOptions): ContentCheck | undefined {
+  const reference = payload.content;
+  if (!isContentReference(reference)) {
+    return undefined;
+  }
+
+  let bytes: ReturnType<ContentLoader['load']>;
+  let loadError: string | undefined;
+  try {
+    bytes = options.contentLoader?.load(reference);
+  } catch (error) {
+    loadError = error instanceof Error ? error.message : String(error);
+  }
+
+  if (bytes instanceof Promise) {
+    bytes.catch(() => undefined);
+    bytes = undefined;
+    loadError = 'content loader is asynchronous, use traverseAsync()';
+  }
+
+  if (bytes === undefined) {
+    if (options.chainOnly) {
+      return { verified: false };
+    }
+    return {
+      verified: false,
+      error: {
+        code: 'CONTENT_UNAVAILABLE',
+        message: `Referenced content ${reference.digest} is not available` + (loadError ? `: ${loadError}` : ''),
+        details: { expectedHash: reference.digest }
+      }
+    };
+  }
+
+  return { verified: true, error: verifyContent(reference, bytes) };
+}
+
+/**
+ * Resolves an asynchronous content loader ahead of a synchronous traversal
+ * @param payload - The document payload
+ * @param loader - The loader, which may return a promise
+ * @returns A synchronous loader serving the payload's referenced content
+ */
+export async function preloadContent(payload: Payload | undefined, loader?: ContentLoader): Promise<ContentLoader | undefined> {
+  const reference = payload?.content;
+  if (!loader || !reference || !isContentReference(reference)) {
+    return loader;
+  }
+
+  try {
+    const bytes = await loader.load(reference);
+    return { load: () => bytes };
+  } catch (error) {
+    return {
+      load: () => {
+        throw error;
+      }
+    };
+  }
+}
+
+/**
+ * Content loader serving content held in memory, looked up by digest
+ */
+export class InMemoryContentLoader implements ContentLoader {
+  private readonly contents = new Map<string, Uint8Array>();
+
+  /**
+   * @param contents - Initial content
+   * @param algorithm - Digest algorithm the content is indexed by
+   */
+  constructor(contents: Uint8Array[] = [], private readonly algorithm: HashAlgorithm = DEFAULT_CONTENT_ALGORITHM) {
+    contents.forEach(bytes => this.add(bytes));
+  }
+
+  /**
+   * Adds content
+   * @param bytes - The content
+   */
+  add(bytes: Uint8Array): void {
+    this.contents.set(digestContent(bytes, this.algorithm), bytes);
+  }
+
+  load(reference: ContentReference): Uint8Array | undefined {
+    if ((reference.algorithm ?? DEFAULT_CONTENT_ALGORITHM) !== this.algorithm) {
+      return undefined;
+    }
+    return this.contents.get(reference.digest.toLowerCase());
+  }
+}
+
+/**
+ * Hashes content bytes
+ */
+function digestContent(bytes: Uint8Array, algorithm: HashAlgorithm): string {
+  return `0x${bytesToHex(createHasher(algorithm).update(bytes).digest())}`;
+}
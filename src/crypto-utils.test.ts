@@ -3,11 +3,16 @@ import {
   createHash,
   serializePayload,
   serializeSignature,
+  serializeStep,
+  serializeChainRoot,
   calculateExpectedHash,
+  calculateCoSignedHash,
+  calculateStepHash,
   verifySignature,
+  recoverSigner,
   signMessage
 } from './crypto-utils';
-import { Payload, Signature } from './types';
+import { CoSignedStep, Payload, Signature } from './types';
 
 describe('Crypto Utilities', () => {
   let testWallet: ethers.Wallet;
@@ -39,6 +44,21 @@ describe('Crypto Utilities', () => {
       
       expect(hash1).not.toBe(hash2);
     });
+
+    it('should default to keccak256 for backward compatibility', () => {
+      expect(createHash('abc')).toBe(ethers.keccak256(ethers.toUtf8Bytes('abc')));
+    });
+
+    it('should compute the requested hash algorithm', () => {
+      expect(createHash('abc', 'sha256')).toBe('0xba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      expect(createHash('abc', 'sha3-256')).toBe('0x3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532');
+      expect(createHash('abc', 'sha512')).toMatch(/^0xddaf35a193617aba[a-f0-9]{112}$/);
+      expect(createHash('abc', 'sha3-512')).toMatch(/^0xb751850b1a57168a[a-f0-9]{112}$/);
+    });
+
+    it('should reject unsupported hash algorithms', () => {
+      expect(() => createHash('abc', 'md5' as any)).toThrow('Unsupported hash algorithm: md5');
+    });
   });
 
   describe('serializePayload', () => {
@@ -71,6 +91,33 @@ describe('Crypto Utilities', () => {
       
       expect(serialized1).toBe(serialized2);
     });
+
+    it('should drop nested properties in legacy mode', () => {
+      const payload: Payload = {
+        documentId: 'test',
+        content: 'content',
+        metadata: { amount: 100 }
+      };
+
+      expect(serializePayload(payload)).toBe('{"content":"content","documentId":"test","metadata":{}}');
+    });
+
+    it('should keep nested properties in jcs mode', () => {
+      const payload: Payload = {
+        documentId: 'test',
+        content: 'content',
+        metadata: { amount: 100, approver: { name: 'Alice' } }
+      };
+
+      expect(serializePayload(payload, 'jcs')).toBe(
+        '{"content":"content","documentId":"test","metadata":{"amount":100,"approver":{"name":"Alice"}}}'
+      );
+    });
+
+    it('should reject unknown canonicalization modes', () => {
+      const payload: Payload = { documentId: 'test', content: 'content' };
+      expect(() => serializePayload(payload, 'xml' as any)).toThrow('Unsupported canonicalization');
+    });
   });
 
   describe('serializeSignature', () => {
@@ -89,7 +136,31 @@ describe('Crypto Utilities', () => {
     });
   });
 
+  describe('co-signed steps', () => {
+    const signature: Signature = { signerId: 'alice', signature: '0x123', signedAt: '2025-01-01T00:00:00Z', signedHash: '0xabc' };
+    const step: CoSignedStep = { type: 'co-signed', threshold: 2, signedHash: '0xabc', signatures: [signature] };
+
+    it('should embed each co-signature as a string', () => {
+      expect(serializeStep(step)).toBe(serializeStep(step, 'legacy'));
+      expect(JSON.parse(serializeStep(step)).signatures).toEqual([serializeSignature(signature)]);
+    });
+
+    it('should bind the threshold into the co-signed hash', () => {
+      const chainHash = createHash('chain');
+
+      expect(calculateCoSignedHash(chainHash, step)).toBe(calculateCoSignedHash(chainHash, step, {}));
+      expect(calculateCoSignedHash(chainHash, step)).not.toBe(calculateCoSignedHash(chainHash, { ...step, threshold: 1 }));
+      expect(calculateStepHash(chainHash, step)).toBe(calculateCoSignedHash(chainHash, step));
+      expect(calculateStepHash(chainHash, signature)).toBe(chainHash);
+    });
+  });
+
   describe('calculateExpectedHash', () => {
+    it('should start the chain from the payload when there is no context', () => {
+      const payload: Payload = { documentId: 'DOC-1', content: 'text' };
+      expect(serializeChainRoot(payload)).toBe(serializePayload(payload));
+    });
+
     it('should calculate hash for payload only when no previous signatures', () => {
       const payload: Payload = {
         documentId: 'test',
@@ -144,6 +215,28 @@ describe('Crypto Utilities', () => {
       
       expect(hash1).not.toBe(hash2);
     });
+
+    it('should use the hash algorithm named in the header', () => {
+      const payload: Payload = { documentId: 'test', content: 'content' };
+
+      expect(calculateExpectedHash(payload, [], { hashAlgorithm: 'sha256' }))
+        .toBe(createHash(serializePayload(payload), 'sha256'));
+    });
+
+    it('should default to legacy serialization without a header', () => {
+      const payload: Payload = { documentId: 'test', content: 'content', metadata: { amount: 1 } };
+
+      expect(calculateExpectedHash(payload, [])).toBe(calculateExpectedHash(payload, [], { canonicalization: 'legacy' }));
+    });
+
+    it('should detect nested payload changes in jcs mode', () => {
+      const original: Payload = { documentId: 'test', content: 'content', metadata: { amount: 100 } };
+      const tampered: Payload = { documentId: 'test', content: 'content', metadata: { amount: 1000 } };
+      const header = { canonicalization: 'jcs' as const };
+
+      expect(calculateExpectedHash(original, [])).toBe(calculateExpectedHash(tampered, []));
+      expect(calculateExpectedHash(original, [], header)).not.toBe(calculateExpectedHash(tampered, [], header));
+    });
   });
 
   describe('signMessage and verifySignature', () => {
@@ -193,5 +286,13 @@ describe('Crypto Utilities', () => {
       const isValid = verifySignature(message, invalidSignature, testWallet.address);
       expect(isValid).toBe(false);
     });
+
+    it('should recover the signer with the default scheme only for known schemes', async () => {
+      const signature = await signMessage('test message', testWallet);
+
+      expect(recoverSigner('test message', signature)).toBe(testWallet.address);
+      expect(recoverSigner('test message', signature, 'rot13')).toBeUndefined();
+      expect(verifySignature('test message', signature, testWallet.address, 'rot13')).toBe(false);
+    });
   });
 });
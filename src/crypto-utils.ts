@@ -1,69 +1,307 @@
 import { ethers } from 'ethers';
-import { Payload, Signature } from './types';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { keccak_256, sha3_256, sha3_512 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes, CHash } from '@noble/hashes/utils';
+import {
+  Payload,
+  Signature,
+  ChainStep,
+  CoSignedStep,
+  RecordStep,
+  WithdrawalStep,
+  AmendmentStep,
+  CanonicalizationMode,
+  DocumentHeader,
+  HashAlgorithm,
+  SigningContext
+} from './types';
+import { canonicalize } from './canonical-json';
+import { getSignatureScheme, DEFAULT_SIGNATURE_SCHEME } from './signature-schemes';
 
 /**
- * Creates a SHA-256 hash of the given data
+ * Canonicalization modes understood by this module
+ */
+export const SUPPORTED_CANONICALIZATIONS: CanonicalizationMode[] = ['legacy', 'jcs'];
+
+const HASH_FUNCTIONS = new Map<HashAlgorithm, CHash>([
+  ['keccak256', keccak_256],
+  ['sha256', sha256],
+  ['sha512', sha512],
+  ['sha3-256', sha3_256],
+  ['sha3-512', sha3_512]
+]);
+
+/**
+ * Hash algorithms understood by this module
+ */
+export const SUPPORTED_HASH_ALGORITHMS: HashAlgorithm[] = [...HASH_FUNCTIONS.keys()];
+
+/**
+ * Hash algorithm used by documents that do not name one
+ */
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = 'keccak256';
+
+/**
+ * Streaming hash state, which can be cloned to digest a prefix without losing it
+ */
+export type IncrementalHash = ReturnType<CHash['create']>;
+
+/**
+ * Creates a streaming hash for the given algorithm
+ * @param algorithm - The hash algorithm (defaults to keccak256)
+ * @returns A fresh hash state
+ */
+export function createHasher(algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): IncrementalHash {
+  const hashFunction = HASH_FUNCTIONS.get(algorithm);
+  if (!hashFunction) {
+    throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+  return hashFunction.create();
+}
+
+/**
+ * Creates a hash of the given data
  * @param data - The data to hash
- * @returns The hash as a hex string
+ * @param algorithm - The hash algorithm (defaults to keccak256)
+ * @returns The hash as a 0x-prefixed hex string
  */
-export function createHash(data: string): string {
-  return ethers.keccak256(ethers.toUtf8Bytes(data));
+export function createHash(data: string, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): string {
+  return `0x${bytesToHex(createHasher(algorithm).update(utf8ToBytes(data)).digest())}`;
+}
+
+/**
+ * Serializes an object with the given canonicalization mode
+ */
+function serializeObject(value: object, mode: CanonicalizationMode): string {
+  switch (mode) {
+    case 'legacy':
+      // Top-level keys only: kept for documents signed before JCS support
+      return JSON.stringify(value, Object.keys(value).sort());
+    case 'jcs':
+      return canonicalize(value);
+    default:
+      throw new Error(`Unsupported canonicalization: ${mode}`);
+  }
 }
 
 /**
  * Serializes the payload to a consistent string format for hashing
  * @param payload - The document payload
+ * @param mode - The canonicalization mode (defaults to legacy)
  * @returns Serialized string representation
  */
-export function serializePayload(payload: Payload): string {
-  // Create a deterministic string representation
-  return JSON.stringify(payload, Object.keys(payload).sort());
+export function serializePayload(payload: Payload, mode: CanonicalizationMode = 'legacy'): string {
+  return serializeObject(payload, mode);
+}
+
+/**
+ * Serializes what a document's hash chain starts from
+ *
+ * Documents with a context in their header hash it ahead of the payload,
+ * binding every signature to that context.
+ *
+ * @param payload - The document payload
+ * @param header - The document header with the canonicalization and context
+ * @returns Serialized string representation
+ */
+export function serializeChainRoot(payload: Payload, header: DocumentHeader = {}): string {
+  const mode = header.canonicalization ?? 'legacy';
+  const context = header.context ? serializeObject(header.context, mode) : '';
+  return context + serializePayload(payload, mode);
 }
 
 /**
  * Serializes a signature block to a consistent string format
+ *
+ * A timestamp token is serialized separately and embedded as a string, so
+ * that the next step's hash covers all of it even in legacy mode.
+ *
  * @param signature - The signature object
+ * @param mode - The canonicalization mode (defaults to legacy)
  * @returns Serialized string representation
  */
-export function serializeSignature(signature: Signature): string {
-  // Create a deterministic string representation
-  const sortedKeys = Object.keys(signature).sort();
-  return JSON.stringify(signature, sortedKeys);
+export function serializeSignature(signature: Signature, mode: CanonicalizationMode = 'legacy'): string {
+  const { timestampToken } = signature;
+  return serializeObject(
+    timestampToken ? { ...signature, timestampToken: serializeObject(timestampToken, mode) } : signature,
+    mode
+  );
+}
+
+/**
+ * Checks whether a chain step is a co-signed step
+ * @param step - The chain step
+ * @returns True for co-signed steps, false for single signatures
+ */
+export function isCoSignedStep(step: ChainStep): step is CoSignedStep {
+  return (step as CoSignedStep).type === 'co-signed';
+}
+
+/**
+ * Checks whether a chain step is a withdrawal record
+ * @param step - The chain step
+ * @returns True for withdrawals
+ */
+export function isWithdrawalStep(step: ChainStep): step is WithdrawalStep {
+  return (step as WithdrawalStep).type === 'withdrawal';
+}
+
+/**
+ * Checks whether a chain step is an amendment record
+ * @param step - The chain step
+ * @returns True for amendments
+ */
+export function isAmendmentStep(step: ChainStep): step is AmendmentStep {
+  return (step as AmendmentStep).type === 'amendment';
+}
+
+/**
+ * Checks whether a chain step is a withdrawal or amendment record
+ * @param step - The chain step
+ * @returns True for records, false for approvals
+ */
+export function isRecordStep(step: ChainStep): step is RecordStep {
+  return isWithdrawalStep(step) || isAmendmentStep(step);
+}
+
+/**
+ * Serializes a chain step to a consistent string format
+ *
+ * Co-signatures and amended payloads are serialized separately and embedded
+ * as strings, so that every nested field is covered even in legacy mode,
+ * where nested objects are not canonicalized.
+ *
+ * @param step - A signature or co-signed step
+ * @param mode - The canonicalization mode (defaults to legacy)
+ * @returns Serialized string representation
+ */
+export function serializeStep(step: ChainStep, mode: CanonicalizationMode = 'legacy'): string {
+  if (isAmendmentStep(step)) {
+    return serializeObject({ ...step, payload: serializePayload(step.payload, mode) }, mode);
+  }
+  if (!isCoSignedStep(step)) {
+    return serializeSignature(step, mode);
+  }
+  return serializeObject({
+    ...step,
+    signatures: step.signatures.map(signature => serializeSignature(signature, mode))
+  }, mode);
 }
 
 /**
  * Calculates the hash that should have been signed at a given step in the chain
  * @param payload - The original document payload
- * @param previousSignatures - All signatures that came before this one
+ * @param previousSignatures - All chain steps that came before this one
+ * @param header - The document header selecting the serialization format and hash algorithm
  * @returns The hash that should be signed
  */
-export function calculateExpectedHash(payload: Payload, previousSignatures: Signature[]): string {
-  let dataToHash = serializePayload(payload);
+export function calculateExpectedHash(
+  payload: Payload,
+  previousSignatures: ChainStep[],
+  header: DocumentHeader = {}
+): string {
+  const mode = header.canonicalization ?? 'legacy';
+  let dataToHash = serializeChainRoot(payload, header);
   
-  // Add each previous signature to the hash chain
-  for (const sig of previousSignatures) {
-    dataToHash += serializeSignature(sig);
+  // Add each previous step to the hash chain
+  for (const step of previousSignatures) {
+    dataToHash += serializeStep(step, mode);
   }
   
-  return createHash(dataToHash);
+  return createHash(dataToHash, header.hashAlgorithm);
+}
+
+/**
+ * Calculates the hash a withdrawal or amendment record must sign
+ *
+ * Unlike an approval, a record signs its own fields too: the hash covers the
+ * chain before the record and every field of the record except the
+ * signature, the signed hash and the timestamp token of the signature.
+ *
+ * @param chainHash - The hash of everything before the record in the chain
+ * @param record - The record
+ * @param header - The document header selecting the serialization format and hash algorithm
+ * @returns The hash the record's signer signs
+ */
+export function calculateRecordHash(chainHash: string, record: RecordStep, header: DocumentHeader = {}): string {
+  const { signature, signedHash, timestampToken, ...fields } = record;
+  return createHash(chainHash + serializeStep(fields as RecordStep, header.canonicalization ?? 'legacy'), header.hashAlgorithm);
+}
+
+/**
+ * Calculates the hash the co-signers of a co-signed step sign
+ *
+ * The hash covers the chain before the step and the step's type and
+ * threshold, so that the threshold cannot be lowered after signing, even on
+ * the last step of the chain.
+ *
+ * @param chainHash - The hash of everything before the step in the chain
+ * @param step - The co-signed step, or just its type and threshold
+ * @param header - The document header selecting the serialization format and hash algorithm
+ * @returns The hash every co-signer signs
+ */
+export function calculateCoSignedHash(
+  chainHash: string,
+  step: Pick<CoSignedStep, 'type' | 'threshold'>,
+  header: DocumentHeader = {}
+): string {
+  const fields = { type: step.type, threshold: step.threshold };
+  return createHash(chainHash + serializeObject(fields, header.canonicalization ?? 'legacy'), header.hashAlgorithm);
+}
+
+/**
+ * Calculates the hash a chain step must sign
+ * @param chainHash - The hash of everything before the step in the chain
+ * @param step - The chain step
+ * @param header - The document header selecting the serialization format and hash algorithm
+ * @returns The record or co-signed step hash for those steps, otherwise the chain hash
+ */
+export function calculateStepHash(chainHash: string, step: ChainStep, header: DocumentHeader = {}): string {
+  if (isRecordStep(step)) {
+    return calculateRecordHash(chainHash, step, header);
+  }
+  return isCoSignedStep(step) ? calculateCoSignedHash(chainHash, step, header) : chainHash;
 }
 
 /**
  * Verifies that a signature was created by the expected signer
  * @param message - The original message that was signed
  * @param signature - The signature to verify
- * @param expectedAddress - The expected signer's address
+ * @param expectedAddress - The expected signer's address, or public key for non-Ethereum schemes
+ * @param scheme - The signature scheme (defaults to EIP-191 personal_sign)
+ * @param context - Document, position and signer of the step, for schemes that sign them
  * @returns True if the signature is valid
  */
-export function verifySignature(message: string, signature: string, expectedAddress: string): boolean {
-  try {
-    const messageBytes = ethers.toUtf8Bytes(message);
-    const messageHash = ethers.hashMessage(messageBytes);
-    const recoveredAddress = ethers.recoverAddress(messageHash, signature);
-    return recoveredAddress.toLowerCase() === expectedAddress.toLowerCase();
-  } catch (error) {
+export function verifySignature(
+  message: string,
+  signature: string,
+  expectedAddress: string,
+  scheme: string = DEFAULT_SIGNATURE_SCHEME,
+  context?: SigningContext
+): boolean {
+  const signatureScheme = getSignatureScheme(scheme);
+  if (!signatureScheme) {
     return false;
   }
+  return signatureScheme.verify(message, signature, expectedAddress, context);
+}
+
+/**
+ * Recovers the address that produced a signature
+ * @param message - The message that was signed
+ * @param signature - The signature
+ * @param scheme - The signature scheme (defaults to `eip191`)
+ * @param context - Document, position and signer of the step, for schemes that sign them
+ * @returns The recovered address, or undefined if the scheme does not support recovery
+ * @throws If the signature is malformed
+ */
+export function recoverSigner(
+  message: string,
+  signature: string,
+  scheme: string = DEFAULT_SIGNATURE_SCHEME,
+  context?: SigningContext
+): string | undefined {
+  return getSignatureScheme(scheme)?.recover?.(message, signature, context);
 }
 
 /**
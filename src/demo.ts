@@ -54,7 +54,7 @@ async function runDemo() {
     
     console.log('📄 Document Structure:');
     console.log(`   Document ID: ${validDocument.payload.documentId}`);
-    console.log(`   Content: "${validDocument.payload.content.substring(0, 50)}..."`);
+    console.log(`   Content: "${String(validDocument.payload.content).substring(0, 50)}..."`);
     console.log(`   Signatures: ${validDocument.signatures.length}`);
     
     const validResult = traverse(validDocument, signerRegistry);
@@ -0,0 +1,193 @@
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { testDataGenerator } from './test-data-generator';
+import { Payload, SignerRegistry, CoSignedStep, SignedDocument, TimeAwareSignerRegistry } from './types';
+
+describe('DocumentSigner', () => {
+  let signerRegistry: SignerRegistry;
+  let signer: DocumentSigner;
+
+  const payload: Payload = {
+    documentId: 'PO-2025-001',
+    content: 'Purchase order for 500 units',
+    metadata: { department: 'procurement' }
+  };
+
+  beforeAll(() => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    signer = new DocumentSigner(signerRegistry);
+  });
+
+  describe('createDocument', () => {
+    it('should create a document with an empty chain', () => {
+      const document = signer.createDocument(payload);
+
+      expect(document.payload).toEqual(payload);
+      expect(document.signatures).toHaveLength(0);
+    });
+
+    it('should use jcs canonicalization by default', () => {
+      expect(signer.createDocument(payload).header).toEqual({ canonicalization: 'jcs' });
+      expect(signer.createDocument(payload, {}).header).toEqual({});
+    });
+
+    it('should not share the payload object with the caller', () => {
+      const document = signer.createDocument(payload);
+      expect(document.payload).not.toBe(payload);
+    });
+
+    it('should reject a missing payload', () => {
+      expect(() => signer.createDocument(null as any)).toThrow('without a payload');
+    });
+  });
+
+  describe('sign', () => {
+    it('should build a chain that passes traversal', async () => {
+      let document = signer.createDocument(payload);
+      document = await signer.sign(document, 'developer-alice', testDataGenerator.getWallet('developer-alice')!);
+      document = await signer.sign(document, 'qa-bob', testDataGenerator.getWallet('qa-bob')!);
+
+      const result = traverse(document, signerRegistry);
+      expect(result.isValid).toBe(true);
+      expect(result.signatureResults.map(r => r.signerId)).toEqual(['developer-alice', 'qa-bob']);
+    });
+
+    it('should not modify the input document', async () => {
+      const document = signer.createDocument(payload);
+      const signed = await signer.sign(document, 'developer-alice', testDataGenerator.getWallet('developer-alice')!);
+
+      expect(document.signatures).toHaveLength(0);
+      expect(signed.signatures).toHaveLength(1);
+    });
+
+    it('should record the given signing time', async () => {
+      const signedAt = new Date('2025-03-01T12:00:00Z');
+      const document = await signer.sign(
+        signer.createDocument(payload),
+        'developer-alice',
+        testDataGenerator.getWallet('developer-alice')!,
+        signedAt
+      );
+
+      expect(document.signatures[0].signedAt).toBe('2025-03-01T12:00:00.000Z');
+    });
+
+    it('should protect nested payload fields', async () => {
+      const document = await signer.sign(
+        signer.createDocument({ ...payload, metadata: { department: 'procurement' } }),
+        'developer-alice',
+        testDataGenerator.getWallet('developer-alice')!
+      );
+      document.payload.metadata.department = 'marketing';
+
+      expect(traverse(document, signerRegistry).isValid).toBe(false);
+    });
+
+    it('should refuse to extend a tampered chain', async () => {
+      const document = await signer.sign(
+        signer.createDocument(payload),
+        'developer-alice',
+        testDataGenerator.getWallet('developer-alice')!
+      );
+      document.payload.content = 'Purchase order for 5000 units';
+
+      await expect(
+        signer.sign(document, 'qa-bob', testDataGenerator.getWallet('qa-bob')!)
+      ).rejects.toThrow('Refusing to sign an invalid chain');
+    });
+
+    it('should refuse unknown signers', async () => {
+      await expect(
+        signer.sign(signer.createDocument(payload), 'mallory', testDataGenerator.getWallet('qa-bob')!)
+      ).rejects.toThrow('not found in registry');
+    });
+
+    it('should refuse a wallet that does not match the registry', async () => {
+      await expect(
+        signer.sign(signer.createDocument(payload), 'qa-bob', testDataGenerator.getWallet('developer-alice')!)
+      ).rejects.toThrow('does not match registry entry');
+    });
+
+    it('should refuse documents without a payload', async () => {
+      const bob = testDataGenerator.getWallet('qa-bob')!;
+      const empty = { signatures: [] } as unknown as SignedDocument;
+
+      await expect(signer.sign(empty, 'qa-bob', bob)).rejects.toThrow('Document has no payload');
+      expect(() => signer.openCoSignedStep(empty, 1)).toThrow('Document has no payload');
+      await expect(signer.coSign(empty, 'qa-bob', bob)).rejects.toThrow('Document has no payload');
+      await expect(signer.amend(empty, 'qa-bob', bob, empty.payload)).rejects.toThrow('Document has no payload');
+    });
+
+    it('should start a chain for documents without a signature list', async () => {
+      const bare = { payload } as SignedDocument;
+      const document = await signer.sign(bare, 'qa-bob', testDataGenerator.getWallet('qa-bob')!);
+
+      expect(traverse(document, signerRegistry).isValid).toBe(true);
+      expect(signer.openCoSignedStep(bare, 1).signatures).toHaveLength(1);
+      await expect(signer.coSign(bare, 'qa-bob', testDataGenerator.getWallet('qa-bob')!))
+        .rejects.toThrow('does not end with a co-signed step');
+    });
+
+    it('should refuse unknown schemes and revoked keys', async () => {
+      const alice = testDataGenerator.getWallet('developer-alice')!;
+      await expect(signer.sign(signer.createDocument(payload), 'developer-alice', { scheme: 'rot13', privateKey: alice.privateKey }))
+        .rejects.toThrow('Unknown signature scheme: rot13');
+
+      const revoked: TimeAwareSignerRegistry = {
+        'developer-alice': {
+          keys: [{ address: alice.address }],
+          revocations: [{ address: alice.address, reason: 'key compromise', effectiveAt: '2025-01-01T00:00:00.000Z' }]
+        }
+      };
+      const revokedSigner = new DocumentSigner(revoked);
+      await expect(revokedSigner.sign(revokedSigner.createDocument(payload), 'developer-alice', alice))
+        .rejects.toThrow('Key of developer-alice has been revoked: key compromise');
+    });
+  });
+
+  describe('co-signing', () => {
+    const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+
+    it('should collect co-signatures into a step that passes traversal', async () => {
+      let document = await signer.sign(signer.createDocument(payload), 'developer-alice', wallet('developer-alice'));
+      let coSigned = signer.openCoSignedStep(document, 2);
+
+      // Below the threshold the chain cannot be extended yet
+      coSigned = await signer.coSign(coSigned, 'manager-charlie', wallet('manager-charlie'));
+      expect(traverse(coSigned, signerRegistry).errorCode).toBe('THRESHOLD_NOT_MET');
+      await expect(signer.sign(coSigned, 'developer-alice', wallet('developer-alice')))
+        .rejects.toThrow('Refusing to sign an invalid chain');
+
+      coSigned = await signer.coSign(coSigned, 'qa-bob', wallet('qa-bob'));
+      const completed = await signer.sign(coSigned, 'developer-alice', wallet('developer-alice'));
+      const result = traverse(completed, signerRegistry);
+
+      expect(result.isValid).toBe(true);
+      expect((completed.signatures[1] as CoSignedStep).signatures.map(s => s.signerId)).toEqual(['manager-charlie', 'qa-bob']);
+      expect(result.signatureResults[1].signerId).toBe('manager-charlie + qa-bob');
+    });
+
+    it('should refuse duplicate co-signers and documents without an open step', async () => {
+      const opened = signer.openCoSignedStep(signer.createDocument(payload), 1);
+      const coSigned = await signer.coSign(opened, 'qa-bob', wallet('qa-bob'));
+
+      await expect(signer.coSign(coSigned, 'qa-bob', wallet('qa-bob'))).rejects.toThrow('already co-signed');
+      await expect(signer.coSign(signer.createDocument(payload), 'qa-bob', wallet('qa-bob')))
+        .rejects.toThrow('does not end with a co-signed step');
+      expect(() => signer.openCoSignedStep(signer.createDocument(payload), 0)).toThrow('Invalid co-signing threshold');
+    });
+
+    it('should refuse a co-signed step that does not fit the chain', async () => {
+      const opened = signer.openCoSignedStep(signer.createDocument(payload), 2);
+      const lowered = { ...opened, signatures: [{ ...opened.signatures[0] as CoSignedStep, threshold: 1 }] };
+
+      await expect(signer.coSign(lowered, 'qa-bob', wallet('qa-bob'))).rejects.toThrow('Co-signed step does not fit the chain');
+    });
+
+    it('should refuse a co-signer that does not match the registry', async () => {
+      const opened = signer.openCoSignedStep(signer.createDocument(payload), 1);
+
+      await expect(signer.coSign(opened, 'qa-bob', wallet('developer-alice'))).rejects.toThrow('does not match registry entry');
+    });
+  });
+});
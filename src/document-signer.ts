@@ -0,0 +1,375 @@
+import { ethers } from 'ethers';
+import {
+  SignedDocument,
+  Payload,
+  Signature,
+  ChainStep,
+  CoSignedStep,
+  WithdrawalStep,
+  AmendmentStep,
+  RecordStep,
+  AnySignerRegistry,
+  DocumentHeader,
+  SchemePrivateKey,
+  TraversalOptions,
+  ChainContext
+} from './types';
+import { calculateExpectedHash, calculateRecordHash, calculateCoSignedHash, signMessage, isCoSignedStep } from './crypto-utils';
+import { traverse } from './traversal';
+import { checkWithdrawal } from './chain-records';
+import { resolveSignerKeys, sameKey } from './key-registry';
+import { getSignatureScheme, DEFAULT_SIGNATURE_SCHEME } from './signature-schemes';
+import { TimestampAuthority, timestampSignature } from './timestamp-tokens';
+
+/**
+ * Production API for building signature chains
+ *
+ * Every signer extends the chain through this class. Before a new signature
+ * is appended, the existing chain is verified with `traverse()`, so nobody
+ * signs on top of a broken or tampered document.
+ */
+export class DocumentSigner {
+  /**
+   * @param signerRegistry - Mapping of signer IDs to their public addresses,
+   *   or a time-aware registry
+   * @param traversalOptions - Options for verifying the chain before signing,
+   *   e.g. the loader of referenced content
+   * @param timestampAuthority - Authority that timestamps every new signature
+   */
+  constructor(
+    private readonly signerRegistry: AnySignerRegistry,
+    private readonly traversalOptions: TraversalOptions = {},
+    private readonly timestampAuthority?: TimestampAuthority
+  ) {}
+
+  /**
+   * Creates a new, unsigned document from a payload
+   *
+   * New documents use JCS canonicalization unless a header says otherwise.
+   *
+   * @param payload - The document payload
+   * @param header - Format markers for the new document
+   * @returns A signed document with an empty signature chain
+   */
+  createDocument(payload: Payload, header: DocumentHeader = { canonicalization: 'jcs' }): SignedDocument {
+    if (!payload) {
+      throw new Error('Cannot create a document without a payload');
+    }
+
+    return {
+      header: { ...header },
+      payload: { ...payload },
+      signatures: []
+    };
+  }
+
+  /**
+   * Appends a signature to the document's chain
+   *
+   * The document passed in is not modified; a new document containing the
+   * extended chain is returned.
+   *
+   * @param document - The document to sign
+   * @param signerId - The ID of the signer, as known to the registry
+   * @param signer - The signer's wallet (EIP-191), or a private key for another scheme
+   * @param signedAt - Time of signing (defaults to now)
+   * @returns The document with the new signature appended
+   */
+  async sign<Step extends ChainStep>(
+    document: SignedDocument<Step>,
+    signerId: string,
+    signer: ethers.Wallet | SchemePrivateKey,
+    signedAt: Date = new Date()
+  ): Promise<SignedDocument<Step | Signature>> {
+    if (!document?.payload) {
+      throw new Error('Document has no payload');
+    }
+
+    const existingSignatures = document.signatures ?? [];
+    this.verifyChain(document);
+
+    const expectedHash = calculateExpectedHash(document.payload, existingSignatures, document.header);
+    const signatureObj = await this.signHash(
+      expectedHash, signerId, signer, signedAt, this.chainContext(document, existingSignatures.length)
+    );
+
+    return {
+      ...document,
+      signatures: [...existingSignatures, signatureObj]
+    };
+  }
+
+  /**
+   * Appends an empty co-signed step to the document's chain
+   *
+   * Co-signers then add their signatures with `coSign()`; the step is valid
+   * once `threshold` of them have signed.
+   *
+   * @param document - The document to extend
+   * @param threshold - Number of co-signatures the step requires
+   * @returns The document with the open co-signed step appended
+   */
+  openCoSignedStep<Step extends ChainStep>(
+    document: SignedDocument<Step>,
+    threshold: number
+  ): SignedDocument<Step | CoSignedStep> {
+    if (!document?.payload) {
+      throw new Error('Document has no payload');
+    }
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      throw new Error(`Invalid co-signing threshold: ${threshold}`);
+    }
+
+    const existingSignatures = document.signatures ?? [];
+    this.verifyChain(document);
+
+    const chainHash = calculateExpectedHash(document.payload, existingSignatures, document.header);
+    const step: CoSignedStep = {
+      type: 'co-signed',
+      threshold,
+      signedHash: calculateCoSignedHash(chainHash, { type: 'co-signed', threshold }, document.header),
+      signatures: []
+    };
+
+    return {
+      ...document,
+      signatures: [...existingSignatures, step]
+    };
+  }
+
+  /**
+   * Adds a co-signature to the co-signed step at the end of the chain
+   *
+   * Co-signers sign independently of each other, so the step can collect
+   * its signatures in any order, and beyond its threshold.
+   *
+   * @param document - The document whose last step is a co-signed step
+   * @param signerId - The ID of the co-signer, as known to the registry
+   * @param signer - The co-signer's wallet (EIP-191), or a private key for another scheme
+   * @param signedAt - Time of signing (defaults to now)
+   * @returns The document with the co-signature added to its last step
+   */
+  async coSign<Step extends ChainStep>(
+    document: SignedDocument<Step>,
+    signerId: string,
+    signer: ethers.Wallet | SchemePrivateKey,
+    signedAt: Date = new Date()
+  ): Promise<SignedDocument<Step | CoSignedStep>> {
+    if (!document?.payload) {
+      throw new Error('Document has no payload');
+    }
+
+    const steps = document.signatures ?? [];
+    const step = steps[steps.length - 1];
+    if (!step || !isCoSignedStep(step)) {
+      throw new Error('Document does not end with a co-signed step');
+    }
+    if (step.signatures.some(signature => signature.signerId === signerId)) {
+      throw new Error(`${signerId} has already co-signed this step`);
+    }
+
+    // The chain the step builds on must verify, and the step must fit it
+    const previous = steps.slice(0, -1);
+    this.verifyChain({ ...document, signatures: previous });
+    const chainHash = calculateExpectedHash(document.payload, previous, document.header);
+    const expectedHash = calculateCoSignedHash(chainHash, step, document.header);
+    if (step.signedHash !== expectedHash) {
+      throw new Error(`Co-signed step does not fit the chain: expected ${expectedHash}, got ${step.signedHash}`);
+    }
+
+    const signature = await this.signHash(
+      expectedHash, signerId, signer, signedAt, this.chainContext(document, previous.length)
+    );
+
+    return {
+      ...document,
+      signatures: [...previous, { ...step, signatures: [...step.signatures, signature] }]
+    };
+  }
+
+  /**
+   * Appends a signed record withdrawing an earlier approval
+   *
+   * The withdrawn step stays in the chain; verification reports it as
+   * withdrawn in the document's effective state.
+   *
+   * @param document - The document to extend
+   * @param signerId - The ID of the signer withdrawing their approval
+   * @param signer - The signer's wallet (EIP-191), or a private key for another scheme
+   * @param withdraws - Position of the withdrawn step in the chain
+   * @param reason - Why the approval is withdrawn
+   * @param signedAt - Time of signing (defaults to now)
+   * @returns The document with the withdrawal appended
+   */
+  async withdraw<Step extends ChainStep>(
+    document: SignedDocument<Step>,
+    signerId: string,
+    signer: ethers.Wallet | SchemePrivateKey,
+    withdraws: number,
+    reason?: string,
+    signedAt: Date = new Date()
+  ): Promise<SignedDocument<Step | WithdrawalStep>> {
+    const fields: Omit<WithdrawalStep, 'signature' | 'signedHash'> = {
+      type: 'withdrawal',
+      signerId,
+      withdraws,
+      signedAt: signedAt.toISOString()
+    };
+    if (reason !== undefined) {
+      fields.reason = reason;
+    }
+
+    const existingSignatures: ChainStep[] = document?.signatures ?? [];
+    const error = checkWithdrawal([...existingSignatures, fields as WithdrawalStep], existingSignatures.length);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return this.signRecord(document, fields, signer, signedAt);
+  }
+
+  /**
+   * Appends a signed record amending the payload
+   *
+   * Approvals before the amendment keep applying to the version they signed;
+   * signers approve the amended payload by signing after the amendment.
+   *
+   * @param document - The document to extend
+   * @param signerId - The ID of the signer making the amendment
+   * @param signer - The signer's wallet (EIP-191), or a private key for another scheme
+   * @param payload - The amended payload, with the same document ID
+   * @param reason - Why the payload is amended
+   * @param signedAt - Time of signing (defaults to now)
+   * @returns The document with the amendment appended
+   */
+  async amend<Step extends ChainStep>(
+    document: SignedDocument<Step>,
+    signerId: string,
+    signer: ethers.Wallet | SchemePrivateKey,
+    payload: Payload,
+    reason?: string,
+    signedAt: Date = new Date()
+  ): Promise<SignedDocument<Step | AmendmentStep>> {
+    if (payload?.documentId !== document?.payload?.documentId) {
+      throw new Error(`Amended payload must keep document ID ${document?.payload?.documentId}`);
+    }
+
+    const fields: Omit<AmendmentStep, 'signature' | 'signedHash'> = {
+      type: 'amendment',
+      signerId,
+      payload: { ...payload },
+      signedAt: signedAt.toISOString()
+    };
+    if (reason !== undefined) {
+      fields.reason = reason;
+    }
+
+    return this.signRecord(document, fields, signer, signedAt);
+  }
+
+  /**
+   * Signs a withdrawal or amendment record and appends it to the chain
+   */
+  private async signRecord<Step extends ChainStep, NewStep extends RecordStep>(
+    document: SignedDocument<Step>,
+    fields: Omit<NewStep, 'signature' | 'signedHash'>,
+    signer: ethers.Wallet | SchemePrivateKey,
+    signedAt: Date
+  ): Promise<SignedDocument<Step | NewStep>> {
+    if (!document?.payload) {
+      throw new Error('Document has no payload');
+    }
+
+    const existingSignatures = document.signatures ?? [];
+    this.verifyChain(document);
+
+    // The record hash covers the scheme, so it must be known before signing
+    const schemeId = signer instanceof ethers.Wallet ? DEFAULT_SIGNATURE_SCHEME : signer.scheme;
+    const record = { ...fields, ...(schemeId !== DEFAULT_SIGNATURE_SCHEME && { scheme: schemeId }) } as NewStep;
+    const chainHash = calculateExpectedHash(document.payload, existingSignatures, document.header);
+    const hash = calculateRecordHash(chainHash, record, document.header);
+    const signature = await this.signHash(
+      hash, record.signerId, signer, signedAt, this.chainContext(document, existingSignatures.length)
+    );
+
+    return {
+      ...document,
+      signatures: [...existingSignatures, { ...record, ...signature }]
+    };
+  }
+
+  /**
+   * Describes the step at a position of a document's chain, for typed-data schemes
+   */
+  private chainContext(document: SignedDocument<ChainStep>, index: number): ChainContext {
+    return {
+      documentId: document.payload.documentId,
+      payloadHash: calculateExpectedHash(document.payload, [], document.header),
+      index,
+      domain: this.traversalOptions.typedDataDomain
+    };
+  }
+
+  /**
+   * Refuses to extend a chain that does not verify
+   */
+  private verifyChain(document: SignedDocument<ChainStep>): void {
+    if ((document.signatures ?? []).length > 0) {
+      const verification = traverse(document, this.signerRegistry, this.traversalOptions);
+      if (!verification.isValid) {
+        throw new Error(`Refusing to sign an invalid chain: ${verification.error}`);
+      }
+    }
+  }
+
+  /**
+   * Signs a chain hash after checking the signer's key against the registry
+   */
+  private async signHash(
+    hash: string,
+    signerId: string,
+    signer: ethers.Wallet | SchemePrivateKey,
+    signedAt: Date,
+    context: ChainContext
+  ): Promise<Signature> {
+    const schemeId = signer instanceof ethers.Wallet ? DEFAULT_SIGNATURE_SCHEME : signer.scheme;
+    const scheme = getSignatureScheme(schemeId);
+    if (!scheme) {
+      throw new Error(`Unknown signature scheme: ${schemeId}`);
+    }
+
+    const publicKey = signer instanceof ethers.Wallet ? signer.address : scheme.getPublicKey(signer.privateKey);
+
+    const keys = resolveSignerKeys(this.signerRegistry, signerId, signedAt.toISOString());
+    if (!keys.found) {
+      throw new Error(keys.error);
+    }
+
+    const signingKey = keys.candidates.find(key =>
+      (key.scheme === undefined || key.scheme === schemeId) && sameKey(key.publicKey, publicKey)
+    );
+    if (!signingKey) {
+      throw new Error(`Signing key does not match registry entry for ${signerId}`);
+    }
+
+    if (signingKey.revocation) {
+      throw new Error(`Key of ${signerId} has been revoked: ${signingKey.revocation.reason}`);
+    }
+
+    const signatureObj: Signature = {
+      signerId,
+      signature: signer instanceof ethers.Wallet
+        ? await signMessage(hash, signer)
+        : await scheme.sign(hash, signer.privateKey, { ...context, signerId, signedAt: signedAt.toISOString() }),
+      signedAt: signedAt.toISOString(),
+      signedHash: hash
+    };
+
+    // EIP-191 signatures omit the scheme so their shape matches older chains
+    if (schemeId !== DEFAULT_SIGNATURE_SCHEME) {
+      signatureObj.scheme = schemeId;
+    }
+
+    return this.timestampAuthority ? timestampSignature(signatureObj, this.timestampAuthority) : signatureObj;
+  }
+}
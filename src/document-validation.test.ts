@@ -0,0 +1,274 @@
+import { parseSignedDocument, validateSignedDocument, DocumentValidationError } from './document-validation';
+import { parseStrictJson, JsonParseError } from './strict-json';
+import { traverse } from './traversal';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry } from './types';
+
+describe('Document Validation', () => {
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    document = await testDataGenerator.generateValidDocument();
+  });
+
+  function issuesOf(value: unknown, options = {}): string[] {
+    return validateSignedDocument(value, options).map(issue => `${issue.path}: ${issue.message}`);
+  }
+
+  describe('parseStrictJson', () => {
+    it('should parse what JSON.parse parses', () => {
+      const text = '{"a":[1,-2.5e3,"x\\u0041\\n",true,false,null],"b":{}}';
+      expect(parseStrictJson(text)).toEqual(JSON.parse(text));
+    });
+
+    it('should reject duplicate keys with their path', () => {
+      expect(() => parseStrictJson('{"payload":{"items":[{"id":1,"id":2}]}}'))
+        .toThrow('payload.items[0].id: Duplicate key');
+    });
+
+    it('should reject __proto__ keys', () => {
+      expect(() => parseStrictJson('{"payload":{"__proto__":{"isAdmin":true}}}'))
+        .toThrow('payload.__proto__: __proto__ keys are not allowed');
+    });
+
+    it('should enforce depth and size limits', () => {
+      expect(() => parseStrictJson('[[[1]]]', { maxDepth: 2 })).toThrow('[0][0]: Nesting exceeds 2 levels');
+      expect(() => parseStrictJson('"abcdef"', { maxBytes: 4 })).toThrow(JsonParseError);
+    });
+
+    it('should reject malformed JSON', () => {
+      for (const text of ['', '{', '{"a":1,}', '[1 2]', '"\\x"', '01', '{"a":1} x', 'nul']) {
+        expect(() => parseStrictJson(text)).toThrow(JsonParseError);
+      }
+    });
+  });
+
+  describe('validateSignedDocument', () => {
+    it('should accept a valid document', () => {
+      expect(issuesOf(document)).toEqual([]);
+    });
+
+    it('should report every problem with its path', () => {
+      expect(issuesOf({
+        header: { hashAlgorithm: 256 },
+        payload: { documentId: 7 },
+        signatures: [{ ...document.signatures[0], signedHash: ['0x1'] }, 'signature']
+      })).toEqual([
+        'header.hashAlgorithm: must be a string',
+        'payload.documentId: must be a string',
+        'payload.content: is required',
+        'signatures[0].signedHash: must be a string',
+        'signatures[1]: must be an object'
+      ]);
+    });
+
+    it('should reject values that are not plain JSON data', () => {
+      const payload = Object.defineProperty(
+        { ...document.payload, when: new Date(0), count: NaN, run: () => 1 },
+        '__proto__',
+        { value: { isAdmin: true }, enumerable: true }
+      );
+
+      expect(issuesOf({ ...document, payload })).toEqual([
+        'payload.__proto__: is not allowed',
+        'payload.when: must be a plain object',
+        'payload.count: must be a finite number',
+        'payload.run: must be a JSON value, not function'
+      ]);
+    });
+
+    it('should check the shape of co-signed steps', () => {
+      const cosignature = document.signatures[0];
+
+      expect(issuesOf({ ...document, signatures: [{ type: 'co-signed', threshold: 1, signedHash: '0x1', signatures: [cosignature] }] }))
+        .toEqual([]);
+      expect(issuesOf({
+        ...document,
+        signatures: [
+          { type: 'co-signed', threshold: 0, signatures: [{ ...cosignature, signerId: 1 }] },
+          { type: 'multi', signatures: [] }
+        ]
+      })).toEqual([
+        'signatures[0].threshold: must be a positive integer',
+        'signatures[0].signedHash: is required',
+        'signatures[0].signatures[0].signerId: must be a string',
+        'signatures[1].type: must be "co-signed", "withdrawal" or "amendment"'
+      ]);
+    });
+
+    it('should check the shape of the document, header and payload', () => {
+      expect(issuesOf('document')).toEqual([': must be an object']);
+      expect(issuesOf({ header: 'jcs', payload: 'PO-1', signatures: {} })).toEqual([
+        'header: must be an object',
+        'payload: must be an object',
+        'signatures: must be an array'
+      ]);
+      expect(issuesOf({ header: { context: 'production' } })).toEqual([
+        'header.context: must be an object',
+        'payload: is required',
+        'signatures: is required'
+      ]);
+      expect(issuesOf({ ...document, payload: { documentId: 'PO-1', content: 5, flag: true, note: null, skipped: undefined } }))
+        .toEqual(['payload.content: must be a string, a content reference or encrypted content']);
+    });
+
+    it('should check content references', () => {
+      const header = { canonicalization: 'jcs' };
+      const reference = { type: 'content-reference', digest: '0xab', size: 2, mediaType: 'text/plain' };
+      const withContent = (content: unknown, documentHeader: object = header) =>
+        issuesOf({ ...document, header: documentHeader, payload: { documentId: 'PO-1', content } });
+
+      expect(withContent(reference)).toEqual([]);
+      expect(withContent(reference, {})).toEqual(['payload.content: content references require jcs canonicalization']);
+      expect(withContent({ ...reference, type: 'link' })).toEqual(['payload.content.type: must be "content-reference" or "encrypted"']);
+      expect(withContent({ type: 'content-reference', digest: 'ab', algorithm: 'md5', size: -1, uri: 5 })).toEqual([
+        'payload.content.digest: must be a 0x-prefixed hex string',
+        'payload.content.algorithm: must be one of keccak256, sha256, sha512, sha3-256, sha3-512',
+        'payload.content.size: must be a non-negative integer',
+        'payload.content.mediaType: is required',
+        'payload.content.uri: must be a string'
+      ]);
+      expect(withContent({ ...reference, mediaType: 1 })).toEqual(['payload.content.mediaType: must be a string']);
+    });
+
+    it('should check encrypted content', () => {
+      const withContent = (content: unknown, header: object = { canonicalization: 'jcs' }) =>
+        issuesOf({ ...document, header, payload: { documentId: 'PO-1', content } });
+      const recipient = { recipientId: 'qa-bob', algorithm: 'RSA-OAEP-256', wrappedKey: 'a2V5' };
+      const encrypted = {
+        type: 'encrypted',
+        algorithm: 'AES-256-GCM',
+        iv: 'aXY=',
+        ciphertext: 'dGV4dA==',
+        tag: 'dGFn',
+        commitment: '0xab',
+        recipients: [recipient]
+      };
+
+      expect(withContent(encrypted)).toEqual([]);
+      expect(withContent(encrypted, {})).toEqual(['payload.content: encrypted content requires jcs canonicalization']);
+      expect(withContent({ type: 'encrypted', algorithm: 'DES', iv: 1, commitment: 'ab', recipients: [] })).toEqual([
+        'payload.content.algorithm: must be "AES-256-GCM"',
+        'payload.content.iv: must be a base64 string',
+        'payload.content.ciphertext: is required',
+        'payload.content.tag: is required',
+        'payload.content.commitment: must be a 0x-prefixed hex string',
+        'payload.content.recipients: must be a non-empty array'
+      ]);
+      expect(withContent({ ...encrypted, recipients: ['qa-bob', { recipientId: 1, algorithm: 'RSA' }] })).toEqual([
+        'payload.content.recipients[0]: must be an object',
+        'payload.content.recipients[1].recipientId: must be a string',
+        'payload.content.recipients[1].wrappedKey: is required',
+        'payload.content.recipients[1].algorithm: must be "RSA-OAEP-256"'
+      ]);
+    });
+
+    it('should check withdrawal and amendment records', () => {
+      const signature = document.signatures[0];
+
+      expect(issuesOf({
+        ...document,
+        signatures: [
+          { ...signature, type: 'withdrawal', withdraws: -1, reason: 5 },
+          { ...signature, type: 'amendment', payload: { documentId: 'PO-2', content: 'amended' } },
+          { ...signature, type: 'amendment' }
+        ]
+      })).toEqual([
+        'signatures[0].withdraws: must be a non-negative integer',
+        'signatures[0].reason: must be a string',
+        'signatures[1].payload.documentId: must match payload.documentId',
+        'signatures[2].payload: is required'
+      ]);
+    });
+
+    it('should check signature schemes and timestamp tokens', () => {
+      const signature = document.signatures[0];
+
+      expect(issuesOf({
+        ...document,
+        signatures: [
+          { ...signature, scheme: 1, timestampToken: 'token' },
+          { ...signature, timestampToken: { tsaId: 'tsa-acme', hashAlgorithm: 'sha256', messageImprint: 1, genTime: '', serialNumber: '1', nonce: 2 } }
+        ]
+      })).toEqual([
+        'signatures[0].scheme: must be a string',
+        'signatures[0].timestampToken: must be an object',
+        'signatures[1].timestampToken.messageImprint: must be a string',
+        'signatures[1].timestampToken.signature: is required',
+        'signatures[1].timestampToken.nonce: must be a string'
+      ]);
+    });
+
+    it('should reject unknown signature fields only when asked to', () => {
+      const signatures = [{ ...document.signatures[0], isTrusted: true }];
+
+      expect(issuesOf({ ...document, signatures })).toEqual([]);
+      expect(issuesOf({ ...document, signatures }, { rejectUnknownSignatureFields: true }))
+        .toEqual(['signatures[0].isTrusted: is not a known signature field']);
+
+      const coSigned = { type: 'co-signed', threshold: 1, signedHash: 5, signatures: 'all', quorum: 1 };
+      expect(issuesOf({ ...document, signatures: [coSigned] }, { rejectUnknownSignatureFields: true })).toEqual([
+        'signatures[0].signedHash: must be a string',
+        'signatures[0].signatures: must be an array',
+        'signatures[0].quorum: is not a known co-signed step field'
+      ]);
+    });
+
+    it('should enforce the size limits', () => {
+      expect(issuesOf(document, { maxSignatures: 2 })).toEqual(['signatures: must not have more than 2 signatures']);
+      expect(issuesOf(document, { maxStringLength: 10 })).toContain('signatures[0].signature: must not be longer than 10 characters');
+      expect(issuesOf({ ...document, payload: { ...document.payload, nested: [[1]] } }, { maxDepth: 3 }))
+        .toEqual(['payload.nested[0]: must not be nested more than 3 levels deep']);
+    });
+  });
+
+  describe('parseSignedDocument', () => {
+    it('should parse JSON text into a document', () => {
+      expect(parseSignedDocument(JSON.stringify(document))).toEqual(document);
+    });
+
+    it('should throw the issues of an invalid document', () => {
+      const text = JSON.stringify(document).replace('"signerId"', '"signerId":"mallory","signerId"');
+
+      expect(() => parseSignedDocument(text)).toThrow('Invalid document: signatures[0].signerId: Duplicate key');
+      try {
+        parseSignedDocument({ payload: {}, signatures: [] });
+        fail('expected a DocumentValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(DocumentValidationError);
+        expect((error as DocumentValidationError).issues.map(issue => issue.path))
+          .toEqual(['payload.documentId', 'payload.content']);
+      }
+    });
+  });
+
+  describe('traverse', () => {
+    it('should reject malformed documents before verifying them', () => {
+      const malformed = {
+        ...document,
+        signatures: [...document.signatures.slice(0, 2), { ...document.signatures[2], signedHash: 42 }]
+      } as unknown as SignedDocument;
+      const result = traverse(malformed, signerRegistry);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('MALFORMED_DOCUMENT');
+      expect(result.error).toBe('Invalid document: signatures[2].signedHash: must be a string');
+      expect(result.errorDetails).toEqual({ path: 'signatures[2].signedHash' });
+      expect(result.signatureResults).toEqual([]);
+    });
+
+    it('should apply the validation options', () => {
+      // Only the last signature is extended; earlier ones are covered by the chain
+      const extended = {
+        ...document,
+        signatures: [...document.signatures.slice(0, 2), { ...document.signatures[2], note: 'x' }]
+      };
+
+      expect(traverse(extended, signerRegistry).isValid).toBe(true);
+      expect(traverse(extended, signerRegistry, { validation: { rejectUnknownSignatureFields: true } }).validationIssues)
+        .toEqual([{ path: 'signatures[2].note', message: 'is not a known signature field' }]);
+    });
+  });
+});
@@ -0,0 +1,516 @@
+import { SignedDocument, ChainStep, ValidationIssue, DocumentValidationOptions, HashAlgorithm } from './types';
+import { SUPPORTED_HASH_ALGORITHMS } from './crypto-utils';
+import { parseStrictJson, joinPath, JsonParseError, DEFAULT_MAX_JSON_DEPTH, DEFAULT_MAX_JSON_BYTES } from './strict-json';
+
+export const DEFAULT_MAX_SIGNATURES = 1000;
+export const DEFAULT_MAX_STRING_LENGTH = 1024 * 1024;
+
+/**
+ * Fields a signature may carry; others are rejected when
+ * `rejectUnknownSignatureFields` is set
+ */
+export const SIGNATURE_FIELDS = ['signerId', 'signature', 'signedAt', 'signedHash', 'scheme', 'timestampToken'];
+
+const REQUIRED_SIGNATURE_FIELDS = ['signerId', 'signature', 'signedAt', 'signedHash'];
+
+const REQUIRED_TIMESTAMP_TOKEN_FIELDS = ['tsaId', 'hashAlgorithm', 'messageImprint', 'genTime', 'serialNumber', 'signature'];
+
+/**
+ * Fields a co-signed step may carry
+ */
+export const CO_SIGNED_STEP_FIELDS = ['type', 'threshold', 'signedHash', 'signatures'];
+
+/**
+ * Fields a withdrawal record may carry
+ */
+export const WITHDRAWAL_STEP_FIELDS = [...SIGNATURE_FIELDS, 'type', 'withdraws', 'reason'];
+
+/**
+ * Fields an amendment record may carry
+ */
+export const AMENDMENT_STEP_FIELDS = [...SIGNATURE_FIELDS, 'type', 'payload', 'reason'];
+
+/**
+ * Error raised for input that is not a valid signed document
+ */
+export class DocumentValidationError extends Error {
+  /**
+   * @param issues - Every problem found, each with the path of the offending value
+   */
+  constructor(readonly issues: ValidationIssue[]) {
+    super(`Invalid document: ${formatValidationIssue(issues[0])}` +
+      (issues.length > 1 ? ` (and ${issues.length - 1} more)` : ''));
+    this.name = 'DocumentValidationError';
+  }
+}
+
+/**
+ * Parses and validates an untrusted signed document
+ *
+ * Strings are parsed as JSON with parseStrictJson(), so duplicate keys and
+ * `__proto__` keys are rejected before they can be merged away.
+ *
+ * @param input - JSON text or an already parsed value
+ * @param options - Strictness and size limits
+ * @returns The input as a signed document
+ * @throws DocumentValidationError if the input is malformed
+ */
+export function parseSignedDocument(
+  input: unknown,
+  options: DocumentValidationOptions = {}
+): SignedDocument<ChainStep> {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = parseStrictJson(input, {
+        maxDepth: options.maxDepth ?? DEFAULT_MAX_JSON_DEPTH,
+        maxBytes: options.maxBytes ?? DEFAULT_MAX_JSON_BYTES
+      });
+    } catch (error) {
+      if (error instanceof JsonParseError) {
+        throw new DocumentValidationError([{ path: error.path, message: error.reason }]);
+      }
+      throw error;
+    }
+  }
+
+  const issues = validateSignedDocument(value, options);
+  if (issues.length > 0) {
+    throw new DocumentValidationError(issues);
+  }
+  return value as SignedDocument<ChainStep>;
+}
+
+/**
+ * Checks that a value has the shape of a signed document
+ *
+ * Besides the required fields and their types, every value must be plain
+ * JSON data: no functions, class instances, non-finite numbers or
+ * `__proto__` keys, within the depth and size limits.
+ *
+ * @param value - The value to check
+ * @param options - Strictness and size limits
+ * @returns The problems found, empty if the document is valid
+ */
+export function validateSignedDocument(value: unknown, options: DocumentValidationOptions = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isPlainObject(value)) {
+    report('', 'must be an object');
+    return issues;
+  }
+
+  checkJsonValue(value, '', 0, options, report);
+
+  const { header, payload, signatures } = value;
+
+  if (header !== undefined) {
+    if (!isPlainObject(header)) {
+      report('header', 'must be an object');
+    } else {
+      for (const field of ['canonicalization', 'hashAlgorithm']) {
+        if (header[field] !== undefined && typeof header[field] !== 'string') {
+          report(joinPath('header', field), 'must be a string');
+        }
+      }
+      if (header.context !== undefined) {
+        checkDocumentContext(header.context, report);
+      }
+    }
+  }
+
+  const jcs = isPlainObject(header) && header.canonicalization === 'jcs';
+  checkPayload(payload, 'payload', jcs, report);
+
+  const maxSignatures = options.maxSignatures ?? DEFAULT_MAX_SIGNATURES;
+  if (!Array.isArray(signatures)) {
+    report('signatures', signatures === undefined ? 'is required' : 'must be an array');
+  } else if (countSignatures(signatures) > maxSignatures) {
+    report('signatures', `must not have more than ${maxSignatures} signatures`);
+  } else {
+    signatures.forEach((step, index) => checkChainStep(step, joinPath('signatures', index), payload, jcs, options, report));
+  }
+
+  return issues;
+}
+
+/**
+ * Checks one more step of a document whose header and payload are valid
+ *
+ * Applies the checks validateSignedDocument() applies to `signatures[index]`,
+ * for callers that receive a chain one step at a time.
+ *
+ * @param step - The step to check
+ * @param index - Position of the step in the chain
+ * @param document - The document the step extends
+ * @param options - Strictness and size limits
+ * @returns The problems found, empty if the step is valid
+ */
+export function validateChainStep(
+  step: unknown,
+  index: number,
+  document: Omit<SignedDocument<ChainStep>, 'signatures'>,
+  options: DocumentValidationOptions = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+  const path = joinPath('signatures', index);
+
+  // The step sits two levels below the document root
+  checkJsonValue(step, path, 2, options, report);
+  checkChainStep(step, path, document.payload, document.header?.canonicalization === 'jcs', options, report);
+  return issues;
+}
+
+/**
+ * Checks a chain step, and an amended payload against the original
+ */
+function checkChainStep(
+  step: unknown,
+  path: string,
+  payload: unknown,
+  jcs: boolean,
+  options: DocumentValidationOptions,
+  report: (path: string, message: string) => void
+): void {
+  checkStep(step, path, options, report);
+
+  // Amended payloads are checked like the original, and stay the same document
+  if (isPlainObject(step) && step.type === 'amendment') {
+    const amended = step.payload;
+    checkPayload(amended, joinPath(path, 'payload'), jcs, report);
+    if (isPlainObject(amended) && isPlainObject(payload) && typeof amended.documentId === 'string' &&
+        amended.documentId !== payload.documentId) {
+      report(joinPath(joinPath(path, 'payload'), 'documentId'), 'must match payload.documentId');
+    }
+  }
+}
+
+/**
+ * Checks a document context, which must hold strings only
+ */
+function checkDocumentContext(context: unknown, report: (path: string, message: string) => void): void {
+  if (!isPlainObject(context)) {
+    report('header.context', 'must be an object');
+    return;
+  }
+  for (const [field, value] of Object.entries(context)) {
+    if (value !== undefined && typeof value !== 'string') {
+      report(joinPath('header.context', field), 'must be a string');
+    }
+  }
+}
+
+/**
+ * Checks the document ID and content of a payload
+ */
+function checkPayload(
+  payload: unknown,
+  path: string,
+  jcs: boolean,
+  report: (path: string, message: string) => void
+): void {
+  if (!isPlainObject(payload)) {
+    report(path, payload === undefined ? 'is required' : 'must be an object');
+    return;
+  }
+
+  if (typeof payload.documentId !== 'string') {
+    report(joinPath(path, 'documentId'), payload.documentId === undefined ? 'is required' : 'must be a string');
+  }
+
+  const contentPath = joinPath(path, 'content');
+  if (isPlainObject(payload.content)) {
+    const encrypted = payload.content.type === 'encrypted';
+    if (encrypted) {
+      checkEncryptedContent(payload.content, contentPath, report);
+    } else {
+      checkContentReference(payload.content, contentPath, report);
+    }
+    // Legacy serialization drops nested keys, so the chain would not cover the content
+    if (!jcs) {
+      report(contentPath, `${encrypted ? 'encrypted content requires' : 'content references require'} jcs canonicalization`);
+    }
+  } else if (typeof payload.content !== 'string') {
+    report(contentPath, payload.content === undefined
+      ? 'is required'
+      : 'must be a string, a content reference or encrypted content');
+  }
+}
+
+/**
+ * Checks a reference to external content
+ */
+function checkContentReference(
+  reference: Record<string, unknown>,
+  path: string,
+  report: (path: string, message: string) => void
+): void {
+  if (reference.type !== 'content-reference') {
+    report(joinPath(path, 'type'), 'must be "content-reference" or "encrypted"');
+    return;
+  }
+  if (typeof reference.digest !== 'string' || !/^0x[0-9a-fA-F]+$/.test(reference.digest)) {
+    report(joinPath(path, 'digest'), 'must be a 0x-prefixed hex string');
+  }
+  if (reference.algorithm !== undefined &&
+      !SUPPORTED_HASH_ALGORITHMS.includes(reference.algorithm as HashAlgorithm)) {
+    report(joinPath(path, 'algorithm'), `must be one of ${SUPPORTED_HASH_ALGORITHMS.join(', ')}`);
+  }
+  if (typeof reference.size !== 'number' || !Number.isInteger(reference.size) || reference.size < 0) {
+    report(joinPath(path, 'size'), 'must be a non-negative integer');
+  }
+  if (typeof reference.mediaType !== 'string') {
+    report(joinPath(path, 'mediaType'), reference.mediaType === undefined ? 'is required' : 'must be a string');
+  }
+  if (reference.uri !== undefined && typeof reference.uri !== 'string') {
+    report(joinPath(path, 'uri'), 'must be a string');
+  }
+}
+
+/**
+ * Checks an encrypted content envelope
+ */
+function checkEncryptedContent(
+  content: Record<string, unknown>,
+  path: string,
+  report: (path: string, message: string) => void
+): void {
+  if (content.algorithm !== 'AES-256-GCM') {
+    report(joinPath(path, 'algorithm'), 'must be "AES-256-GCM"');
+  }
+  for (const field of ['iv', 'ciphertext', 'tag']) {
+    if (typeof content[field] !== 'string') {
+      report(joinPath(path, field), content[field] === undefined ? 'is required' : 'must be a base64 string');
+    }
+  }
+  if (typeof content.commitment !== 'string' || !/^0x[0-9a-fA-F]+$/.test(content.commitment)) {
+    report(joinPath(path, 'commitment'), 'must be a 0x-prefixed hex string');
+  }
+
+  const recipientsPath = joinPath(path, 'recipients');
+  if (!Array.isArray(content.recipients) || content.recipients.length === 0) {
+    report(recipientsPath, 'must be a non-empty array');
+    return;
+  }
+  content.recipients.forEach((recipient, index) => {
+    const recipientPath = joinPath(recipientsPath, index);
+    if (!isPlainObject(recipient)) {
+      report(recipientPath, 'must be an object');
+      return;
+    }
+    for (const field of ['recipientId', 'wrappedKey']) {
+      if (typeof recipient[field] !== 'string') {
+        report(joinPath(recipientPath, field), recipient[field] === undefined ? 'is required' : 'must be a string');
+      }
+    }
+    if (recipient.algorithm !== 'RSA-OAEP-256') {
+      report(joinPath(recipientPath, 'algorithm'), 'must be "RSA-OAEP-256"');
+    }
+  });
+}
+
+/**
+ * Checks one chain step: a signature, or the step its `type` names
+ */
+function checkStep(
+  step: unknown,
+  path: string,
+  options: DocumentValidationOptions,
+  report: (path: string, message: string) => void
+): void {
+  if (!isPlainObject(step) || step.type === undefined) {
+    checkSignature(step, path, options, report);
+    return;
+  }
+
+  if (step.type === 'withdrawal' || step.type === 'amendment') {
+    checkRecord(step, path, options, report);
+    return;
+  }
+  if (step.type !== 'co-signed') {
+    report(joinPath(path, 'type'), 'must be "co-signed", "withdrawal" or "amendment"');
+    return;
+  }
+  if (typeof step.threshold !== 'number' || !Number.isInteger(step.threshold) || step.threshold < 1) {
+    report(joinPath(path, 'threshold'), 'must be a positive integer');
+  }
+  if (typeof step.signedHash !== 'string') {
+    report(joinPath(path, 'signedHash'), step.signedHash === undefined ? 'is required' : 'must be a string');
+  }
+  if (!Array.isArray(step.signatures)) {
+    report(joinPath(path, 'signatures'), step.signatures === undefined ? 'is required' : 'must be an array');
+  } else {
+    step.signatures.forEach((signature, index) =>
+      checkSignature(signature, joinPath(joinPath(path, 'signatures'), index), options, report)
+    );
+  }
+
+  if (options.rejectUnknownSignatureFields) {
+    for (const field of Object.keys(step).filter(key => !CO_SIGNED_STEP_FIELDS.includes(key))) {
+      report(joinPath(path, field), 'is not a known co-signed step field');
+    }
+  }
+}
+
+/**
+ * Checks a withdrawal or amendment record; the amended payload is checked separately
+ */
+function checkRecord(
+  record: Record<string, unknown>,
+  path: string,
+  options: DocumentValidationOptions,
+  report: (path: string, message: string) => void
+): void {
+  const withdrawal = record.type === 'withdrawal';
+  checkSignature(record, path, options, report, withdrawal ? WITHDRAWAL_STEP_FIELDS : AMENDMENT_STEP_FIELDS);
+
+  if (withdrawal && (typeof record.withdraws !== 'number' || !Number.isInteger(record.withdraws) || record.withdraws < 0)) {
+    report(joinPath(path, 'withdraws'), 'must be a non-negative integer');
+  }
+  if (record.reason !== undefined && typeof record.reason !== 'string') {
+    report(joinPath(path, 'reason'), 'must be a string');
+  }
+}
+
+/**
+ * Checks the fields of one signature
+ */
+function checkSignature(
+  signature: unknown,
+  path: string,
+  options: DocumentValidationOptions,
+  report: (path: string, message: string) => void,
+  knownFields: string[] = SIGNATURE_FIELDS
+): void {
+  if (!isPlainObject(signature)) {
+    report(path, 'must be an object');
+    return;
+  }
+
+  for (const field of REQUIRED_SIGNATURE_FIELDS) {
+    if (typeof signature[field] !== 'string') {
+      report(joinPath(path, field), signature[field] === undefined ? 'is required' : 'must be a string');
+    }
+  }
+  if (signature.scheme !== undefined && typeof signature.scheme !== 'string') {
+    report(joinPath(path, 'scheme'), 'must be a string');
+  }
+  if (signature.timestampToken !== undefined) {
+    checkTimestampToken(signature.timestampToken, joinPath(path, 'timestampToken'), report);
+  }
+
+  if (options.rejectUnknownSignatureFields) {
+    for (const field of Object.keys(signature).filter(key => !knownFields.includes(key))) {
+      report(joinPath(path, field), 'is not a known signature field');
+    }
+  }
+}
+
+/**
+ * Checks the fields of a signature's timestamp token
+ */
+function checkTimestampToken(token: unknown, path: string, report: (path: string, message: string) => void): void {
+  if (!isPlainObject(token)) {
+    report(path, 'must be an object');
+    return;
+  }
+  for (const field of REQUIRED_TIMESTAMP_TOKEN_FIELDS) {
+    if (typeof token[field] !== 'string') {
+      report(joinPath(path, field), token[field] === undefined ? 'is required' : 'must be a string');
+    }
+  }
+  if (token.nonce !== undefined && typeof token.nonce !== 'string') {
+    report(joinPath(path, 'nonce'), 'must be a string');
+  }
+}
+
+/**
+ * Checks that a value is plain JSON data within the depth and string length limits
+ */
+function checkJsonValue(
+  value: unknown,
+  path: string,
+  depth: number,
+  options: DocumentValidationOptions,
+  report: (path: string, message: string) => void
+): void {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_JSON_DEPTH;
+  const maxStringLength = options.maxStringLength ?? DEFAULT_MAX_STRING_LENGTH;
+
+  switch (typeof value) {
+    case 'string':
+      if (value.length > maxStringLength) {
+        report(path, `must not be longer than ${maxStringLength} characters`);
+      }
+      return;
+    case 'number':
+      if (!Number.isFinite(value)) {
+        report(path, 'must be a finite number');
+      }
+      return;
+    case 'boolean':
+      return;
+    case 'object':
+      if (value === null) {
+        return;
+      }
+      break;
+    default:
+      report(path, `must be a JSON value, not ${typeof value}`);
+      return;
+  }
+
+  if (depth >= maxDepth) {
+    report(path, `must not be nested more than ${maxDepth} levels deep`);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => checkJsonValue(item, joinPath(path, index), depth + 1, options, report));
+    return;
+  }
+  if (!isPlainObject(value)) {
+    report(path, 'must be a plain object');
+    return;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(value, '__proto__')) {
+    report(joinPath(path, '__proto__'), 'is not allowed');
+  }
+  // Undefined properties are allowed: they disappear when the document is serialized
+  for (const key of Object.keys(value)) {
+    if (key !== '__proto__' && value[key] !== undefined) {
+      checkJsonValue(value[key], joinPath(path, key), depth + 1, options, report);
+    }
+  }
+}
+
+/**
+ * Counts the signatures of a chain, including every co-signature
+ */
+function countSignatures(steps: unknown[]): number {
+  return steps.reduce<number>((count, step) =>
+    count + (isPlainObject(step) && Array.isArray(step.signatures) ? step.signatures.length : 1), 0);
+}
+
+/**
+ * Whether a value is an object created by an object literal or JSON.parse
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Formats a validation issue as `path: message`
+ * @param issue - The issue
+ * @returns The issue as text
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : `document ${issue.message}`;
+}
@@ -0,0 +1,159 @@
+import { generateKeyPairSync, publicEncrypt, randomBytes, constants, KeyObject } from 'crypto';
+import { encryptPayload, decryptPayload, isEncryptedContent, DecryptionError } from './encrypted-payload';
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { formatChain } from './report-formatters';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry, EncryptedContent } from './types';
+
+describe('Encrypted Payloads', () => {
+  const plaintext = 'Acquisition of Contoso Ltd. for $12M, closing 2025-03-31';
+  let signerRegistry: SignerRegistry;
+  let auditor: { publicKey: KeyObject; privateKey: KeyObject };
+  let counsel: { publicKey: KeyObject; privateKey: KeyObject };
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    auditor = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    counsel = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    const signer = new DocumentSigner(signerRegistry);
+    document = signer.createDocument(encryptPayload({ documentId: 'MA-2025-001', content: plaintext }, [
+      { recipientId: 'auditor-carol', publicKey: auditor.publicKey },
+      { recipientId: 'counsel-dave', publicKey: counsel.publicKey }
+    ]));
+    document = await signer.sign(document, 'developer-alice', testDataGenerator.getWallet('developer-alice')!);
+    document = await signer.sign(document, 'qa-bob', testDataGenerator.getWallet('qa-bob')!);
+  });
+
+  const envelope = (doc: SignedDocument) => doc.payload.content as EncryptedContent;
+
+  it('should replace the content with an envelope for every recipient', () => {
+    expect(isEncryptedContent(document.payload.content)).toBe(true);
+    expect(envelope(document)).toMatchObject({
+      type: 'encrypted',
+      algorithm: 'AES-256-GCM',
+      commitment: expect.stringMatching(/^0x[0-9a-f]{64}$/)
+    });
+    expect(envelope(document).recipients.map(recipient => recipient.recipientId))
+      .toEqual(['auditor-carol', 'counsel-dave']);
+    expect(JSON.stringify(document)).not.toContain('Contoso');
+  });
+
+  it('should verify the chain without any decryption key', () => {
+    const result = traverse(document, signerRegistry);
+
+    expect(result.isValid).toBe(true);
+    expect(result.signatureResults).toHaveLength(2);
+  });
+
+  it('should let every recipient decrypt the signed plaintext', () => {
+    expect(decryptPayload(document.payload, 'auditor-carol', auditor.privateKey).content).toBe(plaintext);
+    expect(decryptPayload(document.payload, 'counsel-dave', counsel.privateKey)).toEqual({
+      documentId: 'MA-2025-001',
+      content: plaintext
+    });
+  });
+
+  it('should refuse recipients without a wrapped key', () => {
+    expect(() => decryptPayload(document.payload, 'intruder-eve', auditor.privateKey))
+      .toThrow(new DecryptionError('No content key wrapped for intruder-eve'));
+  });
+
+  it('should refuse the wrong private key', () => {
+    expect(() => decryptPayload(document.payload, 'auditor-carol', counsel.privateKey))
+      .toThrow('Cannot unwrap the content key for auditor-carol');
+  });
+
+  it('should detect tampered ciphertext in the chain and on decryption', () => {
+    const ciphertext = Buffer.from(envelope(document).ciphertext, 'base64');
+    ciphertext[0] ^= 0xff;
+    const tampered: SignedDocument = {
+      ...document,
+      payload: { ...document.payload, content: { ...envelope(document), ciphertext: ciphertext.toString('base64') } }
+    };
+
+    const result = traverse(tampered, signerRegistry);
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe('HASH_MISMATCH');
+    expect(() => decryptPayload(tampered.payload, 'auditor-carol', auditor.privateKey))
+      .toThrow('Content failed authentication');
+  });
+
+  it('should bind the ciphertext to its document ID', () => {
+    const moved = { ...document.payload, documentId: 'MA-2025-002' };
+
+    expect(() => decryptPayload(moved, 'auditor-carol', auditor.privateKey)).toThrow(DecryptionError);
+  });
+
+  it('should reject plaintext that does not match the commitment', () => {
+    const forged = {
+      ...document.payload,
+      content: { ...envelope(document), commitment: `0x${'00'.repeat(32)}` }
+    };
+
+    expect(() => decryptPayload(forged, 'auditor-carol', auditor.privateKey))
+      .toThrow('Decrypted content does not match the signed commitment');
+  });
+
+  it('should refuse plain content and unsupported algorithms', () => {
+    const withEnvelope = (changes: Partial<EncryptedContent>) =>
+      ({ ...document.payload, content: { ...envelope(document), ...changes } as EncryptedContent });
+    const carol = envelope(document).recipients[0];
+
+    expect(() => decryptPayload({ documentId: 'MA-2025-001', content: plaintext }, 'auditor-carol', auditor.privateKey))
+      .toThrow('Payload content is not encrypted');
+    expect(() => decryptPayload(withEnvelope({ algorithm: 'AES-128-GCM' as 'AES-256-GCM' }), 'auditor-carol', auditor.privateKey))
+      .toThrow('Unsupported content encryption algorithm: AES-128-GCM');
+    expect(() => decryptPayload(
+      withEnvelope({ recipients: [{ ...carol, algorithm: 'RSA-PKCS1' as 'RSA-OAEP-256' }] }), 'auditor-carol', auditor.privateKey
+    )).toThrow('Cannot unwrap the content key for auditor-carol');
+  });
+
+  it('should refuse a wrapped key of the wrong length', () => {
+    const wrappedKey = publicEncrypt(
+      { key: auditor.publicKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      randomBytes(16)
+    ).toString('base64');
+    const recipients = [{ ...envelope(document).recipients[0], wrappedKey }];
+    const payload = { ...document.payload, content: { ...envelope(document), recipients } };
+
+    expect(() => decryptPayload(payload, 'auditor-carol', auditor.privateKey))
+      .toThrow('Content key for auditor-carol has the wrong length');
+  });
+
+  it('should wrap keys for PEM public keys and refuse keys other than RSA', () => {
+    const pem = auditor.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const payload = encryptPayload({ documentId: 'MA-2025-002', content: plaintext }, [{ recipientId: 'auditor-carol', publicKey: pem }]);
+    expect(decryptPayload(payload, 'auditor-carol', auditor.privateKey).content).toBe(plaintext);
+
+    const { publicKey } = generateKeyPairSync('ed25519');
+    expect(() => encryptPayload({ documentId: 'MA-2025-002', content: plaintext }, [{ recipientId: 'counsel-dave', publicKey }]))
+      .toThrow('Public key of counsel-dave is not an RSA key');
+  });
+
+  it('should only encrypt inline text content', () => {
+    expect(() => encryptPayload({ documentId: 'MA-2025-001', content: plaintext }, []))
+      .toThrow('An encrypted payload needs at least one recipient');
+    expect(() => encryptPayload(document.payload, [{ recipientId: 'auditor-carol', publicKey: auditor.publicKey }]))
+      .toThrow('Only inline text content can be encrypted');
+  });
+
+  it('should reject malformed envelopes and legacy canonicalization', () => {
+    const withoutRecipients: SignedDocument = {
+      ...document,
+      payload: { ...document.payload, content: { ...envelope(document), recipients: [] } }
+    };
+    const legacy: SignedDocument = { ...document, header: { canonicalization: 'legacy' } };
+
+    expect(traverse(withoutRecipients, signerRegistry).error)
+      .toBe('Invalid document: payload.content.recipients: must be a non-empty array');
+    expect(traverse(legacy, signerRegistry).error)
+      .toBe('Invalid document: payload.content: encrypted content requires jcs canonicalization');
+  });
+
+  it('should list the recipients in the chain report', () => {
+    expect(formatChain(document)).toContain('Content:          AES-256-GCM, encrypted for auditor-carol, counsel-dave');
+  });
+});
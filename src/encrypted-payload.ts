@@ -0,0 +1,189 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  createPublicKey,
+  privateDecrypt,
+  publicEncrypt,
+  randomBytes,
+  timingSafeEqual,
+  constants,
+  KeyObject
+} from 'crypto';
+import { Payload, EncryptedContent, WrappedKey } from './types';
+
+/**
+ * A recipient an encrypted payload is readable by
+ */
+export interface EnvelopeRecipient {
+  /** Identifies the recipient in the envelope */
+  recipientId: string;
+  /** The recipient's RSA public key, PEM or key object */
+  publicKey: string | KeyObject;
+}
+
+/**
+ * Error raised when an encrypted payload cannot be decrypted or does not
+ * match what was signed
+ */
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const CONTENT_KEY_LENGTH = 32;
+const MAC_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Checks whether payload content is encrypted
+ * @param content - The payload content
+ * @returns True for encrypted content
+ */
+export function isEncryptedContent(content: Payload['content']): content is EncryptedContent {
+  return typeof content === 'object' && content !== null && content.type === 'encrypted';
+}
+
+/**
+ * Encrypts a payload's content for a set of recipients
+ *
+ * The content is encrypted with a fresh AES-256-GCM key, bound to the
+ * document ID, and the key is wrapped for every recipient with RSA-OAEP.
+ * Sign the returned payload as usual; the chain then commits to the
+ * ciphertext and can be verified by anyone, while only recipients can read
+ * the content.
+ *
+ * @param payload - A payload with inline text content
+ * @param recipients - Who can decrypt the content
+ * @returns The payload with its content replaced by the encrypted envelope
+ */
+export function encryptPayload(payload: Payload, recipients: EnvelopeRecipient[]): Payload {
+  if (typeof payload.content !== 'string') {
+    throw new Error('Only inline text content can be encrypted');
+  }
+  if (recipients.length === 0) {
+    throw new Error('An encrypted payload needs at least one recipient');
+  }
+
+  const keyMaterial = randomBytes(CONTENT_KEY_LENGTH + MAC_KEY_LENGTH);
+  const contentKey = keyMaterial.subarray(0, CONTENT_KEY_LENGTH);
+  const macKey = keyMaterial.subarray(CONTENT_KEY_LENGTH);
+  const plaintext = Buffer.from(payload.content, 'utf8');
+  const iv = randomBytes(IV_LENGTH);
+
+  const cipher = createCipheriv('aes-256-gcm', contentKey, iv);
+  cipher.setAAD(Buffer.from(payload.documentId, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  const content: EncryptedContent = {
+    type: 'encrypted',
+    algorithm: 'AES-256-GCM',
+    iv: iv.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    commitment: commit(macKey, plaintext),
+    recipients: recipients.map(recipient => wrapKey(recipient, keyMaterial))
+  };
+
+  return { ...payload, content };
+}
+
+/**
+ * Decrypts a payload's content and checks it against the signed commitment
+ *
+ * AES-GCM alone does not commit to its key: a sender could wrap different
+ * keys for different recipients that decrypt the same ciphertext to
+ * different texts. The HMAC commitment rules that out, so a successful
+ * decryption proves the plaintext is the one the chain's signers signed.
+ *
+ * @param payload - A payload with encrypted content
+ * @param recipientId - The recipient decrypting the content
+ * @param privateKey - The recipient's RSA private key, PEM or key object
+ * @returns The payload with its content decrypted
+ * @throws DecryptionError if the content cannot be decrypted or does not
+ *   match its commitment
+ */
+export function decryptPayload(payload: Payload, recipientId: string, privateKey: string | KeyObject): Payload {
+  const content = payload.content;
+  if (!isEncryptedContent(content)) {
+    throw new DecryptionError('Payload content is not encrypted');
+  }
+  const algorithm: string = content.algorithm;
+  if (algorithm !== 'AES-256-GCM') {
+    throw new DecryptionError(`Unsupported content encryption algorithm: ${algorithm}`);
+  }
+
+  const recipient = content.recipients.find(entry => entry.recipientId === recipientId);
+  if (!recipient) {
+    throw new DecryptionError(`No content key wrapped for ${recipientId}`);
+  }
+
+  let keyMaterial: Buffer;
+  try {
+    keyMaterial = unwrapKey(recipient, privateKey);
+  } catch (error) {
+    throw new DecryptionError(`Cannot unwrap the content key for ${recipientId}`);
+  }
+  if (keyMaterial.length !== CONTENT_KEY_LENGTH + MAC_KEY_LENGTH) {
+    throw new DecryptionError(`Content key for ${recipientId} has the wrong length`);
+  }
+
+  let plaintext: Buffer;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', keyMaterial.subarray(0, CONTENT_KEY_LENGTH), Buffer.from(content.iv, 'base64'));
+    decipher.setAAD(Buffer.from(payload.documentId, 'utf8'));
+    decipher.setAuthTag(Buffer.from(content.tag, 'base64'));
+    plaintext = Buffer.concat([decipher.update(Buffer.from(content.ciphertext, 'base64')), decipher.final()]);
+  } catch (error) {
+    throw new DecryptionError('Content failed authentication: the ciphertext, tag or document ID was altered');
+  }
+
+  const expected = Buffer.from(commit(keyMaterial.subarray(CONTENT_KEY_LENGTH), plaintext).slice(2), 'hex');
+  const actual = Buffer.from(content.commitment.replace(/^0x/, ''), 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new DecryptionError('Decrypted content does not match the signed commitment');
+  }
+
+  return { ...payload, content: plaintext.toString('utf8') };
+}
+
+/**
+ * Wraps the key material for one recipient
+ */
+function wrapKey(recipient: EnvelopeRecipient, keyMaterial: Buffer): WrappedKey {
+  const key = typeof recipient.publicKey === 'string' ? createPublicKey(recipient.publicKey) : recipient.publicKey;
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new Error(`Public key of ${recipient.recipientId} is not an RSA key`);
+  }
+
+  return {
+    recipientId: recipient.recipientId,
+    algorithm: 'RSA-OAEP-256',
+    wrappedKey: publicEncrypt(
+      { key, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      keyMaterial
+    ).toString('base64')
+  };
+}
+
+/**
+ * Unwraps the key material with a recipient's private key
+ */
+function unwrapKey(recipient: WrappedKey, privateKey: string | KeyObject): Buffer {
+  if (recipient.algorithm !== 'RSA-OAEP-256') {
+    throw new Error(`Unsupported key wrapping algorithm: ${recipient.algorithm}`);
+  }
+  return privateDecrypt(
+    { key: privateKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(recipient.wrappedKey, 'base64')
+  );
+}
+
+/**
+ * Computes the commitment to a plaintext
+ */
+function commit(macKey: Buffer, plaintext: Buffer): string {
+  return `0x${createHmac('sha256', macKey).update(plaintext).digest('hex')}`;
+}
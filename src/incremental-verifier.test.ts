@@ -0,0 +1,213 @@
+import { IncrementalVerifier } from './incremental-verifier';
+import { ChainHasher, calculateExpectedHashes } from './chain-hasher';
+import { calculateExpectedHash, calculateRecordHash, signMessage } from './crypto-utils';
+import { traverse } from './traversal';
+import { DocumentSigner } from './document-signer';
+import { eip191Scheme } from './signature-schemes';
+import { testDataGenerator } from './test-data-generator';
+import {
+  Payload,
+  Signature,
+  SignerRegistry,
+  DocumentHeader,
+  TimeAwareSignerRegistry,
+  SignedDocument,
+  ChainStep,
+  WithdrawalStep
+} from './types';
+
+describe('Incremental Verification', () => {
+  const payload: Payload = {
+    documentId: 'LONG-CHAIN',
+    content: 'approval chain',
+    metadata: { steps: ['draft', 'review', 'approve'] }
+  };
+
+  const fakeSignatures: Signature[] = Array.from({ length: 20 }, (_, index) => ({
+    signerId: `signer-${index}`,
+    signature: `0x${index.toString(16).padStart(130, '0')}`,
+    signedAt: new Date(Date.UTC(2025, 0, 1, index)).toISOString(),
+    signedHash: `0x${index}`
+  }));
+
+  describe('ChainHasher', () => {
+    const headers: DocumentHeader[] = [
+      {},
+      { canonicalization: 'jcs' },
+      { canonicalization: 'jcs', hashAlgorithm: 'sha512' }
+    ];
+
+    it.each(headers)('should match calculateExpectedHash for header %j', header => {
+      const expectedHashes = calculateExpectedHashes(payload, fakeSignatures, header);
+
+      expectedHashes.forEach((expectedHash, index) => {
+        expect(expectedHash).toBe(calculateExpectedHash(payload, fakeSignatures.slice(0, index), header));
+      });
+    });
+
+    it('should not change state when reading the current hash', () => {
+      const hasher = new ChainHasher(payload);
+      const first = hasher.currentHash();
+
+      expect(hasher.currentHash()).toBe(first);
+      expect(hasher.length).toBe(0);
+    });
+
+    it('should produce independent clones', () => {
+      const hasher = new ChainHasher(payload);
+      hasher.append(fakeSignatures[0]);
+
+      const clone = hasher.clone();
+      clone.append(fakeSignatures[1]);
+
+      expect(hasher.length).toBe(1);
+      expect(clone.length).toBe(2);
+      expect(hasher.currentHash()).toBe(calculateExpectedHash(payload, fakeSignatures.slice(0, 1)));
+      expect(clone.currentHash()).toBe(calculateExpectedHash(payload, fakeSignatures.slice(0, 2)));
+    });
+  });
+
+  describe('IncrementalVerifier', () => {
+    let signerRegistry: SignerRegistry;
+    let signer: DocumentSigner;
+
+    beforeAll(() => {
+      signerRegistry = testDataGenerator.getSignerRegistry();
+      signer = new DocumentSigner(signerRegistry);
+    });
+
+    it('should verify signatures one at a time', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const verifier = new IncrementalVerifier(document.payload, signerRegistry);
+
+      for (const signature of document.signatures) {
+        expect(verifier.verifyNext(signature).isValid).toBe(true);
+      }
+
+      expect(verifier.length).toBe(3);
+      expect(verifier.signerIds).toEqual(['developer-alice', 'qa-bob', 'manager-charlie']);
+      expect(verifier.headHash).toBe(calculateExpectedHash(document.payload, document.signatures));
+    });
+
+    it('should extend a cached prefix with a new signature', async () => {
+      let document = signer.createDocument(payload);
+      document = await signer.sign(document, 'developer-alice', testDataGenerator.getWallet('developer-alice')!);
+      const verifier = IncrementalVerifier.fromDocument(document, signerRegistry);
+
+      document = await signer.sign(document, 'qa-bob', testDataGenerator.getWallet('qa-bob')!);
+      const result = verifier.verifyNext(document.signatures[1]);
+
+      expect(result.isValid).toBe(true);
+      expect(verifier.toDocument()).toEqual(document);
+    });
+
+    it('should leave the prefix unchanged when a signature is invalid', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const verifier = new IncrementalVerifier(document.payload, signerRegistry);
+      const headBefore = verifier.headHash;
+
+      const result = verifier.verifyNext(document.signatures[1]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.hashChainValid).toBe(false);
+      expect(verifier.length).toBe(0);
+      expect(verifier.headHash).toBe(headBefore);
+    });
+
+    it('should apply timestamp checks against the verified prefix', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const verifier = new IncrementalVerifier(document.payload, signerRegistry, {}, {
+        timestamps: { maxSigningWindowMs: 60 * 60 * 1000 }
+      });
+
+      expect(verifier.verifyNext(document.signatures[0]).isValid).toBe(true);
+      const result = verifier.verifyNext(document.signatures[1]);
+      expect(result.isValid).toBe(false);
+      expect(result.timestampValid).toBe(false);
+    });
+
+    it('should verify eip712-step signatures in their signed context', async () => {
+      const privateKey = '0x1234567890123456789012345678901234567890123456789012345678901234';
+      const stepKey = { scheme: 'eip712-step', privateKey };
+      const registry: TimeAwareSignerRegistry = {
+        'treasurer-erin': { keys: [{ address: eip191Scheme.getPublicKey(privateKey), scheme: 'eip712-step' }] }
+      };
+      const typedDataDomain = { name: 'AcmeApprovals', version: '3', chainId: 1 };
+      const stepSigner = new DocumentSigner(registry, { typedDataDomain });
+      let document = await stepSigner.sign(stepSigner.createDocument(payload), 'treasurer-erin', stepKey);
+      const verifier = IncrementalVerifier.fromDocument(document, registry, { typedDataDomain });
+
+      document = await stepSigner.sign(document, 'treasurer-erin', stepKey);
+      expect(verifier.verifyNext(document.signatures[1]).isValid).toBe(true);
+
+      const otherDomain = new IncrementalVerifier(payload, registry, {}, { typedDataDomain: { ...typedDataDomain, chainId: 5 } });
+      expect(otherDomain.verifyNext(document.signatures[0]).isValid).toBe(false);
+    });
+
+    it('should refuse to prime from an invalid document', async () => {
+      const document = await testDataGenerator.generateDocumentWithTamperedPayload();
+      expect(() => IncrementalVerifier.fromDocument(document, signerRegistry)).toThrow('Signature chain broken');
+    });
+
+    it('should verify co-signed steps and records like traverse', async () => {
+      const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+      let document: SignedDocument<ChainStep> = signer.createDocument(payload);
+      document = await signer.sign(document, 'developer-alice', wallet('developer-alice'));
+      document = signer.openCoSignedStep(document, 2);
+      document = await signer.coSign(document, 'qa-bob', wallet('qa-bob'));
+      document = await signer.coSign(document, 'manager-charlie', wallet('manager-charlie'));
+      document = await signer.withdraw(document, 'qa-bob', wallet('qa-bob'), 1);
+      document = await signer.amend(document, 'developer-alice', wallet('developer-alice'), { ...payload, content: 'amended' });
+      document = await signer.sign(document, 'manager-charlie', wallet('manager-charlie'));
+
+      const verifier = IncrementalVerifier.fromDocument(document, signerRegistry);
+
+      expect(verifier.length).toBe(5);
+      expect(verifier.toDocument()).toEqual(document);
+      expect(verifier.effectiveState).toEqual(traverse(document, signerRegistry).effectiveState);
+      expect(verifier.signerIds).toEqual(['manager-charlie']);
+    });
+
+    it('should reject a withdrawal of somebody else\'s approval', async () => {
+      const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+      let document: SignedDocument<ChainStep> = signer.createDocument(payload);
+      document = await signer.sign(document, 'developer-alice', wallet('developer-alice'));
+      const verifier = IncrementalVerifier.fromDocument(document, signerRegistry);
+
+      const signedAt = new Date().toISOString();
+      const fields = { type: 'withdrawal' as const, signerId: 'qa-bob', withdraws: 0, signedAt };
+      const signedHash = calculateRecordHash(verifier.headHash, fields as WithdrawalStep, document.header);
+      const result = verifier.verifyNext({ ...fields, signedHash, signature: await signMessage(signedHash, wallet('qa-bob')) });
+
+      expect(result.errorCode).toBe('INVALID_WITHDRAWAL');
+      expect(verifier.length).toBe(1);
+    });
+
+    it('should reject malformed steps', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const verifier = new IncrementalVerifier(document.payload, signerRegistry);
+
+      const result = verifier.verifyNext({ ...document.signatures[0], signedAt: 5 } as any);
+
+      expect(result).toMatchObject({
+        isValid: false,
+        errorCode: 'MALFORMED_DOCUMENT',
+        error: 'Invalid document: signatures[0].signedAt: must be a string',
+        errorDetails: { path: 'signatures[0].signedAt' }
+      });
+      expect(verifier.length).toBe(0);
+      expect(() => new IncrementalVerifier({ documentId: 7 } as any, signerRegistry))
+        .toThrow('Invalid document: payload.documentId: must be a string');
+    });
+
+    it.each(['policy', 'contentLoader', 'replayStore', 'transparencyLog'])('should refuse the %s option, which needs the complete document', option => {
+      expect(() => new IncrementalVerifier(payload, signerRegistry, {}, { [option]: {} }))
+        .toThrow(`${option} applies to complete documents; verify toDocument() with traverse()`);
+    });
+
+    it('should refuse disallowed hash algorithms', () => {
+      expect(() => new IncrementalVerifier(payload, signerRegistry, {}, { allowedHashAlgorithms: ['sha256'] }))
+        .toThrow('Hash algorithm not allowed: keccak256');
+    });
+  });
+});
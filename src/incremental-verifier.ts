@@ -0,0 +1,198 @@
+import {
+  SignedDocument,
+  Payload,
+  Signature,
+  ChainStep,
+  DocumentHeader,
+  AnySignerRegistry,
+  ChainContext,
+  EffectiveState,
+  SignatureVerificationResult,
+  TraversalOptions
+} from './types';
+import { ChainHasher } from './chain-hasher';
+import { checkHeader, verifyStep, withTrustedTimes, applyTimestampErrors } from './traversal';
+import { validateTimestamps } from './timestamp-validation';
+import { resolveSignerKeys } from './key-registry';
+import { validateSignedDocument, validateChainStep, DocumentValidationError } from './document-validation';
+import { computeEffectiveState, approversInForce } from './chain-records';
+
+/**
+ * Options that only apply to complete documents
+ */
+const DOCUMENT_OPTIONS = ['policy', 'contentLoader', 'replayStore', 'transparencyLog'] as const;
+
+/**
+ * Streaming verifier that extends a cached, already verified chain prefix
+ *
+ * Each step gets the checks `traverse()` gives it: schema validation, the
+ * signature or co-signatures, withdrawal rules, timestamp tokens and
+ * timestamp checks. The running hash of the verified prefix is kept, so a
+ * new step is hashed once however long the chain already is; the verified
+ * steps are kept too, as withdrawals and timestamp checks look back at them.
+ * Signing policies, referenced content, replay stores and transparency logs
+ * apply to complete documents: verify `verifier.toDocument()` with
+ * `traverse()` once the chain is complete.
+ */
+export class IncrementalVerifier {
+  private readonly hasher: ChainHasher;
+  private readonly payloadHash: string;
+  private readonly steps: ChainStep[] = [];
+  private readonly results: SignatureVerificationResult[] = [];
+
+  /**
+   * @param payload - The document payload
+   * @param signerRegistry - The signer registry
+   * @param header - The document header
+   * @param options - Traversal options, except the ones for complete documents
+   * @throws If the header or payload is invalid, or an option applies to complete documents only
+   */
+  constructor(
+    private readonly payload: Payload,
+    private readonly signerRegistry: AnySignerRegistry,
+    private readonly header: DocumentHeader = {},
+    private readonly options: TraversalOptions = {}
+  ) {
+    const documentOption = DOCUMENT_OPTIONS.find(option => options[option] !== undefined);
+    if (documentOption) {
+      throw new Error(`${documentOption} applies to complete documents; verify toDocument() with traverse()`);
+    }
+
+    const issues = validateSignedDocument({ header, payload, signatures: [] }, options.validation);
+    if (issues.length > 0) {
+      throw new DocumentValidationError(issues);
+    }
+
+    const headerError = checkHeader(header, options);
+    if (headerError) {
+      throw new Error(headerError.message);
+    }
+
+    this.hasher = new ChainHasher(payload, header);
+    this.payloadHash = this.hasher.currentHash();
+  }
+
+  /**
+   * Creates a verifier primed with every step of a document
+   * @param document - The document to verify
+   * @param signerRegistry - The signer registry
+   * @param options - Traversal options
+   * @returns A verifier whose verified prefix is the whole chain
+   * @throws If any step of the document fails verification
+   */
+  static fromDocument(
+    document: SignedDocument<ChainStep>,
+    signerRegistry: AnySignerRegistry,
+    options: TraversalOptions = {}
+  ): IncrementalVerifier {
+    if (!document?.payload) {
+      throw new Error('Document has no payload');
+    }
+
+    const verifier = new IncrementalVerifier(document.payload, signerRegistry, document.header ?? {}, options);
+    for (const step of document.signatures ?? []) {
+      const result = verifier.verifyNext(step);
+      if (!result.isValid) {
+        throw new Error(`Signature chain broken at signer: ${result.signerId}: ${result.error}`);
+      }
+    }
+
+    return verifier;
+  }
+
+  /**
+   * Number of verified steps
+   */
+  get length(): number {
+    return this.steps.length;
+  }
+
+  /**
+   * Signer IDs of the approvals in force, in chain order, as signing policies count them
+   */
+  get signerIds(): string[] {
+    return approversInForce(this.effectiveState);
+  }
+
+  /**
+   * The payload and approvals in force after the verified steps
+   */
+  get effectiveState(): EffectiveState {
+    return computeEffectiveState(this.toDocument(), this.results);
+  }
+
+  /**
+   * The hash the next signer must sign
+   */
+  get headHash(): string {
+    return this.hasher.currentHash();
+  }
+
+  /**
+   * Verifies a step as the next link of the chain
+   *
+   * The step is appended to the verified prefix only if it is valid;
+   * an invalid step leaves the verifier unchanged.
+   *
+   * @param step - The signature, co-signed step or record to verify
+   * @returns The verification result for the step
+   */
+  verifyNext(step: ChainStep): SignatureVerificationResult {
+    const index = this.steps.length;
+    const issues = validateChainStep(step, index, { header: this.header, payload: this.payload }, this.options.validation);
+    if (issues.length > 0) {
+      return {
+        signerId: String((step as Partial<Signature> | undefined)?.signerId ?? ''),
+        isValid: false,
+        hashChainValid: false,
+        signatureValid: false,
+        error: new DocumentValidationError(issues).message,
+        errorCode: 'MALFORMED_DOCUMENT',
+        errorDetails: { path: issues[0].path }
+      };
+    }
+
+    // Typed-data schemes also sign the step's document and position
+    const context: ChainContext = {
+      documentId: this.payload.documentId,
+      payloadHash: this.payloadHash,
+      index,
+      domain: this.options.typedDataDomain
+    };
+    const steps = [...this.steps, step];
+    const result = verifyStep(
+      steps,
+      index,
+      this.hasher.currentHash(),
+      this.header,
+      signature => resolveSignerKeys(this.signerRegistry, signature.signerId, signature.signedAt),
+      context,
+      this.options
+    );
+
+    if (this.options.timestamps) {
+      const errors = validateTimestamps(withTrustedTimes(steps, this.options), this.options.timestamps);
+      applyTimestampErrors(result, errors[index]);
+    }
+
+    if (result.isValid) {
+      this.hasher.append(step);
+      this.steps.push(step);
+      this.results.push(result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns the verified chain as a document
+   * @returns A document containing the payload and the verified steps
+   */
+  toDocument(): SignedDocument<ChainStep> {
+    return {
+      header: { ...this.header },
+      payload: this.payload,
+      signatures: [...this.steps]
+    };
+  }
+}
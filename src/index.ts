@@ -7,6 +7,101 @@
  */
 
 export { traverse, createSignerRegistry } from './traversal';
-export { testDataGenerator, TestDataGenerator } from './test-data-generator';
+export { traverseAsync } from './async-traversal';
+export {
+  SignerResolver,
+  SignerLookup,
+  KeyHistoryResolver,
+  InMemorySignerResolver,
+  CachingSignerResolver,
+  CachingSignerResolverOptions
+} from './signer-resolver';
+export {
+  verifyBatch,
+  BatchVerificationOptions,
+  BatchVerificationStats,
+  BatchVerificationResult
+} from './batch-verification';
+export { analyzeTampering, TamperKind, TamperFinding, TamperReport } from './tamper-forensics';
+export {
+  createRequestHandler,
+  createVerificationServer,
+  loadRegistries,
+  serverOptionsFromEnv,
+  ServerOptions
+} from './server';
+export {
+  parseSignedDocument,
+  validateSignedDocument,
+  formatValidationIssue,
+  DocumentValidationError
+} from './document-validation';
+export { parseStrictJson, JsonParseError, StrictJsonOptions } from './strict-json';
+export {
+  createContentReference,
+  verifyContent,
+  isContentReference,
+  InMemoryContentLoader,
+  DEFAULT_CONTENT_ALGORITHM
+} from './content-references';
+export {
+  encryptPayload,
+  decryptPayload,
+  isEncryptedContent,
+  DecryptionError,
+  EnvelopeRecipient
+} from './encrypted-payload';
+export { currentPayload, computeEffectiveState } from './chain-records';
+export { createDocumentContext, checkContext, InMemoryReplayStore } from './replay-protection';
+export {
+  calculateChainHead,
+  calculateMerkleRoot,
+  verifyInclusionProof,
+  verifyConsistencyProof,
+  verifyTreeHead
+} from './merkle-log';
+export { TransparencyLog, LogStorage, InMemoryLogStorage, FileLogStorage } from './transparency-log';
+export {
+  TimestampAuthority,
+  TimestampRequest,
+  LocalTimestampAuthority,
+  timestampSignature,
+  checkTimestampToken,
+  calculateMessageImprint,
+  DEFAULT_IMPRINT_ALGORITHM,
+  DEFAULT_MAX_TOKEN_DRIFT_MS
+} from './timestamp-tokens';
+export { DocumentSigner } from './document-signer';
+export { IncrementalVerifier } from './incremental-verifier';
+export { ChainHasher, calculateExpectedHashes } from './chain-hasher';
+export { evaluatePolicy } from './signing-policy';
+export { validateTimestamps } from './timestamp-validation';
+export { resolveSignerKeys, CandidateKey, KeyResolution } from './key-registry';
+export {
+  SignatureScheme,
+  DEFAULT_SIGNATURE_SCHEME,
+  DEFAULT_STEP_DOMAIN,
+  StepTypedData,
+  buildStepTypedData,
+  registerSignatureScheme,
+  getSignatureScheme
+} from './signature-schemes';
+export {
+  testDataGenerator,
+  TestDataGenerator,
+  ChainOptions,
+  MutationRunOptions,
+  MutationRun
+} from './test-data-generator';
+export {
+  MutationKind,
+  ChainMutation,
+  Random,
+  MUTATION_KINDS,
+  mutateChain,
+  flipHexDigit,
+  seededRandom
+} from './chain-mutations';
 export * from './types';
 export * from './crypto-utils';
+export { canonicalize } from './canonical-json';
@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { resolveSignerKeys } from './key-registry';
+import { traverse } from './traversal';
+import { DocumentSigner } from './document-signer';
+import { TimeAwareSignerRegistry, Payload } from './types';
+
+describe('Key Registry', () => {
+  const oldKey = new ethers.Wallet('0x4567890123456789012345678901234567890123456789012345678901234567');
+  const newKey = new ethers.Wallet('0x5678901234567890123456789012345678901234567890123456789012345678');
+
+  const registry: TimeAwareSignerRegistry = {
+    'developer-alice': {
+      keys: [
+        { address: oldKey.address, validUntil: '2025-01-01T00:00:00Z' },
+        { address: newKey.address, validFrom: '2025-01-01T00:00:00Z' }
+      ]
+    }
+  };
+
+  const payload: Payload = { documentId: 'ROT-1', content: 'rotation test' };
+
+  describe('resolveSignerKeys', () => {
+    it('should return the single address of a plain registry entry', () => {
+      const resolution = resolveSignerKeys({ alice: '0xabc' }, 'alice', 'not a date');
+
+      expect(resolution.found).toBe(true);
+      expect(resolution.candidates).toEqual([{ publicKey: '0xabc' }]);
+    });
+
+    it('should report unknown signers', () => {
+      const resolution = resolveSignerKeys(registry, 'mallory', '2025-01-01T00:00:00Z');
+
+      expect(resolution.found).toBe(false);
+      expect(resolution.error).toBe('Signer mallory not found in registry');
+    });
+
+    it('should not resolve inherited object properties as signers', () => {
+      expect(resolveSignerKeys({}, 'constructor', '2025-01-01T00:00:00Z').found).toBe(false);
+    });
+
+    it('should select the key valid at the time of signing', () => {
+      const before = resolveSignerKeys(registry, 'developer-alice', '2024-12-31T23:59:59Z');
+      const after = resolveSignerKeys(registry, 'developer-alice', '2025-01-01T00:00:00Z');
+
+      expect(before.candidates.map(key => key.publicKey)).toEqual([oldKey.address]);
+      expect(after.candidates.map(key => key.publicKey)).toEqual([newKey.address]);
+    });
+
+    it('should report when no key was valid', () => {
+      const resolution = resolveSignerKeys(
+        { bob: { keys: [{ address: '0xabc', validFrom: '2025-01-01T00:00:00Z' }] } },
+        'bob',
+        '2024-06-01T00:00:00Z'
+      );
+
+      expect(resolution.found).toBe(true);
+      expect(resolution.error).toContain('No key for signer bob valid at');
+      expect(resolution.errorCode).toBe('NO_VALID_KEY');
+    });
+
+    it('should flag keys revoked before the time of signing', () => {
+      const revoked: TimeAwareSignerRegistry = {
+        bob: {
+          keys: [{ address: '0xABC' }],
+          revocations: [{ address: '0xabc', reason: 'key compromise', effectiveAt: '2025-03-01T00:00:00Z' }]
+        }
+      };
+
+      expect(resolveSignerKeys(revoked, 'bob', '2025-02-28T00:00:00Z').candidates[0].revocation).toBeUndefined();
+      expect(resolveSignerKeys(revoked, 'bob', '2025-03-01T00:00:00Z').candidates[0].revocation?.reason)
+        .toBe('key compromise');
+    });
+
+    it('should treat revocations with an unparseable time as effective from the start', () => {
+      const revoked: TimeAwareSignerRegistry = {
+        bob: {
+          keys: [{ address: '0xabc' }],
+          revocations: [{ address: '0xabc', reason: 'key compromise', effectiveAt: 'yesterday' }]
+        }
+      };
+
+      expect(resolveSignerKeys(revoked, 'bob', '2000-01-01T00:00:00Z').candidates[0].revocation?.reason)
+        .toBe('key compromise');
+    });
+  });
+
+  describe('traverse with a time-aware registry', () => {
+    const signer = new DocumentSigner(registry);
+
+    it('should verify signatures made before and after a key rotation', async () => {
+      let document = signer.createDocument(payload);
+      document = await signer.sign(document, 'developer-alice', oldKey, new Date('2024-06-01T00:00:00Z'));
+      document = await signer.sign(document, 'developer-alice', newKey, new Date('2025-06-01T00:00:00Z'));
+
+      const result = traverse(document, registry);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject a rotated-out key used after its validity', async () => {
+      const document = await new DocumentSigner({ 'developer-alice': oldKey.address })
+        .sign(signer.createDocument(payload), 'developer-alice', oldKey, new Date('2025-06-01T00:00:00Z'));
+
+      const result = traverse(document, registry);
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0].signatureValid).toBe(false);
+      expect(result.signatureResults[0].error).toContain('Invalid cryptographic signature');
+    });
+
+    it('should reject signatures made with a revoked key', async () => {
+      const revokedRegistry: TimeAwareSignerRegistry = {
+        'developer-alice': {
+          keys: [{ address: oldKey.address }],
+          revocations: [{ address: oldKey.address, reason: 'key compromise', effectiveAt: '2025-01-01T00:00:00Z' }]
+        }
+      };
+      const document = await new DocumentSigner({ 'developer-alice': oldKey.address })
+        .sign(signer.createDocument(payload), 'developer-alice', oldKey, new Date('2025-06-01T00:00:00Z'));
+
+      const result = traverse(document, revokedRegistry);
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0].signatureValid).toBe(true);
+      expect(result.signatureResults[0].error).toContain('was revoked at 2025-01-01T00:00:00Z: key compromise');
+      expect(result.signatureResults[0].errorCode).toBe('KEY_REVOKED');
+      expect(result.signatureResults[0].errorDetails).toMatchObject({
+        revokedAt: '2025-01-01T00:00:00Z',
+        revocationReason: 'key compromise'
+      });
+    });
+
+    it('should keep signatures made before the revocation valid', async () => {
+      const revokedRegistry: TimeAwareSignerRegistry = {
+        'developer-alice': {
+          keys: [{ address: oldKey.address }],
+          revocations: [{ address: oldKey.address, reason: 'employee left', effectiveAt: '2025-01-01T00:00:00Z' }]
+        }
+      };
+      const document = await new DocumentSigner(revokedRegistry)
+        .sign(signer.createDocument(payload), 'developer-alice', oldKey, new Date('2024-06-01T00:00:00Z'));
+
+      expect(traverse(document, revokedRegistry).isValid).toBe(true);
+    });
+
+    it('should refuse to sign with a revoked key', async () => {
+      const revokedRegistry: TimeAwareSignerRegistry = {
+        'developer-alice': {
+          keys: [{ address: oldKey.address }],
+          revocations: [{ address: oldKey.address, reason: 'key compromise', effectiveAt: '2025-01-01T00:00:00Z' }]
+        }
+      };
+
+      await expect(
+        new DocumentSigner(revokedRegistry).sign(signer.createDocument(payload), 'developer-alice', oldKey)
+      ).rejects.toThrow('has been revoked');
+    });
+  });
+});
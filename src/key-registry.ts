@@ -0,0 +1,133 @@
+import { AnySignerRegistry, KeyRevocation, SignerKeyHistory, VerificationErrorCode } from './types';
+import { DEFAULT_SIGNATURE_SCHEME } from './signature-schemes';
+
+/**
+ * A key that may have produced a signature
+ */
+export interface CandidateKey {
+  /** The key's public address, or public key for non-Ethereum schemes */
+  publicKey: string;
+  /** The key's scheme; undefined for plain registry entries, which accept any scheme */
+  scheme?: string;
+  /** Set when the key was already revoked at the time of signing */
+  revocation?: KeyRevocation;
+}
+
+/**
+ * Result of looking up the keys of a signer
+ */
+export interface KeyResolution {
+  /** Whether the signer is known to the registry at all */
+  found: boolean;
+  /** Keys that were valid at the time of signing */
+  candidates: CandidateKey[];
+  /** Why no candidate could be selected, if applicable */
+  error?: string;
+  /**
+   * Machine-readable reason for `error`; when omitted, `UNKNOWN_SIGNER` is
+   * assumed for signers that were not found and `NO_VALID_KEY` otherwise
+   */
+  errorCode?: VerificationErrorCode;
+}
+
+/**
+ * Finds the keys a signer could have used at a given time
+ *
+ * Plain registries map each signer to a single address that is always valid.
+ * Time-aware registries return every key whose validity interval contains
+ * `signedAt`, flagged with its revocation if it was revoked by then.
+ *
+ * @param registry - The signer registry
+ * @param signerId - The signer to look up
+ * @param signedAt - The signature's timestamp
+ * @returns The candidate keys for the signature
+ */
+export function resolveSignerKeys(
+  registry: AnySignerRegistry,
+  signerId: string,
+  signedAt: string
+): KeyResolution {
+  const entry = Object.prototype.hasOwnProperty.call(registry, signerId) ? registry[signerId] : undefined;
+
+  if (!entry) {
+    return {
+      found: false,
+      candidates: [],
+      error: `Signer ${signerId} not found in registry`,
+      errorCode: 'UNKNOWN_SIGNER'
+    };
+  }
+
+  if (typeof entry === 'string') {
+    return { found: true, candidates: [{ publicKey: entry }] };
+  }
+
+  const time = Date.parse(signedAt);
+  if (Number.isNaN(time)) {
+    return {
+      found: true,
+      candidates: [],
+      error: `Invalid timestamp ${signedAt}: cannot select a key for ${signerId}`,
+      errorCode: 'NO_VALID_KEY'
+    };
+  }
+
+  const candidates = keysValidAt(entry, time);
+  if (candidates.length === 0) {
+    return {
+      found: true,
+      candidates,
+      error: `No key for signer ${signerId} valid at ${signedAt}`,
+      errorCode: 'NO_VALID_KEY'
+    };
+  }
+
+  return { found: true, candidates };
+}
+
+/**
+ * Selects the keys of a signer that were valid at the given time
+ */
+function keysValidAt(history: SignerKeyHistory, time: number): CandidateKey[] {
+  return history.keys
+    .filter(key => {
+      const validFrom = key.validFrom ? Date.parse(key.validFrom) : -Infinity;
+      const validUntil = key.validUntil ? Date.parse(key.validUntil) : Infinity;
+      return time >= validFrom && time < validUntil;
+    })
+    .map(key => {
+      const publicKey = key.publicKey ?? key.address ?? '';
+      return {
+        publicKey,
+        scheme: key.scheme ?? DEFAULT_SIGNATURE_SCHEME,
+        revocation: (history.revocations ?? []).find(revocation =>
+          sameKey(revocation.publicKey ?? revocation.address ?? '', publicKey) &&
+          time >= revocationTime(revocation)
+        )
+      };
+    });
+}
+
+/**
+ * Determines from when a revocation applies
+ *
+ * A revocation whose `effectiveAt` cannot be parsed applies from the start,
+ * so that a malformed revocation never leaves its key trusted.
+ */
+function revocationTime(revocation: KeyRevocation): number {
+  const effectiveAt = Date.parse(revocation.effectiveAt);
+  return Number.isNaN(effectiveAt) ? -Infinity : effectiveAt;
+}
+
+/**
+ * Compares two public keys, ignoring case for hex addresses
+ * @param a - A public key or address
+ * @param b - Another public key or address
+ * @returns True if both denote the same key
+ */
+export function sameKey(a: string, b: string): boolean {
+  if (a.startsWith('0x') && b.startsWith('0x')) {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a.trim() === b.trim();
+}
@@ -0,0 +1,332 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  SignedDocument,
+  ChainStep,
+  LogEntry,
+  LogInclusion,
+  LogInclusionRequirement,
+  SignedTreeHead,
+  VerificationError
+} from './types';
+import { calculateExpectedHash, createHash, verifySignature } from './crypto-utils';
+import { canonicalize } from './canonical-json';
+
+// Domain separation of RFC 9162: leaves and interior nodes never hash alike
+const LEAF_PREFIX = Uint8Array.of(0);
+const NODE_PREFIX = Uint8Array.of(1);
+
+const toHex = (bytes: Uint8Array): string => `0x${bytesToHex(bytes)}`;
+const fromHex = (hex: string): Uint8Array => hexToBytes(hex.replace(/^0x/, ''));
+
+/**
+ * Decodes the hashes of an untrusted proof
+ */
+function parseHashes(hashes: string[]): Uint8Array[] | undefined {
+  try {
+    return hashes.map(fromHex);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Calculates the hash of a document's payload and whole chain
+ *
+ * This is the hash the next signer would sign, so it changes with every
+ * step appended to the chain.
+ *
+ * @param document - The signed document
+ * @returns The chain head as a 0x-prefixed hex string
+ */
+export function calculateChainHead(document: SignedDocument<ChainStep>): string {
+  return calculateExpectedHash(document.payload, document.signatures, document.header);
+}
+
+/**
+ * Hashes a log entry into a Merkle tree leaf
+ * @param entry - The log entry
+ * @returns The leaf hash as a 0x-prefixed hex string
+ */
+export function hashLeaf(entry: LogEntry): string {
+  const { documentId, headHash, recordedAt } = entry;
+  return toHex(sha256(concatBytes(LEAF_PREFIX, utf8ToBytes(canonicalize({ documentId, headHash, recordedAt })))));
+}
+
+function hashNode(left: Uint8Array, right: Uint8Array): Uint8Array {
+  return sha256(concatBytes(NODE_PREFIX, left, right));
+}
+
+/**
+ * Largest power of two smaller than n (n > 1)
+ */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+function treeHash(leaves: Uint8Array[]): Uint8Array {
+  if (leaves.length === 0) {
+    return sha256(new Uint8Array(0));
+  }
+  if (leaves.length === 1) {
+    return leaves[0];
+  }
+  const k = splitPoint(leaves.length);
+  return hashNode(treeHash(leaves.slice(0, k)), treeHash(leaves.slice(k)));
+}
+
+function auditPath(index: number, leaves: Uint8Array[]): Uint8Array[] {
+  if (leaves.length <= 1) {
+    return [];
+  }
+  const k = splitPoint(leaves.length);
+  return index < k
+    ? [...auditPath(index, leaves.slice(0, k)), treeHash(leaves.slice(k))]
+    : [...auditPath(index - k, leaves.slice(k)), treeHash(leaves.slice(0, k))];
+}
+
+function subproof(size: number, leaves: Uint8Array[], complete: boolean): Uint8Array[] {
+  if (size === leaves.length) {
+    return complete ? [] : [treeHash(leaves)];
+  }
+  const k = splitPoint(leaves.length);
+  return size <= k
+    ? [...subproof(size, leaves.slice(0, k), complete), treeHash(leaves.slice(k))]
+    : [...subproof(size - k, leaves.slice(k), false), treeHash(leaves.slice(0, k))];
+}
+
+/**
+ * Calculates the Merkle root of a list of leaves (RFC 9162, section 2.1.1)
+ * @param leafHashes - The leaf hashes in log order
+ * @returns The root as a 0x-prefixed hex string
+ */
+export function calculateMerkleRoot(leafHashes: string[]): string {
+  return toHex(treeHash(leafHashes.map(fromHex)));
+}
+
+/**
+ * Builds the audit path of a leaf (RFC 9162, section 2.1.3.1)
+ * @param leafIndex - Position of the leaf
+ * @param leafHashes - The leaf hashes of the tree the path leads through
+ * @returns The sibling hashes from the leaf up to the root
+ */
+export function buildInclusionProof(leafIndex: number, leafHashes: string[]): string[] {
+  if (leafIndex < 0 || leafIndex >= leafHashes.length) {
+    throw new Error(`Leaf ${leafIndex} is not in a tree of size ${leafHashes.length}`);
+  }
+  return auditPath(leafIndex, leafHashes.map(fromHex)).map(toHex);
+}
+
+/**
+ * Builds the proof that a tree extends an earlier tree (RFC 9162, section 2.1.4.1)
+ * @param firstSize - Size of the earlier tree
+ * @param leafHashes - The leaf hashes of the later tree
+ * @returns The consistency proof
+ */
+export function buildConsistencyProof(firstSize: number, leafHashes: string[]): string[] {
+  if (firstSize < 1 || firstSize > leafHashes.length) {
+    throw new Error(`Cannot prove consistency of size ${firstSize} with size ${leafHashes.length}`);
+  }
+  return subproof(firstSize, leafHashes.map(fromHex), true).map(toHex);
+}
+
+/**
+ * Verifies that a leaf is included in a tree (RFC 9162, section 2.1.3.2)
+ * @param leafHash - The leaf hash
+ * @param leafIndex - Position of the leaf
+ * @param treeSize - Size of the tree
+ * @param proof - The audit path
+ * @param rootHash - The tree's root
+ * @returns True if the audit path leads from the leaf to the root
+ */
+export function verifyInclusionProof(
+  leafHash: string,
+  leafIndex: number,
+  treeSize: number,
+  proof: string[],
+  rootHash: string
+): boolean {
+  if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= treeSize) {
+    return false;
+  }
+
+  const path = parseHashes([leafHash, ...proof]);
+  if (!path) {
+    return false;
+  }
+
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+  let r = path[0];
+  for (const p of path.slice(1)) {
+    if (sn === 0) {
+      return false;
+    }
+    if (fn % 2 === 1 || fn === sn) {
+      r = hashNode(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = hashNode(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && toHex(r) === rootHash.toLowerCase();
+}
+
+/**
+ * Verifies that a tree extends an earlier tree without rewriting it (RFC 9162, section 2.1.4.2)
+ * @param firstSize - Size of the earlier tree
+ * @param firstRoot - Root of the earlier tree
+ * @param secondSize - Size of the later tree
+ * @param secondRoot - Root of the later tree
+ * @param proof - The consistency proof
+ * @returns True if the earlier tree is a prefix of the later one
+ */
+export function verifyConsistencyProof(
+  firstSize: number,
+  firstRoot: string,
+  secondSize: number,
+  secondRoot: string,
+  proof: string[]
+): boolean {
+  if (firstSize === secondSize) {
+    return proof.length === 0 && firstRoot.toLowerCase() === secondRoot.toLowerCase();
+  }
+  if (firstSize < 1 || firstSize > secondSize || proof.length === 0) {
+    return false;
+  }
+
+  // A complete earlier tree is its own first subtree, which the proof leaves out
+  const complete = (firstSize & (firstSize - 1)) === 0;
+  const path = parseHashes(complete ? [firstRoot, ...proof] : proof);
+  if (!path) {
+    return false;
+  }
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) {
+      return false;
+    }
+    if (fn % 2 === 1 || fn === sn) {
+      fr = hashNode(c, fr);
+      sr = hashNode(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = hashNode(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && toHex(fr) === firstRoot.toLowerCase() && toHex(sr) === secondRoot.toLowerCase();
+}
+
+/**
+ * Calculates the hash a log signs for a tree head
+ * @param treeHead - The tree head, with or without its signature
+ * @returns The hash as a 0x-prefixed hex string
+ */
+export function calculateTreeHeadHash(treeHead: Omit<SignedTreeHead, 'signature'>): string {
+  const { treeSize, rootHash, timestamp } = treeHead;
+  return createHash(canonicalize({ treeSize, rootHash, timestamp }), 'sha256');
+}
+
+/**
+ * Verifies that a tree head was signed by the log
+ * @param treeHead - The signed tree head
+ * @param logKey - Address of the log's signing key
+ * @returns True if the signature is the log's
+ */
+export function verifyTreeHead(treeHead: SignedTreeHead, logKey: string): boolean {
+  try {
+    return verifySignature(calculateTreeHeadHash(treeHead), treeHead.signature, logKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that a document's chain head is recorded in a transparency log
+ * @param document - The signed document
+ * @param requirement - The log and the key signing its tree heads
+ * @returns The verified inclusion proof, or the reason the document is not provably in the log
+ */
+export function checkLogInclusion(
+  document: SignedDocument<ChainStep>,
+  requirement: LogInclusionRequirement
+): { inclusion?: LogInclusion; error?: VerificationError } {
+  const headHash = calculateChainHead(document);
+  try {
+    return checkInclusion(headHash, requirement);
+  } catch (error) {
+    // A malformed proof or a failing log source is a failed check, not a crash
+    return {
+      error: {
+        code: 'INVALID_LOG_PROOF',
+        message: `Inclusion of chain head ${headHash} could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+        details: { headHash }
+      }
+    };
+  }
+}
+
+/**
+ * Fetches and checks the inclusion proof of a chain head; may throw on malformed proofs
+ */
+function checkInclusion(
+  headHash: string,
+  requirement: LogInclusionRequirement
+): { inclusion?: LogInclusion; error?: VerificationError } {
+  const inclusion = requirement.log.proveInclusion(headHash);
+  if (!inclusion) {
+    return {
+      error: {
+        code: 'NOT_IN_LOG',
+        message: `Chain head ${headHash} is not in the transparency log`,
+        details: { headHash }
+      }
+    };
+  }
+
+  const { entry, leafIndex, auditPath, treeHead } = inclusion;
+  const invalid = (message: string) => ({
+    error: {
+      code: 'INVALID_LOG_PROOF' as const,
+      message,
+      details: { headHash, treeSize: treeHead.treeSize }
+    }
+  });
+
+  if (entry.headHash.toLowerCase() !== headHash) {
+    return invalid(`Log entry ${leafIndex} records chain head ${entry.headHash}, not ${headHash}`);
+  }
+  if (!verifyTreeHead(treeHead, requirement.logKey)) {
+    return invalid(`Tree head of size ${treeHead.treeSize} is not signed by the log key ${requirement.logKey}`);
+  }
+  if (!verifyInclusionProof(hashLeaf(entry), leafIndex, treeHead.treeSize, auditPath, treeHead.rootHash)) {
+    return invalid(`Inclusion proof of log entry ${leafIndex} does not match the tree head of size ${treeHead.treeSize}`);
+  }
+
+  return { inclusion };
+}
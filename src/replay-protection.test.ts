@@ -0,0 +1,180 @@
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { calculateExpectedHash } from './crypto-utils';
+import { parseSignedDocument } from './document-validation';
+import { formatChain } from './report-formatters';
+import { calculateChainHead } from './merkle-log';
+import { createDocumentContext, InMemoryReplayStore } from './replay-protection';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry } from './types';
+
+describe('Replay Protection', () => {
+  const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+  const payload = { documentId: 'PO-2025-004', content: 'Purchase order: 100 units at $25' };
+  const fields = { applicationId: 'procurement', environment: 'production', documentType: 'purchase-order' };
+  let signerRegistry: SignerRegistry;
+  let signer: DocumentSigner;
+
+  const signedCopy = async (): Promise<SignedDocument> => {
+    let document = signer.createDocument(payload, { canonicalization: 'jcs', context: createDocumentContext(fields) });
+    document = await signer.sign(document, 'developer-alice', wallet('developer-alice'));
+    return signer.sign(document, 'qa-bob', wallet('qa-bob'));
+  };
+
+  beforeAll(() => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    signer = new DocumentSigner(signerRegistry);
+  });
+
+  describe('document context', () => {
+    it('should bind the chain to the context', async () => {
+      const first = await signedCopy();
+      const second = await signedCopy();
+
+      expect(first.header!.context!.nonce).toMatch(/^0x[0-9a-f]{32}$/);
+      expect(first.header!.context!.nonce).not.toBe(second.header!.context!.nonce);
+      expect(calculateExpectedHash(first.payload, [], first.header))
+        .not.toBe(calculateExpectedHash(second.payload, [], second.header));
+      expect(traverse(first, signerRegistry).isValid).toBe(true);
+
+      const retargeted = { ...first, header: { ...first.header!, context: { ...first.header!.context!, environment: 'staging' } } };
+      expect(traverse(retargeted, signerRegistry).errorCode).toBe('HASH_MISMATCH');
+    });
+
+    it('should leave documents without a context unchanged', () => {
+      expect(calculateExpectedHash(payload, [], { canonicalization: 'jcs' }))
+        .toBe(calculateExpectedHash(payload, []));
+    });
+
+    it('should reject documents from another context', async () => {
+      const document = await signedCopy();
+
+      expect(traverse(document, signerRegistry, { expectedContext: fields }).isValid).toBe(true);
+
+      const result = traverse(document, signerRegistry, { expectedContext: { environment: 'staging' } });
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('CONTEXT_MISMATCH');
+      expect(result.error).toBe('Document context environment is production, expected staging');
+      expect(result.errorDetails).toEqual({ path: 'header.context.environment' });
+
+      const unbound = await signer.sign(signer.createDocument(payload), 'developer-alice', wallet('developer-alice'));
+      expect(traverse(unbound, signerRegistry, { expectedContext: { applicationId: 'procurement' } }).error)
+        .toBe('Document context applicationId is missing, expected procurement');
+    });
+
+    it('should validate the context', async () => {
+      const document = JSON.parse(JSON.stringify(await signedCopy()));
+      document.header.context.environment = 1;
+
+      expect(() => parseSignedDocument(document))
+        .toThrow('header.context.environment: must be a string');
+    });
+
+    it('should show the context in the chain', async () => {
+      expect(formatChain(await signedCopy()))
+        .toContain('Context:          applicationId=procurement, environment=production, documentType=purchase-order, nonce=0x');
+    });
+  });
+
+  describe('replay store', () => {
+    it('should accept a document once and then its extensions', async () => {
+      const store = new InMemoryReplayStore();
+      const document = await signedCopy();
+      const extended = await signer.sign(document, 'manager-charlie', wallet('manager-charlie'));
+
+      expect(traverse(document, signerRegistry, { replayStore: store }).isValid).toBe(true);
+      expect(traverse(extended, signerRegistry, { replayStore: store }).isValid).toBe(true);
+      expect(store.findAccepted(payload.documentId, document.header!.context!.nonce!))
+        .toEqual({ documentId: payload.documentId, nonce: document.header!.context!.nonce, length: 3, headHash: calculateChainHead(extended) });
+      expect(store.size).toBe(1);
+    });
+
+    it('should flag a document presented again', async () => {
+      const store = new InMemoryReplayStore();
+      const document = await signedCopy();
+      traverse(document, signerRegistry, { replayStore: store });
+
+      const result = traverse(document, signerRegistry, { replayStore: store });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('REPLAYED_DOCUMENT');
+      expect(result.error).toBe('Document PO-2025-004 was already accepted with 2 steps');
+      expect(result.errorDetails).toEqual({ acceptedLength: 2, headHash: calculateChainHead(document) });
+      expect(result.signatureResults.every(r => r.isValid)).toBe(true);
+    });
+
+    it('should flag a rolled back version, such as one without a later withdrawal', async () => {
+      const store = new InMemoryReplayStore();
+      const document = await signedCopy();
+      const withdrawn = await signer.withdraw(document, 'qa-bob', wallet('qa-bob'), 1);
+      expect(traverse(withdrawn, signerRegistry, { replayStore: store }).isValid).toBe(true);
+
+      expect(traverse(document, signerRegistry, { replayStore: store }).errorCode).toBe('REPLAYED_DOCUMENT');
+    });
+
+    it('should flag a version that forks from the accepted chain', async () => {
+      const store = new InMemoryReplayStore();
+      const document = await signedCopy();
+      const approved = await signer.sign(document, 'manager-charlie', wallet('manager-charlie'));
+      expect(traverse(approved, signerRegistry, { replayStore: store }).isValid).toBe(true);
+
+      const withdrawn = await signer.withdraw(document, 'qa-bob', wallet('qa-bob'), 1);
+      const forked = await signer.sign(withdrawn, 'manager-charlie', wallet('manager-charlie'));
+
+      expect(traverse(forked, signerRegistry, { replayStore: store }).errorCode).toBe('REPLAYED_DOCUMENT');
+    });
+
+    it('should leave signatures replayed between documents to the chain hash', async () => {
+      const store = new InMemoryReplayStore();
+      const first = await signedCopy();
+      const second = await signedCopy();
+      expect(traverse(first, signerRegistry, { replayStore: store }).isValid).toBe(true);
+
+      const replayed = { ...second, signatures: [first.signatures[0], ...second.signatures.slice(1)] };
+      const result = traverse(replayed, signerRegistry, { replayStore: store });
+
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0]).toMatchObject({ isValid: false, errorCode: 'HASH_MISMATCH' });
+      expect(traverse(second, signerRegistry, { replayStore: store }).isValid).toBe(true);
+    });
+
+    it('should require a context nonce', async () => {
+      // Without a nonce, documents with the same payload have interchangeable signatures
+      const unbound = () => signer.sign(signer.createDocument(payload), 'developer-alice', wallet('developer-alice'));
+      const [first, second] = [await unbound(), await unbound()];
+      expect(first.signatures[0].signature).toBe(second.signatures[0].signature);
+
+      const result = traverse(second, signerRegistry, { replayStore: new InMemoryReplayStore() });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('CONTEXT_MISMATCH');
+      expect(result.error).toBe('Replay protection requires a document context with a nonce');
+      expect(result.errorDetails).toEqual({ path: 'header.context.nonce' });
+    });
+
+    it('should record only documents that pass every check', async () => {
+      const store = new InMemoryReplayStore();
+      const document = await signedCopy();
+
+      const result = traverse(document, signerRegistry, { replayStore: store, policy: { requiredSigners: ['legal-dave'] } });
+
+      expect(result.errorCode).toBe('POLICY_VIOLATION');
+      expect(store.size).toBe(0);
+      expect(traverse(document, signerRegistry, { replayStore: store }).isValid).toBe(true);
+    });
+
+    it('should forget the document accepted longest ago when full', () => {
+      const store = new InMemoryReplayStore(2);
+      const accept = (documentId: string) => store.recordAccepted({ documentId, nonce: '0xAB', length: 1, headHash: '0x01' });
+      accept('PO-1');
+      accept('PO-2');
+      accept('PO-1');
+      accept('PO-3');
+
+      expect(store.size).toBe(2);
+      expect(store.findAccepted('PO-1', '0xab')).toBeDefined();
+      expect(store.findAccepted('PO-2', '0xab')).toBeUndefined();
+      expect(() => new InMemoryReplayStore(0)).toThrow('maxDocuments must be a positive integer, got 0');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+import { DocumentContext, SignedDocument, ChainStep, DocumentAcceptance, ReplayStore, VerificationError } from './types';
+import { ChainHasher } from './chain-hasher';
+
+const CONTEXT_FIELDS: (keyof Omit<DocumentContext, 'nonce'>)[] = ['applicationId', 'environment', 'documentType'];
+
+/**
+ * Creates the context of a new document, with a fresh random nonce
+ * @param fields - Application, environment and document type
+ * @returns The context, to be used as `header.context`
+ */
+export function createDocumentContext(fields: Omit<DocumentContext, 'nonce'>): DocumentContext {
+  return { ...fields, nonce: ethers.hexlify(ethers.randomBytes(16)) };
+}
+
+/**
+ * Checks a document's context against the context a verifier expects
+ * @param context - The context in the document's header
+ * @param expected - The fields the context must carry with these values
+ * @param requireNonce - Whether the context must carry a nonce, as replay checks need one
+ * @returns The mismatch, or undefined if the context is as expected
+ */
+export function checkContext(
+  context: DocumentContext | undefined,
+  expected: Omit<DocumentContext, 'nonce'> | undefined,
+  requireNonce = false
+): VerificationError | undefined {
+  if (requireNonce && !context?.nonce) {
+    return {
+      code: 'CONTEXT_MISMATCH',
+      message: 'Replay protection requires a document context with a nonce',
+      details: { path: 'header.context.nonce' }
+    };
+  }
+
+  for (const field of CONTEXT_FIELDS) {
+    if (expected?.[field] !== undefined && context?.[field] !== expected[field]) {
+      return {
+        code: 'CONTEXT_MISMATCH',
+        message: `Document context ${field} is ${context?.[field] ?? 'missing'}, expected ${expected[field]}`,
+        details: { path: `header.context.${field}` }
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a verified document was not accepted before, and records it as accepted
+ *
+ * The chain hash binds every signature to its document, so replayed signatures
+ * fail as hash mismatches; what the hash cannot tell is whether this verifier
+ * has seen the document before. Presenting an accepted version again, or a
+ * shorter one that rolls back later steps such as a withdrawal, is a replay.
+ * A version that extends the accepted chain replaces it.
+ *
+ * @param store - The replay store
+ * @param document - The verified document; its header must carry a context nonce
+ * @returns The replay, or undefined if the document was accepted
+ */
+export function checkReplay(store: ReplayStore, document: SignedDocument<ChainStep>): VerificationError | undefined {
+  const documentId = document.payload.documentId;
+  const nonce = document.header!.context!.nonce!;
+  const hasher = new ChainHasher(document.payload, document.header);
+  const steps = document.signatures;
+
+  const earlier = store.findAccepted(documentId, nonce);
+  if (earlier) {
+    steps.slice(0, earlier.length).forEach(step => hasher.append(step));
+    if (steps.length <= earlier.length || hasher.currentHash() !== earlier.headHash) {
+      return {
+        code: 'REPLAYED_DOCUMENT',
+        message: `Document ${documentId} was already accepted with ${earlier.length} steps`,
+        details: { acceptedLength: earlier.length, headHash: earlier.headHash }
+      };
+    }
+  }
+
+  steps.slice(earlier?.length ?? 0).forEach(step => hasher.append(step));
+  store.recordAccepted({ documentId, nonce, length: steps.length, headHash: hasher.currentHash() });
+  return undefined;
+}
+
+/**
+ * Replay store keeping the latest accepted version of each document in memory
+ *
+ * A document is identified by its ID and context nonce. Once the store is
+ * full, the document accepted longest ago is forgotten and could be
+ * presented again; size the store for the documents expected within the
+ * time a replay matters, or use a persistent store.
+ */
+export class InMemoryReplayStore implements ReplayStore {
+  private readonly accepted = new Map<string, DocumentAcceptance>();
+
+  /**
+   * @param maxDocuments - Number of documents remembered (defaults to 10000)
+   */
+  constructor(private readonly maxDocuments = 10000) {
+    if (!Number.isInteger(maxDocuments) || maxDocuments < 1) {
+      throw new Error(`maxDocuments must be a positive integer, got ${maxDocuments}`);
+    }
+  }
+
+  /**
+   * Number of documents remembered
+   */
+  get size(): number {
+    return this.accepted.size;
+  }
+
+  findAccepted(documentId: string, nonce: string): DocumentAcceptance | undefined {
+    return this.accepted.get(acceptanceKey(documentId, nonce));
+  }
+
+  recordAccepted(acceptance: DocumentAcceptance): void {
+    const key = acceptanceKey(acceptance.documentId, acceptance.nonce);
+    // Re-inserting moves the document to the end of the eviction order
+    this.accepted.delete(key);
+    this.accepted.set(key, { ...acceptance });
+    if (this.accepted.size > this.maxDocuments) {
+      this.accepted.delete(this.accepted.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Key of a document in the in-memory store
+ */
+function acceptanceKey(documentId: string, nonce: string): string {
+  return `${documentId}\u0000${nonce.toLowerCase()}`;
+}
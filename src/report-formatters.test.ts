@@ -0,0 +1,149 @@
+import { formatVerificationText, formatVerificationJunit, formatChain } from './report-formatters';
+import { traverse } from './traversal';
+import { DocumentSigner } from './document-signer';
+import { createContentReference } from './content-references';
+import { testDataGenerator } from './test-data-generator';
+import { ChainStep, SignedDocument, SignerRegistry, VerificationResult } from './types';
+
+describe('Report Formatters', () => {
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    document = await testDataGenerator.generateValidDocument();
+  });
+
+  const failed: VerificationResult = {
+    isValid: false,
+    error: 'Signature <1> & "2" failed',
+    signatureResults: [
+      { signerId: 'developer-alice', isValid: true, hashChainValid: true, signatureValid: true },
+      { signerId: "qa-bob's", isValid: false, hashChainValid: true, signatureValid: false, error: 'Bad signature' }
+    ]
+  };
+
+  describe('formatVerificationText', () => {
+    it('should list signature errors and policy violations', () => {
+      const text = formatVerificationText({
+        ...failed,
+        policyViolations: [{ rule: 'requiredSigner', message: 'Missing required signer: manager-charlie' }]
+      });
+
+      expect(text).toContain('❌ INVALID - Document verification failed');
+      expect(text).toContain('   Error: Signature <1> & "2" failed\n');
+      expect(text).toContain("  2. ❌ qa-bob's\n     └─ ERROR: Bad signature");
+      expect(text).toContain('  Policy (requiredSigner): Missing required signer: manager-charlie');
+    });
+
+    it('should show the effective state of chains with withdrawals', async () => {
+      const signer = new DocumentSigner(signerRegistry);
+      const withdrawn = await signer.withdraw(document, 'qa-bob', testDataGenerator.getWallet('qa-bob')!, 1, 'Quantity disputed');
+
+      const text = formatVerificationText(traverse(withdrawn, signerRegistry));
+      expect(text).toContain('Effective state: payload version 0');
+      expect(text).toContain('  #0 developer-alice: approved version 0, in force');
+      expect(text).toContain('  #1 qa-bob: approved version 0, withdrawn at #3');
+
+      const chain = formatChain(withdrawn);
+      expect(chain).toContain('#3 withdrawal of #1 by qa-bob\n   Reason:      Quantity disputed');
+      expect(chain).not.toContain('❌');
+    });
+
+    it('should label co-signature failures without an error code', () => {
+      const text = formatVerificationText({
+        isValid: false,
+        signatureResults: [{
+          signerId: 'qa-bob + manager-charlie',
+          isValid: false,
+          hashChainValid: true,
+          signatureValid: false,
+          cosignerResults: [{ signerId: 'manager-charlie', isValid: false, hashChainValid: true, signatureValid: false, error: 'Bad signature' }]
+        }]
+      });
+
+      expect(text).toContain('     ❌ manager-charlie (ERROR: Bad signature)');
+    });
+
+    it('should omit the signature list when there are no signatures', () => {
+      expect(formatVerificationText({ isValid: false, error: 'Document has no signatures', signatureResults: [] }))
+        .toBe('❌ INVALID - Document verification failed\n   Error: Document has no signatures\n');
+    });
+  });
+
+  describe('formatVerificationJunit', () => {
+    it('should escape names and messages', () => {
+      const xml = formatVerificationJunit(failed, 'PO <1>');
+
+      expect(xml).toContain('<testsuite name="PO &lt;1&gt;" tests="3" failures="2">');
+      expect(xml).toContain('name="signature 1: qa-bob&apos;s"');
+      expect(xml).toContain('<failure type="ERROR" message="Bad signature"/>');
+      expect(xml).toContain('<failure type="ERROR" message="Signature &lt;1&gt; &amp; &quot;2&quot; failed"/>');
+    });
+
+    it('should use error codes as failure types', () => {
+      const xml = formatVerificationJunit({
+        ...failed,
+        errorCode: 'BAD_SIGNATURE',
+        signatureResults: [{ ...failed.signatureResults[1], errorCode: 'BAD_SIGNATURE' }]
+      }, 'PO-1');
+
+      expect(xml.match(/<failure type="BAD_SIGNATURE"/g)).toHaveLength(2);
+    });
+
+    it('should report failures without a message', () => {
+      const xml = formatVerificationJunit({ ...failed, error: undefined, signatureResults: [] }, 'PO-1');
+
+      expect(xml).toContain('<failure type="ERROR" message="Verification failed"/>');
+    });
+  });
+
+  describe('formatChain', () => {
+    it('should describe documents without a payload', () => {
+      const text = formatChain({ signatures: document.signatures } as any);
+
+      expect(text).toContain('Document (no payload)');
+      expect(text).toContain('❌ expected (cannot be computed)');
+    });
+
+    it('should describe documents without a signature list', () => {
+      expect(formatChain({ payload: document.payload } as SignedDocument)).toContain('Signatures:       0');
+    });
+
+    it('should describe referenced content', () => {
+      const content = createContentReference(new TextEncoder().encode('order'), 'text/plain', {
+        algorithm: 'sha512',
+        uri: 'https://example.com/po.txt'
+      });
+      const text = formatChain({ header: { canonicalization: 'jcs' }, payload: { documentId: 'PO-1', content }, signatures: [] });
+
+      expect(text).toContain(`Content:          text/plain, 5 bytes, sha512 ${content.digest} (https://example.com/po.txt)`);
+    });
+
+    it('should show each co-signature of a co-signed step', async () => {
+      const signer = new DocumentSigner(signerRegistry);
+      let coSigned: SignedDocument<ChainStep> = signer.openCoSignedStep(signer.createDocument(document.payload), 2);
+      coSigned = await signer.coSign(coSigned, 'qa-bob', testDataGenerator.getWallet('qa-bob')!);
+      const { 'manager-charlie': _, ...withoutCharlie } = signerRegistry;
+      coSigned = await signer.coSign(coSigned, 'manager-charlie', testDataGenerator.getWallet('manager-charlie')!);
+      const result = traverse(coSigned, withoutCharlie);
+
+      const chain = formatChain(coSigned, result);
+      expect(chain).toContain('#0 co-signed step (2 of 2)');
+      expect(chain).toContain('   qa-bob\n');
+      expect(chain).toContain('     Verified:    ❌ Signer manager-charlie not found in registry');
+      expect(chain).toContain('✅ intact');
+
+      const text = formatVerificationText(result);
+      expect(text).toContain('     ✅ qa-bob');
+      expect(text).toContain('     ❌ manager-charlie (UNKNOWN_SIGNER: Signer manager-charlie not found in registry)');
+    });
+
+    it('should show failed verifications of each link', () => {
+      const { 'qa-bob': _, ...withoutBob } = signerRegistry;
+      const text = formatChain(document, traverse(document, withoutBob));
+
+      expect(text).toContain('Verified:    ❌ Signer qa-bob not found in registry');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { SignedDocument, ChainStep, Signature, VerificationResult } from './types';
+import { calculateExpectedHashes } from './chain-hasher';
+import {
+  DEFAULT_HASH_ALGORITHM,
+  isCoSignedStep,
+  isWithdrawalStep,
+  isAmendmentStep,
+  calculateStepHash
+} from './crypto-utils';
+import { isContentReference, DEFAULT_CONTENT_ALGORITHM } from './content-references';
+import { DEFAULT_SIGNATURE_SCHEME } from './signature-schemes';
+import { checkHeader } from './traversal';
+
+/**
+ * Formats a verification result for a terminal
+ * @param result - The verification result
+ * @returns Human readable report
+ */
+export function formatVerificationText(result: VerificationResult): string {
+  const lines: string[] = [];
+
+  if (result.isValid) {
+    lines.push(result.contentVerified === false
+      ? '✅ VALID (chain only) - Document verification passed; referenced content was not checked'
+      : '✅ VALID - Document verification passed');
+  } else {
+    lines.push('❌ INVALID - Document verification failed');
+    lines.push(`   Error: ${result.error}${result.errorCode ? ` [${result.errorCode}]` : ''}`);
+  }
+
+  if (result.signatureResults.length > 0) {
+    lines.push('', 'Signatures:');
+  }
+  result.signatureResults.forEach((sigResult, index) => {
+    lines.push(`  ${index + 1}. ${sigResult.isValid ? '✅' : '❌'} ${sigResult.signerId}`);
+    if (!sigResult.isValid && sigResult.error) {
+      lines.push(`     └─ ${sigResult.errorCode ?? 'ERROR'}: ${sigResult.error}`);
+    }
+    for (const cosigner of sigResult.cosignerResults ?? []) {
+      lines.push(`     ${cosigner.isValid ? '✅' : '❌'} ${cosigner.signerId}` +
+        (cosigner.isValid ? '' : ` (${cosigner.errorCode ?? 'ERROR'}: ${cosigner.error})`));
+    }
+  });
+
+  for (const violation of result.policyViolations ?? []) {
+    lines.push(`  Policy (${violation.rule}): ${violation.message}`);
+  }
+
+  // Only chains with amendments or withdrawals have a state worth showing
+  const state = result.effectiveState;
+  if (state && (state.payloadVersion > 0 || state.approvals.some(approval => approval.withdrawnAt !== undefined))) {
+    lines.push('', `Effective state: payload version ${state.payloadVersion}`);
+    for (const approval of state.approvals) {
+      const status = approval.withdrawnAt !== undefined
+        ? `withdrawn at #${approval.withdrawnAt}`
+        : approval.payloadVersion === state.payloadVersion ? 'in force' : 'superseded by amendment';
+      lines.push(`  #${approval.index} ${approval.signerId}: approved version ${approval.payloadVersion}, ${status}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a verification result as a JUnit XML report
+ *
+ * Each signature becomes a test case, plus one case for the document as a
+ * whole, so CI systems show exactly which link of the chain failed.
+ *
+ * @param result - The verification result
+ * @param suiteName - Name of the test suite, e.g. the document ID or file name
+ * @returns JUnit XML
+ */
+export function formatVerificationJunit(result: VerificationResult, suiteName: string): string {
+  const cases = result.signatureResults.map((sigResult, index) => ({
+    name: `signature ${index}: ${sigResult.signerId}`,
+    failure: sigResult.isValid
+      ? undefined
+      : { type: sigResult.errorCode ?? 'ERROR', message: sigResult.error ?? 'Verification failed' }
+  }));
+  cases.push({
+    name: 'document',
+    failure: result.isValid
+      ? undefined
+      : { type: result.errorCode ?? 'ERROR', message: result.error ?? 'Verification failed' }
+  });
+
+  const failures = cases.filter(testCase => testCase.failure).length;
+  const suite = escapeXml(suiteName);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="signature-traversal" tests="${cases.length}" failures="${failures}">`,
+    `  <testsuite name="${suite}" tests="${cases.length}" failures="${failures}">`
+  ];
+
+  for (const testCase of cases) {
+    const name = escapeXml(testCase.name);
+    if (testCase.failure) {
+      lines.push(
+        `    <testcase classname="${suite}" name="${name}">`,
+        `      <failure type="${escapeXml(testCase.failure.type)}" message="${escapeXml(testCase.failure.message)}"/>`,
+        '    </testcase>'
+      );
+    } else {
+      lines.push(`    <testcase classname="${suite}" name="${name}"/>`);
+    }
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a document's chain for a terminal, checking each link's hash
+ * @param document - The document to describe
+ * @param result - Verification result to include, if the signers were verified
+ * @returns Human readable description of the chain
+ */
+export function formatChain(document: SignedDocument<ChainStep>, result?: VerificationResult): string {
+  const header = document.header ?? {};
+  const signatures = document.signatures ?? [];
+  const lines = [
+    `Document ${document.payload?.documentId ?? '(no payload)'}`,
+    `  Canonicalization: ${header.canonicalization ?? 'legacy'}`,
+    `  Hash algorithm:   ${header.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM}`,
+    `  Signatures:       ${signatures.length}`
+  ];
+
+  if (header.context) {
+    lines.splice(3, 0, `  Context:          ${Object.entries(header.context).map(([field, value]) => `${field}=${value}`).join(', ')}`);
+  }
+
+  const content = document.payload?.content;
+  if (content && isContentReference(content)) {
+    lines.splice(1, 0, `  Content:          ${content.mediaType}, ${content.size} bytes, ` +
+      `${content.algorithm ?? DEFAULT_CONTENT_ALGORITHM} ${content.digest}${content.uri ? ` (${content.uri})` : ''}`);
+  } else if (content && typeof content === 'object' && content.type === 'encrypted') {
+    lines.splice(1, 0, `  Content:          ${content.algorithm}, encrypted for ` +
+      `${content.recipients.map(recipient => recipient.recipientId).join(', ')}`);
+  }
+
+  // Hashes can only be recomputed for documents with a payload in a supported format
+  const expectedHashes = document.payload && !checkHeader(header, {})
+    ? calculateExpectedHashes(document.payload, signatures, header)
+    : [];
+
+  signatures.forEach((step, index) => {
+    const expectedHash = expectedHashes[index] && calculateStepHash(expectedHashes[index], step, header);
+    const hashMatches = expectedHash === step.signedHash;
+    const sigResult = result?.signatureResults[index];
+
+    if (isWithdrawalStep(step) || isAmendmentStep(step)) {
+      const action = isWithdrawalStep(step) ? `withdrawal of #${step.withdraws}` : 'amendment';
+      lines.push('', `#${index} ${action} by ${step.signerId}`);
+      if (step.reason) {
+        lines.push(`   Reason:      ${step.reason}`);
+      }
+      lines.push(...describeSignature(step, '   '), `   Signed hash: ${step.signedHash}`);
+    } else if (isCoSignedStep(step)) {
+      lines.push('', `#${index} co-signed step (${step.threshold} of ${step.signatures.length})`);
+      step.signatures.forEach((signature, cosignerIndex) => {
+        const cosignerResult = sigResult?.cosignerResults?.[cosignerIndex];
+        lines.push(`   ${signature.signerId}`, ...describeSignature(signature, '     '));
+        if (cosignerResult) {
+          lines.push(`     Verified:    ${cosignerResult.isValid ? '✅' : `❌ ${cosignerResult.error}`}`);
+        }
+      });
+      lines.push(`   Signed hash: ${step.signedHash}`);
+    } else {
+      lines.push('', `#${index} ${step.signerId}`, ...describeSignature(step, '   '), `   Signed hash: ${step.signedHash}`);
+    }
+
+    lines.push(`   Hash chain:  ${hashMatches ? '✅ intact' : `❌ expected ${expectedHash ?? '(cannot be computed)'}`}`);
+    if (sigResult) {
+      lines.push(`   Verified:    ${sigResult.isValid ? '✅' : `❌ ${sigResult.error}`}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Describes when and how a signature was made
+ */
+function describeSignature(signature: Signature, indent: string): string[] {
+  return [
+    `${indent}Signed at:   ${signature.signedAt}`,
+    `${indent}Scheme:      ${signature.scheme ?? DEFAULT_SIGNATURE_SCHEME}`
+  ];
+}
+
+/**
+ * Escapes text for use in XML attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,236 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { createVerificationServer, loadRegistries, serverOptionsFromEnv, ServerOptions } from './server';
+import { traverse } from './traversal';
+import { calculateExpectedHash } from './crypto-utils';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry } from './types';
+
+describe('Verification Server', () => {
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+  let server: Server | undefined;
+  let baseUrl: string;
+
+  /**
+   * Starts a server on a free port
+   */
+  async function start(options: ServerOptions): Promise<void> {
+    const started = createVerificationServer(options);
+    await new Promise<void>(resolve => started.listen(0, '127.0.0.1', resolve));
+    server = started;
+    baseUrl = `http://127.0.0.1:${(started.address() as AddressInfo).port}`;
+  }
+
+  async function json(response: Promise<Response> | Response): Promise<any> {
+    return (await response).json();
+  }
+
+  function post(route: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    });
+  }
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    document = await testDataGenerator.generateValidDocument();
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  describe('with a single registry', () => {
+    beforeEach(async () => {
+      await start({ registries: { team: signerRegistry }, maxBodyBytes: 4096 });
+    });
+
+    it('should report health and the configured registries', async () => {
+      const response = await fetch(`${baseUrl}/health`);
+
+      expect(response.status).toBe(200);
+      expect(await json(response)).toEqual({ status: 'ok', registries: ['team'] });
+    });
+
+    it('should verify documents against the default registry', async () => {
+      const response = await post('/verify', { document });
+
+      expect(response.status).toBe(200);
+      expect(await json(response)).toEqual(traverse(document, signerRegistry));
+    });
+
+    it('should return invalid results with status 200', async () => {
+      const tampered = await testDataGenerator.generateDocumentWithTamperedPayload();
+      const body = await json(post('/verify', { document: tampered, registry: 'team' }));
+
+      expect(body.isValid).toBe(false);
+      expect(body.errorCode).toBe('HASH_MISMATCH');
+    });
+
+    it('should return the hash for the next signer', async () => {
+      const partial = { payload: document.payload, signatures: document.signatures.slice(0, 2) };
+      const body = await json(post('/hash', { document: partial }));
+
+      expect(body).toEqual({
+        hash: calculateExpectedHash(document.payload, partial.signatures),
+        position: 2,
+        hashAlgorithm: 'keccak256'
+      });
+      expect(body.hash).toBe(document.signatures[2].signedHash);
+    });
+
+    it('should hash documents without signatures', async () => {
+      const body = await json(post('/hash', { document: { payload: document.payload } }));
+      expect(body.hash).toBe(document.signatures[0].signedHash);
+    });
+
+    it('should reject documents whose hash cannot be computed', async () => {
+      const response = await post('/hash', { document: { header: { hashAlgorithm: 'md5' }, payload: document.payload } });
+
+      expect(response.status).toBe(400);
+      expect((await json(response)).error).toBe('Unsupported hash algorithm: md5');
+    });
+
+    it('should reject malformed documents with the problems found', async () => {
+      const response = await post('/verify', {
+        document: { payload: { documentId: 42 }, signatures: [{ signerId: 'qa-bob' }] }
+      });
+      const body = await json(response);
+
+      expect(response.status).toBe(400);
+      expect(body.details).toEqual(expect.arrayContaining([
+        'document.payload.documentId: must be a string',
+        'document.signatures[0].signedHash: is required'
+      ]));
+    });
+
+    it('should reject bodies that are not JSON objects', async () => {
+      expect((await post('/verify', '{"document":')).status).toBe(400);
+      expect((await post('/verify', '[]')).status).toBe(400);
+      expect((await post('/verify', { document }, { 'Content-Type': 'text/plain' })).status).toBe(415);
+    });
+
+    it('should reject oversized bodies', async () => {
+      const response = await post('/verify', { document, padding: 'x'.repeat(8192) });
+
+      expect(response.status).toBe(413);
+      expect((await json(response)).error).toBe('Request body exceeds 4096 bytes');
+    });
+
+    it('should reject oversized bodies sent without a length', async () => {
+      const body = new Blob([JSON.stringify({ document, padding: 'x'.repeat(8192) })]).stream();
+      const response = await fetch(`${baseUrl}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        duplex: 'half'
+      } as RequestInit);
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should reject registry names that are not strings', async () => {
+      const response = await post('/verify', { document, registry: 42 });
+
+      expect(response.status).toBe(400);
+      expect((await json(response)).details).toEqual(['registry must be a string']);
+    });
+
+    it('should reject unknown registries, routes and methods', async () => {
+      expect((await post('/verify', { document, registry: 'other' })).status).toBe(404);
+      expect((await post('/verify', { document, registry: 'constructor' })).status).toBe(404);
+      expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+      expect((await fetch(`${baseUrl}/verify`)).status).toBe(405);
+    });
+  });
+
+  describe('with several registries', () => {
+    beforeEach(async () => {
+      await start({ registries: { team: signerRegistry, empty: {} }, basePath: '/api' });
+    });
+
+    it('should require a registry name', async () => {
+      const response = await post('/api/verify', { document });
+
+      expect(response.status).toBe(400);
+      expect((await json(response)).details).toEqual(['registry is required']);
+    });
+
+    it('should verify against the named registry', async () => {
+      expect((await json(post('/api/verify', { document, registry: 'team' }))).isValid).toBe(true);
+      expect((await json(post('/api/verify', { document, registry: 'empty' }))).errorCode).toBe('UNKNOWN_SIGNER');
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should apply the configured request and headers timeouts', () => {
+      const configured = createVerificationServer({ registries: {}, requestTimeoutMs: 5000, headersTimeoutMs: 2000 });
+      const defaults = createVerificationServer({ registries: {} });
+
+      expect([configured.requestTimeout, configured.headersTimeout]).toEqual([5000, 2000]);
+      expect([defaults.requestTimeout, defaults.headersTimeout]).toEqual([30000, 10000]);
+    });
+  });
+
+  describe('serverOptionsFromEnv', () => {
+    it('should read limits, timeouts and names from the environment', () => {
+      expect(serverOptionsFromEnv({
+        REGISTRIES_JSON: '{"team":{}}',
+        DEFAULT_REGISTRY: 'team',
+        MAX_BODY_BYTES: '4096',
+        REQUEST_TIMEOUT_MS: '5000',
+        HEADERS_TIMEOUT_MS: '2000',
+        BASE_PATH: '/api'
+      })).toEqual({
+        registries: { team: {} },
+        defaultRegistry: 'team',
+        maxBodyBytes: 4096,
+        requestTimeoutMs: 5000,
+        headersTimeoutMs: 2000,
+        basePath: '/api'
+      });
+    });
+
+    it('should leave unset or empty settings to the defaults', () => {
+      expect(serverOptionsFromEnv({ MAX_BODY_BYTES: '' })).toEqual({ registries: {} });
+    });
+
+    it.each(['abc', '0', '-1', '1.5', '1e6', '99999999999999999999'])(
+      'should refuse to start with MAX_BODY_BYTES=%s',
+      value => {
+        expect(() => serverOptionsFromEnv({ MAX_BODY_BYTES: value }))
+          .toThrow(`MAX_BODY_BYTES must be a positive integer, got: ${value}`);
+      }
+    );
+
+    it('should refuse to start with an invalid timeout', () => {
+      expect(() => serverOptionsFromEnv({ HEADERS_TIMEOUT_MS: 'soon' }))
+        .toThrow('HEADERS_TIMEOUT_MS must be a positive integer, got: soon');
+    });
+  });
+
+  describe('loadRegistries', () => {
+    it('should load registries from a directory and from JSON', () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'sst-registries-'));
+      try {
+        writeFileSync(path.join(dir, 'team.json'), JSON.stringify(signerRegistry));
+        writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+        const registries = loadRegistries({ REGISTRY_DIR: dir, REGISTRIES_JSON: '{"extra":{"qa-bob":"0xabc"}}' });
+        expect(registries).toEqual({ team: signerRegistry, extra: { 'qa-bob': '0xabc' } });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+});
@@ -0,0 +1,328 @@
+/**
+ * HTTP verification service built on Node's http module
+ *
+ * Endpoints:
+ * - `POST /verify`: verifies `{ document, registry? }` against a configured registry
+ * - `POST /hash`: returns the hash the next signer of `{ document }` must sign
+ * - `GET /health`: liveness check listing the configured registries
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from 'http';
+import { readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { traverse } from './traversal';
+import { calculateExpectedHash, DEFAULT_HASH_ALGORITHM } from './crypto-utils';
+import { validateSignedDocument, formatValidationIssue } from './document-validation';
+import { parseStrictJson } from './strict-json';
+import { AnySignerRegistry, SignedDocument, ChainStep, TraversalOptions } from './types';
+
+/**
+ * Options for the verification service
+ */
+export interface ServerOptions {
+  /** Signer registries by name; requests select one with `registry` */
+  registries: Record<string, AnySignerRegistry>;
+  /** Registry used when a request names none (defaults to the only registry, if there is one) */
+  defaultRegistry?: string;
+  /** Largest accepted request body (defaults to 1 MiB) */
+  maxBodyBytes?: number;
+  /** Time allowed to receive a whole request, in milliseconds (defaults to 30 seconds) */
+  requestTimeoutMs?: number;
+  /** Time allowed to receive the request headers, in milliseconds (defaults to 10 seconds) */
+  headersTimeoutMs?: number;
+  /** Options passed to traverse() for every verification */
+  traversalOptions?: TraversalOptions;
+  /** Path prefix stripped from request URLs, e.g. `/api` */
+  basePath?: string;
+}
+
+/**
+ * A request failure reported to the client as a JSON error
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details?: string[]) {
+    super(message);
+  }
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+const DEFAULT_HEADERS_TIMEOUT_MS = 10_000;
+
+/**
+ * Creates a request handler for the verification service
+ *
+ * The handler can be mounted in an existing server or used as a serverless function.
+ *
+ * @param options - Registries and limits
+ * @returns The request handler
+ */
+export function createRequestHandler(
+  options: ServerOptions
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  const registryNames = Object.keys(options.registries);
+  const defaultRegistry = options.defaultRegistry ?? (registryNames.length === 1 ? registryNames[0] : undefined);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (request, response) => {
+    try {
+      const route = routeOf(request.url ?? '/', options.basePath);
+
+      if (route === '/health') {
+        requireMethod(request, 'GET');
+        return sendJson(response, 200, { status: 'ok', registries: registryNames });
+      }
+
+      if (route === '/verify') {
+        requireMethod(request, 'POST');
+        const body = await readJsonBody(request, maxBodyBytes);
+        const document = validateDocument(body.document, options.traversalOptions);
+        const registryName = body.registry ?? defaultRegistry;
+
+        if (registryName !== undefined && typeof registryName !== 'string') {
+          throw new HttpError(400, 'Invalid request', ['registry must be a string']);
+        }
+        if (!registryName) {
+          throw new HttpError(400, 'Invalid request', ['registry is required']);
+        }
+        if (!Object.prototype.hasOwnProperty.call(options.registries, registryName)) {
+          throw new HttpError(404, `Unknown registry: ${registryName}`);
+        }
+
+        return sendJson(response, 200, traverse(document, options.registries[registryName], options.traversalOptions));
+      }
+
+      if (route === '/hash') {
+        requireMethod(request, 'POST');
+        const body = await readJsonBody(request, maxBodyBytes);
+        // A document without signatures is the start of a chain
+        const document = validateDocument(
+          isObject(body.document) && body.document.signatures === undefined
+            ? { ...body.document, signatures: [] }
+            : body.document,
+          options.traversalOptions
+        );
+        const signatures = document.signatures;
+
+        let hash: string;
+        try {
+          hash = calculateExpectedHash(document.payload, signatures, document.header);
+        } catch (error) {
+          throw new HttpError(400, (error as Error).message);
+        }
+
+        return sendJson(response, 200, {
+          hash,
+          position: signatures.length,
+          hashAlgorithm: document.header?.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM
+        });
+      }
+
+      throw new HttpError(404, 'Not found');
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message, ...(error.details ? { details: error.details } : {}) });
+      } else {
+        sendJson(response, 500, { error: 'Internal server error' });
+      }
+    }
+  };
+}
+
+/**
+ * Creates an HTTP server for the verification service
+ *
+ * Slow clients are cut off after the request and headers timeouts, so they
+ * cannot hold connections open indefinitely.
+ *
+ * @param options - Registries, limits and timeouts
+ * @returns A server that is not yet listening
+ */
+export function createVerificationServer(options: ServerOptions): Server {
+  const handler = createRequestHandler(options);
+  return createServer({
+    requestTimeout: options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    headersTimeout: options.headersTimeoutMs ?? DEFAULT_HEADERS_TIMEOUT_MS
+  }, (request, response) => {
+    void handler(request, response);
+  });
+}
+
+/**
+ * Loads registries from the environment
+ *
+ * - `REGISTRY_DIR`: every `<name>.json` file in the directory becomes registry `<name>`
+ * - `REGISTRIES_JSON`: a JSON object mapping registry names to registries
+ *
+ * @param env - The environment variables
+ * @returns The registries by name
+ */
+export function loadRegistries(env: NodeJS.ProcessEnv = process.env): Record<string, AnySignerRegistry> {
+  const registries: Record<string, AnySignerRegistry> = {};
+
+  if (env.REGISTRY_DIR) {
+    for (const file of readdirSync(env.REGISTRY_DIR).filter(name => name.endsWith('.json'))) {
+      registries[path.basename(file, '.json')] = JSON.parse(readFileSync(path.join(env.REGISTRY_DIR, file), 'utf8'));
+    }
+  }
+
+  if (env.REGISTRIES_JSON) {
+    Object.assign(registries, JSON.parse(env.REGISTRIES_JSON));
+  }
+
+  return registries;
+}
+
+/**
+ * Builds server options from the environment (`REGISTRY_DIR`, `REGISTRIES_JSON`,
+ * `DEFAULT_REGISTRY`, `MAX_BODY_BYTES`, `REQUEST_TIMEOUT_MS`, `HEADERS_TIMEOUT_MS`, `BASE_PATH`)
+ * @param env - The environment variables
+ * @returns The server options
+ * @throws If a limit or timeout is not a positive integer
+ */
+export function serverOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ServerOptions {
+  return {
+    registries: loadRegistries(env),
+    defaultRegistry: env.DEFAULT_REGISTRY || undefined,
+    maxBodyBytes: positiveIntegerFromEnv(env, 'MAX_BODY_BYTES'),
+    requestTimeoutMs: positiveIntegerFromEnv(env, 'REQUEST_TIMEOUT_MS'),
+    headersTimeoutMs: positiveIntegerFromEnv(env, 'HEADERS_TIMEOUT_MS'),
+    basePath: env.BASE_PATH || undefined
+  };
+}
+
+/**
+ * Reads an optional positive integer setting, so that a typo fails at startup
+ * instead of silently disabling the limit
+ */
+function positiveIntegerFromEnv(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!/^[1-9][0-9]*$/.test(value.trim()) || !Number.isSafeInteger(Number(value))) {
+    throw new Error(`${name} must be a positive integer, got: ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Strips the query string and base path from a request URL
+ */
+function routeOf(url: string, basePath?: string): string {
+  const pathname = url.split('?')[0];
+  if (basePath && (pathname === basePath || pathname.startsWith(`${basePath}/`))) {
+    return pathname.slice(basePath.length) || '/';
+  }
+  return pathname;
+}
+
+/**
+ * Rejects requests made with the wrong method
+ */
+function requireMethod(request: IncomingMessage, method: string): void {
+  if (request.method !== method) {
+    throw new HttpError(405, `Method ${request.method} not allowed`);
+  }
+}
+
+/**
+ * Reads a JSON object body, enforcing the size limit
+ */
+async function readJsonBody(request: IncomingMessage, maxBodyBytes: number): Promise<Record<string, any>> {
+  const contentType = request.headers['content-type'] ?? '';
+  if (!contentType.toLowerCase().startsWith('application/json')) {
+    throw new HttpError(415, 'Content-Type must be application/json');
+  }
+  if (Number(request.headers['content-length'] ?? 0) > maxBodyBytes) {
+    throw new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes`);
+  }
+
+  const text = await readBody(request, maxBodyBytes);
+
+  // Strict parsing rejects duplicate and `__proto__` keys that JSON.parse would accept
+  let body: unknown;
+  try {
+    body = parseStrictJson(text, { maxBytes: maxBodyBytes });
+  } catch (error) {
+    throw new HttpError(400, 'Request body is not valid JSON', [(error as Error).message]);
+  }
+
+  if (!isObject(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body;
+}
+
+/**
+ * Collects a request body, rejecting as soon as it exceeds the size limit
+ *
+ * The rest of an oversized body is drained rather than the socket destroyed,
+ * so the client still receives the 413 response.
+ */
+function readBody(request: IncomingMessage, maxBodyBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (tooLarge) {
+        return;
+      }
+      if (size > maxBodyBytes) {
+        tooLarge = true;
+        chunks.length = 0;
+        reject(new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Checks that a request's document is a well-formed signed document
+ */
+function validateDocument(value: unknown, traversalOptions: TraversalOptions = {}): SignedDocument<ChainStep> {
+  const issues = validateSignedDocument(value, traversalOptions.validation);
+  if (issues.length > 0) {
+    throw new HttpError(400, 'Invalid request', issues.map(issue => formatValidationIssue({
+      ...issue,
+      path: !issue.path ? 'document' : issue.path.startsWith('[') ? `document${issue.path}` : `document.${issue.path}`
+    })));
+  }
+  return value as SignedDocument<ChainStep>;
+}
+
+/**
+ * Whether a value is a JSON object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Sends a JSON response
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(json)
+  });
+  response.end(json);
+}
+
+if (require.main === module) {
+  const port = Number(process.env.PORT ?? 3000);
+  const options = serverOptionsFromEnv();
+
+  createVerificationServer(options).listen(port, () => {
+    console.log(`Verification service listening on port ${port} ` +
+      `(registries: ${Object.keys(options.registries).join(', ') || 'none'})`);
+  });
+}
@@ -0,0 +1,264 @@
+import { generateKeyPairSync } from 'crypto';
+import {
+  SignatureScheme,
+  eip191Scheme,
+  eip712Scheme,
+  eip712StepScheme,
+  buildStepTypedData,
+  DEFAULT_STEP_DOMAIN,
+  ed25519Scheme,
+  p256Scheme,
+  getSignatureScheme,
+  registerSignatureScheme
+} from './signature-schemes';
+import { ethers } from 'ethers';
+import { verifySignature, calculateExpectedHash } from './crypto-utils';
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { TimeAwareSignerRegistry, SignerRegistry, SignedDocument, ChainStep } from './types';
+
+describe('Signature Schemes', () => {
+  const evmPrivateKey = '0x1234567890123456789012345678901234567890123456789012345678901234';
+  const ed25519Keys = generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  const p256Keys = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+
+  const cases: [string, SignatureScheme, string, string][] = [
+    ['eip191', eip191Scheme, evmPrivateKey, eip191Scheme.getPublicKey(evmPrivateKey)],
+    ['eip712', eip712Scheme, evmPrivateKey, eip712Scheme.getPublicKey(evmPrivateKey)],
+    ['ed25519', ed25519Scheme, ed25519Keys.privateKey, ed25519Keys.publicKey],
+    ['p256', p256Scheme, p256Keys.privateKey, p256Keys.publicKey]
+  ];
+
+  describe.each(cases)('%s', (_id, scheme, privateKey, publicKey) => {
+    const message = '0x4b5e3f1a';
+
+    it('should verify its own signatures', async () => {
+      const signature = await scheme.sign(message, privateKey);
+      expect(scheme.verify(message, signature, publicKey)).toBe(true);
+    });
+
+    it('should reject signatures over a different message', async () => {
+      const signature = await scheme.sign(message, privateKey);
+      expect(scheme.verify('0x4b5e3f1b', signature, publicKey)).toBe(false);
+    });
+
+    it('should derive the registered public key from the private key', () => {
+      expect(scheme.getPublicKey(privateKey).trim()).toBe(publicKey.trim());
+    });
+
+    it('should return false for malformed input', () => {
+      expect(scheme.verify(message, 'not-a-signature', publicKey)).toBe(false);
+      expect(scheme.verify(message, '0x1234', 'not-a-key')).toBe(false);
+    });
+  });
+
+  it('should reject keys of the wrong type', async () => {
+    const signature = await ed25519Scheme.sign('message', ed25519Keys.privateKey);
+
+    expect(p256Scheme.verify('message', signature, ed25519Keys.publicKey)).toBe(false);
+    expect(ed25519Scheme.verify('message', signature, p256Keys.publicKey)).toBe(false);
+  });
+
+  it('should not accept an EIP-191 signature as EIP-712', async () => {
+    const signature = await eip191Scheme.sign('message', evmPrivateKey);
+    expect(eip712Scheme.verify('message', signature, eip191Scheme.getPublicKey(evmPrivateKey))).toBe(false);
+  });
+
+  describe('scheme registry', () => {
+    it('should provide the built-in schemes', () => {
+      expect(getSignatureScheme('eip191')).toBe(eip191Scheme);
+      expect(getSignatureScheme('eip712')).toBe(eip712Scheme);
+      expect(getSignatureScheme('eip712-step')).toBe(eip712StepScheme);
+      expect(getSignatureScheme('ed25519')).toBe(ed25519Scheme);
+      expect(getSignatureScheme('p256')).toBe(p256Scheme);
+      expect(getSignatureScheme('rsa')).toBeUndefined();
+    });
+
+    it('should dispatch verifySignature to registered schemes', () => {
+      registerSignatureScheme({
+        id: 'test-always-valid',
+        sign: async () => '0x00',
+        verify: () => true,
+        getPublicKey: () => 'test'
+      });
+
+      expect(verifySignature('message', '0x00', 'anyone', 'test-always-valid')).toBe(true);
+      expect(verifySignature('message', '0x00', 'anyone', 'unknown-scheme')).toBe(false);
+    });
+  });
+
+  describe('mixed-scheme chains', () => {
+    it('should verify a chain signed with different schemes', async () => {
+      const registry: TimeAwareSignerRegistry = {
+        'partner-ed': { keys: [{ publicKey: ed25519Keys.publicKey, scheme: 'ed25519' }] },
+        'partner-p256': { keys: [{ publicKey: p256Keys.publicKey, scheme: 'p256' }] },
+        'internal-evm': { keys: [{ address: eip191Scheme.getPublicKey(evmPrivateKey), scheme: 'eip712' }] }
+      };
+      const signer = new DocumentSigner(registry);
+
+      let document = signer.createDocument({ documentId: 'MIX-1', content: 'mixed schemes' });
+      document = await signer.sign(document, 'partner-ed', { scheme: 'ed25519', privateKey: ed25519Keys.privateKey });
+      document = await signer.sign(document, 'partner-p256', { scheme: 'p256', privateKey: p256Keys.privateKey });
+      document = await signer.sign(document, 'internal-evm', { scheme: 'eip712', privateKey: evmPrivateKey });
+
+      expect(document.signatures.map(sig => sig.scheme)).toEqual(['ed25519', 'p256', 'eip712']);
+      expect(traverse(document, registry).isValid).toBe(true);
+
+      // A key registered for eip191 does not accept eip712 signatures
+      registry['internal-evm'].keys[0].scheme = undefined;
+      const result = traverse(document, registry);
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[2].signatureValid).toBe(false);
+    });
+
+    it('should accept PEM keys in a plain registry', async () => {
+      const registry: SignerRegistry = { 'partner-ed': ed25519Keys.publicKey };
+      const signer = new DocumentSigner(registry);
+
+      const document = await signer.sign(
+        signer.createDocument({ documentId: 'PEM-1', content: 'plain registry' }),
+        'partner-ed',
+        { scheme: 'ed25519', privateKey: ed25519Keys.privateKey }
+      );
+
+      expect(traverse(document, registry).isValid).toBe(true);
+    });
+
+    it('should reject a signature whose scheme field was changed', async () => {
+      const registry: SignerRegistry = { 'partner-ed': ed25519Keys.publicKey };
+      const signer = new DocumentSigner(registry);
+
+      const document = await signer.sign(
+        signer.createDocument({ documentId: 'PEM-2', content: 'plain registry' }),
+        'partner-ed',
+        { scheme: 'ed25519', privateKey: ed25519Keys.privateKey }
+      );
+      document.signatures[0].scheme = 'p256';
+
+      const result = traverse(document, registry);
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0].signatureValid).toBe(false);
+    });
+
+    it('should refuse to sign with an unknown scheme', async () => {
+      const signer = new DocumentSigner({});
+      await expect(
+        signer.sign(signer.createDocument({ documentId: 'X', content: 'x' }), 'anyone', { scheme: 'rsa', privateKey: '' })
+      ).rejects.toThrow('Unknown signature scheme: rsa');
+    });
+  });
+
+  describe('eip712-step typed chain steps', () => {
+    const address = eip191Scheme.getPublicKey(evmPrivateKey);
+    const stepKey = { scheme: 'eip712-step', privateKey: evmPrivateKey };
+    const registry: TimeAwareSignerRegistry = {
+      'treasurer-erin': { keys: [{ address, scheme: 'eip712-step' }] }
+    };
+    const payload = { documentId: 'WIRE-7', content: 'Wire $25,000 to ACME Corp' };
+
+    it('should sign the step\'s document, hashes, signer, time and position', async () => {
+      const signer = new DocumentSigner(registry);
+      let document = signer.createDocument(payload);
+      document = await signer.sign(document, 'treasurer-erin', stepKey, new Date('2025-01-01T10:00:00Z'));
+      document = await signer.sign(document, 'treasurer-erin', stepKey, new Date('2025-01-01T11:00:00Z'));
+
+      expect(document.signatures.map(sig => sig.scheme)).toEqual(['eip712-step', 'eip712-step']);
+      expect(traverse(document, registry).isValid).toBe(true);
+
+      const typedData = buildStepTypedData(document.signatures[1].signedHash, {
+        documentId: 'WIRE-7',
+        payloadHash: calculateExpectedHash(payload, [], document.header),
+        index: 1,
+        signerId: 'treasurer-erin',
+        signedAt: '2025-01-01T11:00:00.000Z'
+      });
+      expect(typedData.domain).toEqual(DEFAULT_STEP_DOMAIN);
+      expect(typedData.message).toEqual({
+        documentId: 'WIRE-7',
+        payloadHash: document.signatures[0].signedHash,
+        previousHash: document.signatures[1].signedHash,
+        signerId: 'treasurer-erin',
+        signedAt: '2025-01-01T11:00:00.000Z',
+        index: 1
+      });
+      expect(ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, document.signatures[1].signature))
+        .toBe(address);
+    });
+
+    it('should verify signatures made by an external wallet from the typed data', async () => {
+      const header = { canonicalization: 'jcs' as const };
+      const signedHash = calculateExpectedHash(payload, [], header);
+      const typedData = buildStepTypedData(signedHash, {
+        documentId: payload.documentId,
+        payloadHash: signedHash,
+        index: 0,
+        signerId: 'treasurer-erin',
+        signedAt: '2025-01-01T10:00:00.000Z'
+      });
+      const signature = await new ethers.Wallet(evmPrivateKey).signTypedData(typedData.domain, typedData.types, typedData.message);
+
+      const document: SignedDocument = {
+        header,
+        payload,
+        signatures: [{ signerId: 'treasurer-erin', signature, signedAt: '2025-01-01T10:00:00.000Z', signedHash, scheme: 'eip712-step' }]
+      };
+      expect(traverse(document, registry).isValid).toBe(true);
+    });
+
+    it('should bind the signing time, which other schemes leave unsigned', async () => {
+      const signer = new DocumentSigner(registry);
+      const document = await signer.sign(signer.createDocument(payload), 'treasurer-erin', stepKey);
+      document.signatures[0].signedAt = '2020-01-01T00:00:00.000Z';
+
+      const result = traverse(document, registry);
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('RECOVERED_ADDRESS_MISMATCH');
+    });
+
+    it('should verify against the configured domain', async () => {
+      const typedDataDomain = { name: 'AcmeApprovals', version: '3', chainId: 1 };
+      const signer = new DocumentSigner(registry, { typedDataDomain });
+      let document: SignedDocument<ChainStep> = await signer.sign(signer.createDocument(payload), 'treasurer-erin', stepKey);
+      document = await signer.sign(document, 'treasurer-erin', stepKey);
+
+      expect(traverse(document, registry, { typedDataDomain }).isValid).toBe(true);
+      expect(traverse(document, registry).errorCode).toBe('RECOVERED_ADDRESS_MISMATCH');
+      expect(traverse(document, registry, { typedDataDomain: { ...typedDataDomain, chainId: 5 } }).isValid).toBe(false);
+    });
+
+    it('should require a signing context', async () => {
+      await expect(eip712StepScheme.sign('0x4b5e3f1a', evmPrivateKey)).rejects.toThrow('need a signing context');
+      expect(eip712StepScheme.verify('0x4b5e3f1a', '0x1234', address)).toBe(false);
+    });
+  });
+
+  describe('in the browser bundle', () => {
+    it('should surface the crypto stub\'s error for PEM schemes instead of failing on Buffer', async () => {
+      const globals = globalThis as { Buffer?: typeof Buffer };
+      const nodeBuffer = globals.Buffer;
+      let browserSchemes!: typeof import('./signature-schemes');
+      jest.isolateModules(() => {
+        jest.doMock('crypto', () => jest.requireActual('./browser-crypto'));
+        browserSchemes = jest.requireActual('./signature-schemes');
+      });
+
+      delete globals.Buffer;
+      try {
+        for (const scheme of [browserSchemes.ed25519Scheme, browserSchemes.p256Scheme]) {
+          await expect(scheme.sign('0x4b5e3f1a', 'pem')).rejects.toThrow('Node crypto is not available in the browser');
+          expect(scheme.verify('0x4b5e3f1a', '0x1234', 'pem')).toBe(false);
+        }
+      } finally {
+        globals.Buffer = nodeBuffer;
+        jest.dontMock('crypto');
+      }
+    });
+  });
+});
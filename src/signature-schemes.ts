@@ -0,0 +1,308 @@
+import { ethers } from 'ethers';
+import { createPublicKey, sign as cryptoSign, verify as cryptoVerify } from 'crypto';
+import { SigningContext, TypedDataDomain } from './types';
+
+/**
+ * A signature algorithm that can sign and verify chain hashes
+ *
+ * Keys are passed as strings in whatever format the scheme expects: hex
+ * private keys and addresses for the Ethereum schemes, PEM for the schemes
+ * backed by Node's crypto module. Schemes that sign more than the chain hash
+ * receive the step's signing context; the others ignore it.
+ */
+export interface SignatureScheme {
+  /** Identifier stored in `Signature.scheme` */
+  id: string;
+  /**
+   * Signs a message
+   * @param message - The message (a chain hash) to sign
+   * @param privateKey - The signer's private key
+   * @param context - Document, position and signer of the step being signed
+   * @returns The signature as a hex string
+   */
+  sign(message: string, privateKey: string, context?: SigningContext): Promise<string>;
+  /**
+   * Verifies a signature; must return false rather than throw on bad input
+   * @param message - The message that was signed
+   * @param signature - The signature to verify
+   * @param publicKey - The expected signer's public key or address
+   * @param context - Document, position and signer of the signed step
+   * @returns True if the signature is valid
+   */
+  verify(message: string, signature: string, publicKey: string, context?: SigningContext): boolean;
+  /**
+   * Recovers the address that produced a signature, for schemes that support recovery
+   * @param message - The message that was signed
+   * @param signature - The signature
+   * @param context - Document, position and signer of the signed step
+   * @returns The signer's address
+   * @throws If the signature is malformed
+   */
+  recover?(message: string, signature: string, context?: SigningContext): string;
+  /**
+   * Derives the public key (as stored in a registry) from a private key
+   * @param privateKey - The private key
+   * @returns The public key or address
+   */
+  getPublicKey(privateKey: string): string;
+}
+
+/**
+ * Scheme used for signatures that do not name one
+ */
+export const DEFAULT_SIGNATURE_SCHEME = 'eip191';
+
+/**
+ * Domain used by the EIP-712 scheme
+ */
+const EIP712_DOMAIN: ethers.TypedDataDomain = {
+  name: 'SecureSignatureTraversal',
+  version: '1'
+};
+
+/**
+ * Typed data structure signed by the EIP-712 scheme
+ */
+const EIP712_TYPES: Record<string, ethers.TypedDataField[]> = {
+  SignedHash: [{ name: 'signedHash', type: 'string' }]
+};
+
+/**
+ * Domain of `eip712-step` signatures when none is configured
+ */
+export const DEFAULT_STEP_DOMAIN: TypedDataDomain = {
+  name: 'SecureSignatureTraversal',
+  version: '1'
+};
+
+/**
+ * Typed data structure signed by the `eip712-step` scheme
+ *
+ * Hashes are `bytes` rather than `bytes32` so that chains hashed with
+ * SHA-512 fit as well.
+ */
+const STEP_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ChainStep: [
+    { name: 'documentId', type: 'string' },
+    { name: 'payloadHash', type: 'bytes' },
+    { name: 'previousHash', type: 'bytes' },
+    { name: 'signerId', type: 'string' },
+    { name: 'signedAt', type: 'string' },
+    { name: 'index', type: 'uint256' }
+  ]
+};
+
+/**
+ * EIP-712 typed data for one chain step, as passed to `eth_signTypedData_v4`
+ */
+export interface StepTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: 'ChainStep';
+  message: {
+    documentId: string;
+    payloadHash: string;
+    previousHash: string;
+    signerId: string;
+    signedAt: string;
+    index: number;
+  };
+}
+
+/**
+ * Builds the typed data an `eip712-step` signature signs
+ *
+ * Wallets that sign typed data themselves, such as hardware wallets, can be
+ * handed this structure; they display each field instead of an opaque hash.
+ *
+ * @param message - The hash the step signs: the chain hash before it, or a record's hash
+ * @param context - Document, position and signer of the step
+ * @returns The domain, types and message to sign
+ */
+export function buildStepTypedData(message: string, context: SigningContext): StepTypedData {
+  return {
+    domain: context.domain ?? DEFAULT_STEP_DOMAIN,
+    types: STEP_TYPES,
+    primaryType: 'ChainStep',
+    message: {
+      documentId: context.documentId,
+      payloadHash: context.payloadHash,
+      previousHash: message,
+      signerId: context.signerId,
+      signedAt: context.signedAt,
+      index: context.index
+    }
+  };
+}
+
+/**
+ * Compares two Ethereum addresses case-insensitively
+ */
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Recovers the signer of an EIP-191 signature
+ */
+function recoverEip191(message: string, signature: string): string {
+  return ethers.recoverAddress(ethers.hashMessage(ethers.toUtf8Bytes(message)), signature);
+}
+
+/**
+ * Recovers the signer of an EIP-712 signature
+ */
+function recoverEip712(message: string, signature: string): string {
+  return ethers.verifyTypedData(EIP712_DOMAIN, EIP712_TYPES, { signedHash: message }, signature);
+}
+
+/**
+ * Recovers the signer of an `eip712-step` signature
+ */
+function recoverEip712Step(message: string, signature: string, context?: SigningContext): string {
+  if (!context) {
+    throw new Error('eip712-step signatures can only be checked with a signing context');
+  }
+  const typedData = buildStepTypedData(message, context);
+  return ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, signature);
+}
+
+/**
+ * Ethereum personal_sign (EIP-191) over the UTF-8 message
+ */
+export const eip191Scheme: SignatureScheme = {
+  id: 'eip191',
+  async sign(message, privateKey) {
+    return new ethers.Wallet(privateKey).signMessage(ethers.toUtf8Bytes(message));
+  },
+  verify(message, signature, publicKey) {
+    try {
+      return sameAddress(recoverEip191(message, signature), publicKey);
+    } catch (error) {
+      return false;
+    }
+  },
+  recover: recoverEip191,
+  getPublicKey(privateKey) {
+    return new ethers.Wallet(privateKey).address;
+  }
+};
+
+/**
+ * Ethereum typed data (EIP-712) over a struct holding the message
+ */
+export const eip712Scheme: SignatureScheme = {
+  id: 'eip712',
+  async sign(message, privateKey) {
+    return new ethers.Wallet(privateKey).signTypedData(EIP712_DOMAIN, EIP712_TYPES, { signedHash: message });
+  },
+  verify(message, signature, publicKey) {
+    try {
+      return sameAddress(recoverEip712(message, signature), publicKey);
+    } catch (error) {
+      return false;
+    }
+  },
+  recover: recoverEip712,
+  getPublicKey(privateKey) {
+    return new ethers.Wallet(privateKey).address;
+  }
+};
+
+/**
+ * Ethereum typed data (EIP-712) over the step's document, position and signer
+ *
+ * Needs a signing context: signatures made or checked without one fail.
+ */
+export const eip712StepScheme: SignatureScheme = {
+  id: 'eip712-step',
+  async sign(message, privateKey, context) {
+    if (!context) {
+      throw new Error('eip712-step signatures need a signing context');
+    }
+    const typedData = buildStepTypedData(message, context);
+    return new ethers.Wallet(privateKey).signTypedData(typedData.domain, typedData.types, typedData.message);
+  },
+  verify(message, signature, publicKey, context) {
+    try {
+      return sameAddress(recoverEip712Step(message, signature, context), publicKey);
+    } catch (error) {
+      return false;
+    }
+  },
+  recover: recoverEip712Step,
+  getPublicKey(privateKey) {
+    return new ethers.Wallet(privateKey).address;
+  }
+};
+
+/**
+ * Ed25519 with PEM keys (SPKI public, PKCS#8 private)
+ */
+export const ed25519Scheme: SignatureScheme = {
+  id: 'ed25519',
+  async sign(message, privateKey) {
+    return ethers.hexlify(cryptoSign(null, ethers.toUtf8Bytes(message), privateKey));
+  },
+  verify(message, signature, publicKey) {
+    try {
+      const key = createPublicKey(publicKey);
+      if (key.asymmetricKeyType !== 'ed25519') {
+        return false;
+      }
+      return cryptoVerify(null, ethers.toUtf8Bytes(message), key, ethers.getBytes(signature));
+    } catch (error) {
+      return false;
+    }
+  },
+  getPublicKey(privateKey) {
+    return createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  }
+};
+
+/**
+ * ECDSA over NIST P-256 with SHA-256, DER-encoded signatures and PEM keys
+ */
+export const p256Scheme: SignatureScheme = {
+  id: 'p256',
+  async sign(message, privateKey) {
+    return ethers.hexlify(cryptoSign('sha256', ethers.toUtf8Bytes(message), privateKey));
+  },
+  verify(message, signature, publicKey) {
+    try {
+      const key = createPublicKey(publicKey);
+      if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+        return false;
+      }
+      return cryptoVerify('sha256', ethers.toUtf8Bytes(message), key, ethers.getBytes(signature));
+    } catch (error) {
+      return false;
+    }
+  },
+  getPublicKey(privateKey) {
+    return createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  }
+};
+
+const schemes = new Map<string, SignatureScheme>();
+
+/**
+ * Registers a signature scheme, replacing any scheme with the same ID
+ * @param scheme - The scheme to register
+ */
+export function registerSignatureScheme(scheme: SignatureScheme): void {
+  schemes.set(scheme.id, scheme);
+}
+
+/**
+ * Looks up a registered signature scheme
+ * @param id - The scheme identifier
+ * @returns The scheme, or undefined if none is registered under that ID
+ */
+export function getSignatureScheme(id: string): SignatureScheme | undefined {
+  return schemes.get(id);
+}
+
+for (const scheme of [eip191Scheme, eip712Scheme, eip712StepScheme, ed25519Scheme, p256Scheme]) {
+  registerSignatureScheme(scheme);
+}
@@ -0,0 +1,219 @@
+import { AnySignerRegistry } from './types';
+import { resolveSignerKeys, KeyResolution } from './key-registry';
+
+/**
+ * A signer and the time of one of their signatures
+ */
+export interface SignerLookup {
+  /** The signer to look up */
+  signerId: string;
+  /** Timestamp of the signature, used to select the key valid at that time */
+  signedAt: string;
+}
+
+/**
+ * Source of signer keys that may live outside the process (database, directory service)
+ *
+ * Implementations report unknown signers through the returned resolution and
+ * reserve rejected promises for infrastructure failures.
+ */
+export interface SignerResolver {
+  /**
+   * Finds the keys a signer could have used at the given time
+   * @param signerId - The signer to look up
+   * @param signedAt - The signature's timestamp
+   * @returns The key resolution
+   */
+  resolve(signerId: string, signedAt: string): Promise<KeyResolution>;
+  /**
+   * Optional batch lookup; used instead of `resolve` when available
+   * @param lookups - The lookups to perform
+   * @returns One resolution per lookup, in the same order
+   */
+  resolveMany?(lookups: SignerLookup[]): Promise<KeyResolution[]>;
+  /**
+   * Optional lookup of whole key histories; used instead of the other methods
+   * when available, as keys are then fetched once per signer and selected by
+   * time locally
+   * @param signerIds - The signers to fetch
+   * @returns A registry holding the signers that exist
+   */
+  fetchSigners?(signerIds: string[]): Promise<AnySignerRegistry>;
+}
+
+/**
+ * Resolver that can fetch whole key histories
+ */
+export type KeyHistoryResolver = SignerResolver & Required<Pick<SignerResolver, 'fetchSigners'>>;
+
+/**
+ * A signer's entry in a plain or time-aware registry
+ */
+type SignerEntry = AnySignerRegistry[string];
+
+/**
+ * Resolver backed by an in-memory signer registry
+ */
+export class InMemorySignerResolver implements SignerResolver {
+  /**
+   * @param registry - A plain or time-aware signer registry
+   */
+  constructor(private readonly registry: AnySignerRegistry) {}
+
+  async resolve(signerId: string, signedAt: string): Promise<KeyResolution> {
+    return resolveSignerKeys(this.registry, signerId, signedAt);
+  }
+
+  async resolveMany(lookups: SignerLookup[]): Promise<KeyResolution[]> {
+    return lookups.map(lookup => resolveSignerKeys(this.registry, lookup.signerId, lookup.signedAt));
+  }
+
+  async fetchSigners(signerIds: string[]): Promise<AnySignerRegistry> {
+    const registry: Record<string, SignerEntry> = {};
+    for (const signerId of signerIds) {
+      const entry = registryEntry(this.registry, signerId);
+      if (entry !== undefined) {
+        registry[signerId] = entry;
+      }
+    }
+    return registry as AnySignerRegistry;
+  }
+}
+
+/**
+ * Options for CachingSignerResolver
+ */
+export interface CachingSignerResolverOptions {
+  /** How long a signer's key history stays cached (defaults to 5 minutes) */
+  ttlMs?: number;
+  /** Maximum number of cached signers; the oldest is evicted first (defaults to 10000) */
+  maxEntries?: number;
+  /** Clock in milliseconds (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Resolver decorator that caches the key histories fetched by another resolver
+ *
+ * Histories are cached per signer, and the keys valid at each signature's
+ * time are selected from the cached history, so every signature of a signer
+ * is served by one fetch. Concurrent lookups of a signer share the fetch in
+ * flight. Unknown signers are cached too; failed fetches (rejected promises)
+ * are never cached, so a transient outage does not stick.
+ */
+export class CachingSignerResolver implements SignerResolver {
+  private readonly cache = new Map<string, { entry: SignerEntry | undefined; expiresAt: number }>();
+  private readonly inFlight = new Map<string, Promise<SignerEntry | undefined>>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  /**
+   * @param resolver - The resolver to cache
+   * @param options - Cache settings
+   */
+  constructor(private readonly resolver: KeyHistoryResolver, options: CachingSignerResolverOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async resolve(signerId: string, signedAt: string): Promise<KeyResolution> {
+    const [resolution] = await this.resolveMany([{ signerId, signedAt }]);
+    return resolution;
+  }
+
+  async resolveMany(lookups: SignerLookup[]): Promise<KeyResolution[]> {
+    const registry = await this.fetchSigners(lookups.map(lookup => lookup.signerId));
+    return lookups.map(lookup => resolveSignerKeys(registry, lookup.signerId, lookup.signedAt));
+  }
+
+  async fetchSigners(signerIds: string[]): Promise<AnySignerRegistry> {
+    const entries = new Map<string, SignerEntry | undefined | Promise<SignerEntry | undefined>>();
+    const misses: string[] = [];
+
+    for (const signerId of new Set(signerIds)) {
+      const cached = this.getCached(signerId);
+      if (cached) {
+        entries.set(signerId, cached.entry);
+      } else if (this.inFlight.has(signerId)) {
+        entries.set(signerId, this.inFlight.get(signerId));
+      } else {
+        misses.push(signerId);
+      }
+    }
+
+    if (misses.length > 0) {
+      const fetched = this.resolver.fetchSigners(misses).then(registry => {
+        misses.forEach(signerId => this.setCached(signerId, registryEntry(registry, signerId)));
+        return registry;
+      });
+      const settle = () => misses.forEach(signerId => this.inFlight.delete(signerId));
+      fetched.then(settle, settle);
+
+      for (const signerId of misses) {
+        const entry = fetched.then(registry => registryEntry(registry, signerId));
+        this.inFlight.set(signerId, entry);
+        entries.set(signerId, entry);
+      }
+    }
+
+    const registry: Record<string, SignerEntry> = {};
+    for (const [signerId, pending] of entries) {
+      const entry = await pending;
+      if (entry !== undefined) {
+        registry[signerId] = entry;
+      }
+    }
+    return registry as AnySignerRegistry;
+  }
+
+  /**
+   * Removes all cached key histories
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private getCached(signerId: string): { entry: SignerEntry | undefined } | undefined {
+    const cached = this.cache.get(signerId);
+    if (!cached) {
+      return undefined;
+    }
+
+    if (cached.expiresAt <= this.now()) {
+      this.cache.delete(signerId);
+      return undefined;
+    }
+
+    return cached;
+  }
+
+  private setCached(signerId: string, entry: SignerEntry | undefined): void {
+    this.cache.delete(signerId);
+    if (this.cache.size >= this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+
+    this.cache.set(signerId, { entry, expiresAt: this.now() + this.ttlMs });
+  }
+}
+
+/**
+ * Finds a signer's own entry in a registry
+ */
+function registryEntry(registry: AnySignerRegistry, signerId: string): SignerEntry | undefined {
+  return Object.prototype.hasOwnProperty.call(registry, signerId) ? registry[signerId] : undefined;
+}
+
+/**
+ * Key identifying a lookup in caches and de-duplication maps
+ * @param lookup - The lookup
+ * @returns A string unique to the signer and timestamp
+ */
+export function lookupKey(lookup: SignerLookup): string {
+  return `${lookup.signerId}\u0000${lookup.signedAt}`;
+}
@@ -0,0 +1,123 @@
+import { evaluatePolicy } from './signing-policy';
+import { traverse } from './traversal';
+import { testDataGenerator } from './test-data-generator';
+import { SigningPolicy, SignerRegistry } from './types';
+
+describe('Signing Policy', () => {
+  describe('evaluatePolicy', () => {
+    const signers = ['developer-alice', 'qa-bob', 'manager-charlie'];
+
+    it('should accept an empty policy', () => {
+      expect(evaluatePolicy(signers, {})).toEqual([]);
+    });
+
+    it('should report missing required signers', () => {
+      const violations = evaluatePolicy(signers, { requiredSigners: ['qa-bob', 'legal-dave'] });
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].rule).toBe('requiredSigner');
+      expect(violations[0].message).toContain('legal-dave');
+    });
+
+    it('should accept signers in the mandatory order', () => {
+      const policy: SigningPolicy = { signerOrder: ['developer-alice', 'manager-charlie'] };
+      expect(evaluatePolicy(signers, policy)).toEqual([]);
+    });
+
+    it('should report signers out of order', () => {
+      const policy: SigningPolicy = { signerOrder: ['manager-charlie', 'developer-alice'] };
+      const violations = evaluatePolicy(signers, policy);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].rule).toBe('signerOrder');
+    });
+
+    it('should ignore absent signers when checking order', () => {
+      const policy: SigningPolicy = { signerOrder: ['developer-alice', 'legal-dave', 'qa-bob'] };
+      expect(evaluatePolicy(signers, policy)).toEqual([]);
+    });
+
+    it('should enforce role group quorums', () => {
+      const policy: SigningPolicy = {
+        roleGroups: [
+          { role: 'qa', signerIds: ['qa-bob', 'qa-erin', 'qa-frank'], minSignatures: 2 },
+          { role: 'management', signerIds: ['manager-charlie'], minSignatures: 1 }
+        ]
+      };
+      const violations = evaluatePolicy(signers, policy);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].rule).toBe('roleGroup');
+      expect(violations[0].message).toBe('Role qa requires 2 signature(s), got 1');
+    });
+
+    it('should count each signer once towards a quorum', () => {
+      const policy: SigningPolicy = {
+        roleGroups: [{ role: 'qa', signerIds: ['qa-bob', 'qa-erin'], minSignatures: 2 }]
+      };
+      expect(evaluatePolicy(['qa-bob', 'qa-bob'], policy)).toHaveLength(1);
+    });
+
+    it('should enforce the maximum chain length', () => {
+      const violations = evaluatePolicy(signers, { maxSignatures: 2 });
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].rule).toBe('maxSignatures');
+    });
+
+    it('should measure the chain length separately from the approvals', () => {
+      expect(evaluatePolicy(['qa-bob'], { maxSignatures: 2 }, 5)).toEqual([
+        { rule: 'maxSignatures', message: 'Chain has 5 signatures, maximum is 2' }
+      ]);
+    });
+  });
+
+  describe('traverse with a policy', () => {
+    let signerRegistry: SignerRegistry;
+
+    beforeAll(() => {
+      signerRegistry = testDataGenerator.getSignerRegistry();
+    });
+
+    it('should pass when the policy is satisfied', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const result = traverse(document, signerRegistry, {
+        policy: {
+          requiredSigners: ['developer-alice', 'manager-charlie'],
+          signerOrder: ['developer-alice', 'qa-bob', 'manager-charlie']
+        }
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.policyViolations).toEqual([]);
+    });
+
+    it('should fail a valid chain that violates the policy', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const result = traverse(document, signerRegistry, {
+        policy: { requiredSigners: ['legal-dave'] }
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('Signing policy not satisfied');
+      expect(result.signatureResults.every(sigResult => sigResult.isValid)).toBe(true);
+      expect(result.policyViolations).toHaveLength(1);
+    });
+
+    it('should not count invalid signatures towards the policy', async () => {
+      const document = await testDataGenerator.generateDocumentWithInvalidSignature();
+      const result = traverse(document, signerRegistry, {
+        policy: { requiredSigners: ['qa-bob'] }
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('Signature chain broken');
+      expect(result.policyViolations?.[0].rule).toBe('requiredSigner');
+    });
+
+    it('should not report policy violations when no policy is given', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      expect(traverse(document, signerRegistry).policyViolations).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { SigningPolicy, PolicyViolation } from './types';
+
+/**
+ * Evaluates a signing policy against the signers of a chain
+ *
+ * Only signatures that passed verification should be passed in, so that a
+ * forged signature can never count towards a quorum. The chain length limit
+ * applies to the whole chain, which can be longer than its list of approvals.
+ *
+ * @param signerIds - Signer IDs of the verified signatures, in chain order
+ * @param policy - The policy to evaluate
+ * @param chainLength - Number of signatures in the chain (defaults to the number of signer IDs)
+ * @returns The list of violated rules (empty if the policy is satisfied)
+ */
+export function evaluatePolicy(
+  signerIds: string[],
+  policy: SigningPolicy,
+  chainLength: number = signerIds.length
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const presentSigners = new Set(signerIds);
+
+  // Required signers
+  for (const requiredSigner of policy.requiredSigners ?? []) {
+    if (!presentSigners.has(requiredSigner)) {
+      violations.push({
+        rule: 'requiredSigner',
+        message: `Required signer ${requiredSigner} has not signed`
+      });
+    }
+  }
+
+  // Mandatory order, checked on the first signature of each listed signer
+  if (policy.signerOrder) {
+    const positions = policy.signerOrder
+      .map(signerId => ({ signerId, index: signerIds.indexOf(signerId) }))
+      .filter(entry => entry.index !== -1);
+
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i].index < positions[i - 1].index) {
+        violations.push({
+          rule: 'signerOrder',
+          message: `Signer ${positions[i].signerId} signed before ${positions[i - 1].signerId}`
+        });
+      }
+    }
+  }
+
+  // Role group quorums
+  for (const group of policy.roleGroups ?? []) {
+    const signedCount = group.signerIds.filter(signerId => presentSigners.has(signerId)).length;
+    if (signedCount < group.minSignatures) {
+      violations.push({
+        rule: 'roleGroup',
+        message: `Role ${group.role} requires ${group.minSignatures} signature(s), got ${signedCount}`
+      });
+    }
+  }
+
+  // Chain length
+  if (policy.maxSignatures !== undefined && chainLength > policy.maxSignatures) {
+    violations.push({
+      rule: 'maxSignatures',
+      message: `Chain has ${chainLength} signatures, maximum is ${policy.maxSignatures}`
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,201 @@
+/**
+ * Options for parseStrictJson()
+ */
+export interface StrictJsonOptions {
+  /** Maximum nesting depth of objects and arrays (defaults to 64) */
+  maxDepth?: number;
+  /** Maximum size of the text in UTF-8 bytes (defaults to 5 MiB) */
+  maxBytes?: number;
+}
+
+/**
+ * Error raised for JSON text that is malformed or violates the strict rules
+ */
+export class JsonParseError extends Error {
+  /**
+   * @param reason - What is wrong
+   * @param path - Location in the document, e.g. `payload.items[2]`
+   * @param position - Character offset in the text
+   */
+  constructor(readonly reason: string, readonly path: string, readonly position: number) {
+    super(path ? `${path}: ${reason}` : reason);
+    this.name = 'JsonParseError';
+  }
+}
+
+export const DEFAULT_MAX_JSON_DEPTH = 64;
+export const DEFAULT_MAX_JSON_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Parses JSON text, rejecting what JSON.parse silently accepts
+ *
+ * Duplicate object keys (where JSON.parse keeps the last value) and
+ * `__proto__` keys are errors, and nesting depth and size are bounded.
+ *
+ * @param text - The JSON text
+ * @param options - Depth and size limits
+ * @returns The parsed value
+ * @throws JsonParseError if the text is malformed or breaks a rule
+ */
+export function parseStrictJson(text: string, options: StrictJsonOptions = {}): unknown {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_JSON_BYTES;
+  if (new TextEncoder().encode(text).length > maxBytes) {
+    throw new JsonParseError(`JSON text exceeds ${maxBytes} bytes`, '', 0);
+  }
+
+  const parser = new StrictJsonParser(text, options.maxDepth ?? DEFAULT_MAX_JSON_DEPTH);
+  return parser.parse();
+}
+
+/**
+ * Appends an object key or array index to a path
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? (path ? `${path}.${key}` : key)
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Recursive descent parser; string and number tokens are decoded by JSON.parse
+ */
+class StrictJsonParser {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly maxDepth: number) {}
+
+  parse(): unknown {
+    const value = this.parseValue('', 0);
+    this.skipWhitespace();
+    if (this.position < this.text.length) {
+      this.fail('Unexpected data after JSON value', '');
+    }
+    return value;
+  }
+
+  private parseValue(path: string, depth: number): unknown {
+    this.skipWhitespace();
+    const char = this.text[this.position];
+
+    if (char === '{' || char === '[') {
+      if (depth >= this.maxDepth) {
+        this.fail(`Nesting exceeds ${this.maxDepth} levels`, path);
+      }
+      return char === '{' ? this.parseObject(path, depth + 1) : this.parseArray(path, depth + 1);
+    }
+    if (char === '"') {
+      return this.parseString(path);
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      return this.parseToken(/-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y, path);
+    }
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.text.startsWith(literal, this.position)) {
+        this.position += literal.length;
+        return value;
+      }
+    }
+
+    return this.fail(char === undefined ? 'Unexpected end of JSON' : `Unexpected character ${JSON.stringify(char)}`, path);
+  }
+
+  private parseObject(path: string, depth: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const keys = new Set<string>();
+    this.position++;
+
+    this.skipWhitespace();
+    if (this.text[this.position] === '}') {
+      this.position++;
+      return result;
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text[this.position] !== '"') {
+        this.fail('Expected a string key', path);
+      }
+      const key = this.parseString(path);
+      const keyPath = joinPath(path, key);
+      if (key === '__proto__') {
+        this.fail('__proto__ keys are not allowed', keyPath);
+      }
+      if (keys.has(key)) {
+        this.fail('Duplicate key', keyPath);
+      }
+      keys.add(key);
+
+      this.expect(':', keyPath);
+      result[key] = this.parseValue(keyPath, depth);
+
+      this.skipWhitespace();
+      if (this.text[this.position] === ',') {
+        this.position++;
+        continue;
+      }
+      this.expect('}', path);
+      return result;
+    }
+  }
+
+  private parseArray(path: string, depth: number): unknown[] {
+    const result: unknown[] = [];
+    this.position++;
+
+    this.skipWhitespace();
+    if (this.text[this.position] === ']') {
+      this.position++;
+      return result;
+    }
+
+    for (;;) {
+      result.push(this.parseValue(joinPath(path, result.length), depth));
+      this.skipWhitespace();
+      if (this.text[this.position] === ',') {
+        this.position++;
+        continue;
+      }
+      this.expect(']', path);
+      return result;
+    }
+  }
+
+  private parseString(path: string): string {
+    return this.parseToken(/"(?:[^"\\\u0000-\u001f]+|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y, path) as string;
+  }
+
+  private parseToken(pattern: RegExp, path: string): unknown {
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      this.fail('Malformed JSON token', path);
+    }
+    this.position += match![0].length;
+    return JSON.parse(match![0]);
+  }
+
+  private expect(char: string, path: string): void {
+    this.skipWhitespace();
+    if (this.text[this.position] !== char) {
+      this.fail(`Expected ${JSON.stringify(char)}`, path);
+    }
+    this.position++;
+  }
+
+  private skipWhitespace(): void {
+    for (;;) {
+      const char = this.text[this.position];
+      if (char !== ' ' && char !== '\t' && char !== '\n' && char !== '\r') {
+        return;
+      }
+      this.position++;
+    }
+  }
+
+  private fail(message: string, path: string): never {
+    throw new JsonParseError(`${message} at position ${this.position}`, path, this.position);
+  }
+}
@@ -0,0 +1,250 @@
+import { analyzeTampering } from './tamper-forensics';
+import { signMessage } from './crypto-utils';
+import { eip191Scheme } from './signature-schemes';
+import { DocumentSigner } from './document-signer';
+import { createContentReference } from './content-references';
+import { testDataGenerator } from './test-data-generator';
+import { ChainStep, SignedDocument, SignerRegistry, TimeAwareSignerRegistry } from './types';
+
+describe('Tamper Forensics', () => {
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    document = await testDataGenerator.generateValidDocument();
+  });
+
+  /**
+   * Copies the valid document with its signatures rearranged
+   */
+  function withSignatures(indexes: number[]): SignedDocument {
+    return { ...document, signatures: indexes.map(index => ({ ...document.signatures[index] })) };
+  }
+
+  function kinds(tampered: SignedDocument): string[] {
+    return analyzeTampering(tampered, signerRegistry).findings.map(finding => `${finding.index}:${finding.kind}`);
+  }
+
+  it('should report nothing for a valid document', () => {
+    const report = analyzeTampering(document, signerRegistry);
+
+    expect(report.tampered).toBe(false);
+    expect(report.validPrefixLength).toBe(3);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('should attribute every failure to a modified payload', () => {
+    const tampered = { ...withSignatures([0, 1, 2]), payload: { ...document.payload, content: 'altered' } };
+    const report = analyzeTampering(tampered, signerRegistry);
+
+    expect(report.tampered).toBe(true);
+    expect(report.validPrefixLength).toBe(0);
+    expect(report.findings.map(finding => [finding.kind, finding.causedBy])).toEqual([
+      ['payload-modified', undefined],
+      ['downstream-of-tampering', 0],
+      ['downstream-of-tampering', 0]
+    ]);
+  });
+
+  it('should detect a forged signed hash and see past it', () => {
+    const tampered = withSignatures([0, 1, 2]);
+    tampered.signatures[1].signedHash = `0x${'f'.repeat(64)}`;
+    const report = analyzeTampering(tampered, signerRegistry);
+
+    expect(report.validPrefixLength).toBe(1);
+    expect(report.findings[0]).toMatchObject({ index: 1, kind: 'signed-hash-forged' });
+    expect(report.findings[0].description).toContain(document.signatures[1].signedHash);
+    expect(report.findings[1]).toMatchObject({ index: 2, kind: 'downstream-of-tampering', causedBy: 1 });
+  });
+
+  it('should name who made a substituted signature', async () => {
+    const tampered = withSignatures([0, 1, 2]);
+    const alice = testDataGenerator.getWallet('developer-alice')!;
+    tampered.signatures[1].signature = await signMessage(tampered.signatures[1].signedHash, alice);
+    const report = analyzeTampering(tampered, signerRegistry);
+
+    expect(report.findings[0]).toMatchObject({
+      index: 1,
+      signerId: 'qa-bob',
+      kind: 'signature-substituted',
+      recoveredAddress: alice.address,
+      recoveredSignerId: 'developer-alice'
+    });
+    expect(report.findings[1]).toMatchObject({ index: 2, kind: 'downstream-of-tampering', causedBy: 1 });
+  });
+
+  it('should name the signer of a substitution in a time-aware registry', async () => {
+    const tampered = withSignatures([0, 1, 2]);
+    const charlie = testDataGenerator.getWallet('manager-charlie')!;
+    tampered.signatures[1].signature = await signMessage(tampered.signatures[1].signedHash, charlie);
+    const timeAware: TimeAwareSignerRegistry = Object.fromEntries(
+      Object.entries(signerRegistry).map(([signerId, address]) => [signerId, { keys: [{ address }] }])
+    );
+
+    expect(analyzeTampering(tampered, timeAware).findings[0]).toMatchObject({
+      kind: 'signature-substituted',
+      recoveredSignerId: 'manager-charlie'
+    });
+  });
+
+  it('should detect signed hashes forged along with their signatures', async () => {
+    const tampered = withSignatures([0, 1, 2]);
+    for (const index of [1, 2]) {
+      const wallet = testDataGenerator.getWallet(tampered.signatures[index].signerId)!;
+      tampered.signatures[index].signedHash = `0x${String(index).repeat(64)}`;
+      tampered.signatures[index].signature = await signMessage(`0x${'e'.repeat(64)}`, wallet);
+    }
+    const report = analyzeTampering(tampered, signerRegistry);
+
+    expect(report.validPrefixLength).toBe(1);
+    expect(report.findings.map(finding => finding.kind)).toEqual(['signed-hash-forged', 'signed-hash-forged']);
+    expect(report.findings[0].description)
+      .toBe('Signature 1 does not cover its signed hash, which does not fit the chain either');
+  });
+
+  it('should detect an inserted signature', () => {
+    expect(kinds(withSignatures([0, 0, 1, 2]))).toEqual([
+      '1:signature-inserted',
+      '2:downstream-of-tampering',
+      '3:downstream-of-tampering'
+    ]);
+  });
+
+  it('should detect a removed signature', () => {
+    const report = analyzeTampering(withSignatures([0, 2]), signerRegistry);
+
+    expect(report.validPrefixLength).toBe(1);
+    expect(report.findings.map(finding => finding.kind)).toEqual(['signature-removed']);
+  });
+
+  it('should detect reordered signatures', () => {
+    const report = analyzeTampering(withSignatures([0, 2, 1]), signerRegistry);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({ index: 1, kind: 'signatures-reordered', expectedIndex: 2 }),
+      expect.objectContaining({ index: 2, kind: 'signatures-reordered', expectedIndex: 1 })
+    ]);
+  });
+
+  it('should check eip712-step signatures in their signed context', async () => {
+    const privateKey = '0x1234567890123456789012345678901234567890123456789012345678901234';
+    const stepKey = { scheme: 'eip712-step', privateKey };
+    const registry: TimeAwareSignerRegistry = {
+      'treasurer-erin': { keys: [{ address: eip191Scheme.getPublicKey(privateKey), scheme: 'eip712-step' }] }
+    };
+    const typedDataDomain = { name: 'AcmeApprovals', version: '3', chainId: 1 };
+    const signer = new DocumentSigner(registry, { typedDataDomain });
+    let stepDocument = signer.createDocument(document.payload);
+    for (const hour of [10, 11, 12]) {
+      stepDocument = await signer.sign(stepDocument, 'treasurer-erin', stepKey, new Date(Date.UTC(2025, 0, 1, hour)));
+    }
+    const signatures = stepDocument.signatures;
+
+    const reordered = analyzeTampering({ ...stepDocument, signatures: [signatures[0], signatures[2], signatures[1]] },
+      registry, { typedDataDomain });
+    expect(reordered.findings.map(finding => finding.kind)).toEqual(['signatures-reordered', 'signatures-reordered']);
+
+    const forged = { ...stepDocument, signatures: signatures.map(signature => ({ ...signature })) };
+    forged.signatures[1].signedHash = `0x${'f'.repeat(64)}`;
+    expect(analyzeTampering(forged, registry, { typedDataDomain }).findings[0])
+      .toMatchObject({ index: 1, kind: 'signed-hash-forged' });
+  });
+
+  it('should not report other failures as tampering', () => {
+    const { 'qa-bob': _, ...withoutBob } = signerRegistry;
+    const report = analyzeTampering(document, withoutBob);
+
+    expect(report.tampered).toBe(false);
+    expect(report.validPrefixLength).toBe(1);
+    expect(report.findings).toEqual([
+      expect.objectContaining({ index: 1, kind: 'verification-failure', errorCode: 'UNKNOWN_SIGNER' })
+    ]);
+  });
+
+  describe('records and co-signed steps', () => {
+    const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+    let signer: DocumentSigner;
+
+    beforeAll(() => {
+      signer = new DocumentSigner(signerRegistry);
+    });
+
+    it('should place co-signed steps by the hash they sign', async () => {
+      let stepDocument: SignedDocument<ChainStep> = await signer.sign(
+        signer.createDocument(document.payload), 'developer-alice', wallet('developer-alice')
+      );
+      stepDocument = signer.openCoSignedStep(stepDocument, 2);
+      stepDocument = await signer.coSign(stepDocument, 'qa-bob', wallet('qa-bob'));
+      stepDocument = await signer.coSign(stepDocument, 'manager-charlie', wallet('manager-charlie'));
+      stepDocument = await signer.sign(stepDocument, 'manager-charlie', wallet('manager-charlie'));
+      const [first, coSigned, last] = stepDocument.signatures;
+
+      expect(analyzeTampering(stepDocument, signerRegistry).findings).toEqual([]);
+      expect(analyzeTampering({ ...stepDocument, signatures: [first, last, coSigned] }, signerRegistry).findings)
+        .toEqual([
+          expect.objectContaining({ index: 1, kind: 'signatures-reordered', expectedIndex: 2 }),
+          expect.objectContaining({
+            index: 2, kind: 'signatures-reordered', expectedIndex: 1, signerId: 'qa-bob + manager-charlie'
+          })
+        ]);
+      expect(analyzeTampering({ ...stepDocument, signatures: [first, last] }, signerRegistry).findings)
+        .toEqual([expect.objectContaining({ index: 1, kind: 'signature-removed' })]);
+    });
+
+    it('should place records by the hash they sign', async () => {
+      let recordDocument: SignedDocument<ChainStep> = signer.createDocument(document.payload);
+      recordDocument = await signer.sign(recordDocument, 'developer-alice', wallet('developer-alice'));
+      recordDocument = await signer.sign(recordDocument, 'qa-bob', wallet('qa-bob'));
+      recordDocument = await signer.withdraw(recordDocument, 'qa-bob', wallet('qa-bob'), 1, 'wrong version');
+      recordDocument = await signer.sign(recordDocument, 'manager-charlie', wallet('manager-charlie'));
+      const forged = { ...recordDocument, signatures: recordDocument.signatures.map(step => ({ ...step })) };
+      forged.signatures[2].signedHash = `0x${'f'.repeat(64)}`;
+
+      expect(analyzeTampering(recordDocument, signerRegistry).findings).toEqual([]);
+      expect(kinds(forged as SignedDocument)).toEqual(['2:signed-hash-forged', '3:downstream-of-tampering']);
+      expect(analyzeTampering(forged, signerRegistry).findings[0].description)
+        .toContain(recordDocument.signatures[2].signedHash);
+    });
+  });
+
+  describe('document-level failures', () => {
+    it('should report documents that fail before any signature is checked', () => {
+      const report = analyzeTampering({ ...document, signatures: [] }, signerRegistry);
+
+      expect(report.tampered).toBe(false);
+      expect(report.findings).toEqual([{
+        kind: 'document-failure',
+        index: -1,
+        signerId: '',
+        errorCode: 'EMPTY_CHAIN',
+        description: report.verification.error
+      }]);
+
+      const unsupported = { ...document, header: { canonicalization: 'xml-c14n' } } as unknown as SignedDocument;
+      const malformed = { ...document, signatures: 'none' } as unknown as SignedDocument;
+      expect(analyzeTampering(unsupported, signerRegistry).findings)
+        .toEqual([expect.objectContaining({ kind: 'document-failure', errorCode: 'UNSUPPORTED_CANONICALIZATION' })]);
+      expect(analyzeTampering(malformed, signerRegistry).findings)
+        .toEqual([expect.objectContaining({ kind: 'document-failure', errorCode: 'MALFORMED_DOCUMENT' })]);
+    });
+
+    it('should report referenced content that was modified', async () => {
+      const contract = new TextEncoder().encode('%PDF-1.7 purchase agreement, 500 units');
+      const signer = new DocumentSigner(signerRegistry, { chainOnly: true });
+      const contentDocument = await signer.sign(
+        signer.createDocument({ documentId: 'PO-7', content: createContentReference(contract, 'application/pdf') }),
+        'developer-alice',
+        testDataGenerator.getWallet('developer-alice')!
+      );
+      const substitute = new TextEncoder().encode('%PDF-1.7 purchase agreement, 900 units');
+      const report = analyzeTampering(contentDocument, signerRegistry, { contentLoader: { load: () => substitute } });
+
+      expect(report.tampered).toBe(true);
+      expect(report.validPrefixLength).toBe(1);
+      expect(report.findings).toEqual([
+        expect.objectContaining({ index: -1, kind: 'content-modified', errorCode: 'CONTENT_MISMATCH' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import {
+  SignedDocument,
+  Signature,
+  ChainStep,
+  AnySignerRegistry,
+  ChainContext,
+  TraversalOptions,
+  VerificationResult,
+  VerificationErrorCode
+} from './types';
+import { traverse, findSigningKey } from './traversal';
+import { ChainHasher } from './chain-hasher';
+import { calculateStepHash, isCoSignedStep } from './crypto-utils';
+import { resolveSignerKeys, sameKey } from './key-registry';
+
+/**
+ * What a forensic finding says happened to a signature
+ *
+ * - `payload-modified`: the payload (or the header's hash format) changed after signing
+ * - `signature-substituted`: the signature was replaced; its signed hash still fits the chain
+ * - `signed-hash-forged`: the signed hash was altered and the signature does not cover it
+ * - `signature-inserted`: the signature does not belong in the chain; the others chain around it
+ * - `signature-removed`: a signature before this one is missing, or the previous signature's
+ *   metadata (such as `signedAt`) was altered
+ * - `signatures-reordered`: the signature is genuine but belongs at another position
+ * - `downstream-of-tampering`: the signature is fine but fails because of an earlier finding
+ * - `verification-failure`: the signature failed for a reason other than tampering,
+ *   such as an unknown signer, a revoked key or a timestamp violation
+ * - `content-modified`: the referenced content does not match the digest in the payload
+ * - `document-failure`: the document failed as a whole, e.g. it is malformed, has no
+ *   signatures or an unsupported header, without any signature failing
+ */
+export type TamperKind =
+  | 'payload-modified'
+  | 'signature-substituted'
+  | 'signed-hash-forged'
+  | 'signature-inserted'
+  | 'signature-removed'
+  | 'signatures-reordered'
+  | 'downstream-of-tampering'
+  | 'verification-failure'
+  | 'content-modified'
+  | 'document-failure';
+
+/**
+ * Explanation of why one signature, or the document as a whole, failed verification
+ */
+export interface TamperFinding {
+  /** What happened */
+  kind: TamperKind;
+  /** Position of the affected signature in the document, -1 for the document as a whole */
+  index: number;
+  /** The affected signature's signer, empty for the document as a whole */
+  signerId: string;
+  /** Human readable description */
+  description: string;
+  /** Position the signature belongs at (`signatures-reordered` only) */
+  expectedIndex?: number;
+  /** Index of the finding this failure follows from (`downstream-of-tampering` only) */
+  causedBy?: number;
+  /** Address the substituted signature recovers to, for schemes with address recovery */
+  recoveredAddress?: string;
+  /** Registered signer owning the recovered address, if any */
+  recoveredSignerId?: string;
+  /** The verification error (`verification-failure`, `content-modified` and `document-failure` only) */
+  errorCode?: VerificationErrorCode;
+}
+
+/**
+ * Result of a forensic analysis
+ */
+export interface TamperReport {
+  /** The plain traverse() result */
+  verification: VerificationResult;
+  /** Whether any finding indicates tampering */
+  tampered: boolean;
+  /** Number of leading signatures that verify */
+  validPrefixLength: number;
+  /** One finding per failed signature, ordered by index, or one for the document as a whole */
+  findings: TamperFinding[];
+}
+
+const ROOT_KINDS: TamperKind[] = [
+  'payload-modified',
+  'signature-substituted',
+  'signed-hash-forged',
+  'signature-inserted',
+  'signature-removed',
+  'signatures-reordered',
+  'content-modified'
+];
+
+/**
+ * Verifies a document and explains each failure
+ *
+ * Starting after the longest valid prefix, the chain is rebuilt from the
+ * document's own steps: at each position the step whose signed hash fits
+ * (or whose signature covers the hash it should sign there) is taken next.
+ * Records and co-signed steps sign their own hash over the chain, so each
+ * step is matched against the hash it would sign at that position. How the
+ * document's steps deviate from that reconstruction tells insertions,
+ * removals, reorderings and forgeries apart. Failures that only follow from
+ * an earlier finding are reported as downstream of it. A document that
+ * fails before or apart from its signatures gets a single finding for the
+ * document as a whole.
+ *
+ * @param document - The signed document to analyze
+ * @param signerRegistry - The signer registry
+ * @param options - Traversal options, passed to traverse()
+ * @returns The verification result together with the forensic findings
+ */
+export function analyzeTampering(
+  document: SignedDocument<ChainStep>,
+  signerRegistry: AnySignerRegistry,
+  options: TraversalOptions = {}
+): TamperReport {
+  const verification = traverse(document, signerRegistry, options);
+  const results = verification.signatureResults;
+  const firstInvalid = results.findIndex(sigResult => !sigResult.isValid);
+  const validPrefixLength = firstInvalid === -1 ? results.length : firstInvalid;
+
+  if (firstInvalid === -1) {
+    if (verification.isValid) {
+      return { verification, tampered: false, validPrefixLength, findings: [] };
+    }
+
+    const finding = documentFailure(verification);
+    return { verification, tampered: ROOT_KINDS.includes(finding.kind), validPrefixLength, findings: [finding] };
+  }
+
+  const steps = document.signatures;
+  const header = document.header ?? {};
+  const findings = new Map<number, TamperFinding>();
+  const addFinding = (index: number, finding: Omit<TamperFinding, 'index' | 'signerId'>) => {
+    findings.set(index, { index, signerId: results[index].signerId, ...finding });
+  };
+
+  const hasher = new ChainHasher(document.payload, header);
+  const payloadHash = hasher.currentHash();
+  // Typed-data schemes also sign the step's document and position
+  const chainContext = (index: number): ChainContext => ({
+    documentId: document.payload.documentId,
+    payloadHash,
+    index,
+    domain: options.typedDataDomain
+  });
+
+  // Whether a signature covers a hash at a chain position; undefined if the signer's keys are unknown
+  const signs = (signature: Signature, hash: string, position: number) => {
+    const keys = resolveSignerKeys(signerRegistry, signature.signerId, signature.signedAt);
+    return keys.error ? undefined : findSigningKey(signature, hash, keys.candidates, chainContext(position)) !== undefined;
+  };
+  // Whether a step's signatures cover a hash at a chain position; a co-signed step needs its threshold
+  const covers = (index: number, hash: string, position: number) => {
+    const step = steps[index];
+    if (!isCoSignedStep(step)) {
+      return signs(step as Signature, hash, position);
+    }
+
+    const coverage = step.signatures.map(signature => signs(signature, hash, position));
+    const signers = new Set(step.signatures.filter((_, i) => coverage[i]).map(signature => signature.signerId));
+    if (signers.size >= step.threshold) {
+      return true;
+    }
+    return coverage.includes(undefined) ? undefined : false;
+  };
+  // Whether each step covers its own signed hash where it stands
+  const authentic = steps.map((step, index) => covers(index, step.signedHash, index));
+
+  steps.slice(0, validPrefixLength).forEach(step => hasher.append(step));
+
+  const remaining = steps.map((_, index) => index).slice(validPrefixLength);
+  const placed: number[] = [];
+  let substitutedAt: number | undefined;
+
+  const take = (index: number, step: ChainStep) => {
+    hasher.append(step);
+    placed.push(index);
+    remaining.splice(remaining.indexOf(index), 1);
+  };
+
+  while (remaining.length > 0 && substitutedAt === undefined) {
+    const chainHash = hasher.currentHash();
+    const position = validPrefixLength + placed.length;
+    const stepHash = (index: number) => calculateStepHash(chainHash, steps[index], header);
+
+    const fitting = remaining.find(index => steps[index].signedHash === stepHash(index));
+    if (fitting !== undefined) {
+      // Checked where it fits, as schemes that sign the position reject moved signatures elsewhere
+      if (covers(fitting, stepHash(fitting), position) === false) {
+        // Later hashes cover the substitute's bytes, so nothing after it can be placed
+        addFinding(fitting, substitution(fitting, verification, signerRegistry));
+        substitutedAt = fitting;
+      }
+      take(fitting, steps[fitting]);
+      continue;
+    }
+
+    const forged = remaining.find(index => authentic[index] === false && covers(index, stepHash(index), position));
+    if (forged !== undefined) {
+      addFinding(forged, {
+        kind: 'signed-hash-forged',
+        description: `Signed hash of signature ${forged} was altered; the signature covers ${stepHash(forged)}`
+      });
+      take(forged, { ...steps[forged], signedHash: stepHash(forged) });
+      continue;
+    }
+
+    break;
+  }
+
+  // Placed signatures out of their relative order were reordered
+  const inOrder = [...placed].sort((a, b) => a - b);
+  placed.forEach((index, position) => {
+    if (index !== inOrder[position] && !findings.has(index)) {
+      addFinding(index, {
+        kind: 'signatures-reordered',
+        expectedIndex: validPrefixLength + position,
+        description: `Signature ${index} belongs at position ${validPrefixLength + position}`
+      });
+    }
+  });
+
+  // Signatures that fit nowhere
+  const lastPlaced = Math.max(-1, ...placed);
+  let breakAt = substitutedAt;
+  for (const index of remaining) {
+    if (breakAt !== undefined && index > breakAt) {
+      if (authentic[index] === false) {
+        addFinding(index, forgedHash(index));
+      }
+      continue;
+    }
+
+    if (index < lastPlaced) {
+      addFinding(index, {
+        kind: 'signature-inserted',
+        description: `Signature ${index} does not belong to the chain; the signatures around it chain without it`
+      });
+    } else if (authentic[index] === false) {
+      addFinding(index, forgedHash(index));
+      breakAt = index;
+    } else if (index === 0 && placed.length === 0) {
+      addFinding(index, {
+        kind: 'payload-modified',
+        description: 'Payload was modified after signing: the first signature is genuine but covers a different payload'
+      });
+      breakAt = index;
+    } else {
+      addFinding(index, {
+        kind: 'signature-removed',
+        description: `Signature ${index} is genuine but follows a different chain: a signature before it ` +
+          'was removed or the previous signature was altered'
+      });
+      breakAt = index;
+    }
+  }
+
+  // Every remaining failure follows from a finding or is not tampering
+  const rootIndexes = [...findings.values()]
+    .filter(finding => ROOT_KINDS.includes(finding.kind))
+    .map(finding => finding.index);
+
+  results.forEach((sigResult, index) => {
+    if (sigResult.isValid || findings.has(index)) {
+      return;
+    }
+
+    const cause = rootIndexes.filter(rootIndex => rootIndex < index).pop();
+    if (sigResult.errorCode === 'HASH_MISMATCH' && cause !== undefined) {
+      addFinding(index, {
+        kind: 'downstream-of-tampering',
+        causedBy: cause,
+        description: `Signature ${index} is intact but fails because of the finding at ${cause}`
+      });
+    } else {
+      addFinding(index, {
+        kind: 'verification-failure',
+        errorCode: sigResult.errorCode,
+        description: sigResult.error ?? 'Verification failed'
+      });
+    }
+  });
+
+  const sortedFindings = [...findings.values()].sort((a, b) => a.index - b.index);
+
+  return {
+    verification,
+    tampered: sortedFindings.some(finding => finding.kind !== 'verification-failure'),
+    validPrefixLength,
+    findings: sortedFindings
+  };
+}
+
+/**
+ * Builds the finding for a signature whose signed hash is not covered by its signature
+ */
+function forgedHash(index: number): Omit<TamperFinding, 'index' | 'signerId'> {
+  return {
+    kind: 'signed-hash-forged',
+    description: `Signature ${index} does not cover its signed hash, which does not fit the chain either`
+  };
+}
+
+/**
+ * Builds the finding for a document that fails although none of its signatures do
+ */
+function documentFailure(verification: VerificationResult): TamperFinding {
+  const description = verification.error ?? 'Verification failed';
+  if (verification.errorCode === 'CONTENT_MISMATCH') {
+    return { kind: 'content-modified', index: -1, signerId: '', errorCode: verification.errorCode, description };
+  }
+  return { kind: 'document-failure', index: -1, signerId: '', errorCode: verification.errorCode, description };
+}
+
+/**
+ * Builds the finding for a replaced signature, naming whoever actually signed
+ */
+function substitution(
+  index: number,
+  verification: VerificationResult,
+  signerRegistry: AnySignerRegistry
+): Omit<TamperFinding, 'index' | 'signerId'> {
+  const recoveredAddress = verification.signatureResults[index].errorDetails?.recoveredAddress;
+  const recoveredSignerId = recoveredAddress ? findSignerByKey(signerRegistry, recoveredAddress) : undefined;
+  const signedBy = recoveredSignerId ?? recoveredAddress;
+
+  return {
+    kind: 'signature-substituted',
+    recoveredAddress,
+    recoveredSignerId,
+    description: signedBy
+      ? `Signature ${index} was substituted with one by ${signedBy}`
+      : `Signature ${index} was substituted`
+  };
+}
+
+/**
+ * Finds the signer that a public key or address is registered to
+ */
+function findSignerByKey(registry: AnySignerRegistry, publicKey: string): string | undefined {
+  return Object.keys(registry).find(signerId => {
+    const entry = registry[signerId];
+    if (typeof entry === 'string') {
+      return sameKey(entry, publicKey);
+    }
+    return entry.keys.some(key => sameKey(key.publicKey ?? key.address ?? '', publicKey));
+  });
+}
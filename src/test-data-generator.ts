@@ -1,12 +1,55 @@
 import { ethers } from 'ethers';
-import { SignedDocument, Payload, Signature, SignerRegistry } from './types';
+import { SignedDocument, Payload, Signature, SignerRegistry, DocumentHeader } from './types';
 import { calculateExpectedHash, signMessage } from './crypto-utils';
+import { ChainHasher } from './chain-hasher';
+import { ChainMutation, MutationKind, MUTATION_KINDS, Random, flipHexDigit, mutateChain, randomInt, seededRandom } from './chain-mutations';
+
+/**
+ * Shape of a generated chain
+ */
+export interface ChainOptions {
+  /** Number of signatures */
+  length: number;
+  /** Number of distinct signers, who sign in turn (defaults to all three test signers) */
+  signerCount?: number;
+  /** Header of the document (legacy format if omitted) */
+  header?: DocumentHeader;
+  /** Random number generator choosing the signing order (defaults to round robin) */
+  random?: Random;
+}
+
+/**
+ * Bounds of the chains a mutation run generates
+ */
+export interface MutationRunOptions {
+  /** Longest chain to generate (defaults to 6) */
+  maxLength?: number;
+  /** Most distinct signers to use (defaults to 5) */
+  maxSigners?: number;
+  /** Kinds of mutation to apply (defaults to all) */
+  kinds?: MutationKind[];
+}
+
+/**
+ * A generated chain and its mutations
+ */
+export interface MutationRun {
+  /** Seed that reproduces this run */
+  seed: number;
+  /** The valid chain that was mutated */
+  original: SignedDocument;
+  /** Registry of the chain's signers */
+  signerRegistry: SignerRegistry;
+  /** One mutation per applicable kind */
+  mutations: ChainMutation[];
+}
 
 /**
  * Test data generator for creating valid multi-signed documents
  */
 export class TestDataGenerator {
   private wallets: { [signerId: string]: ethers.Wallet } = {};
+  private generatedWallets: { [signerId: string]: ethers.Wallet } = {};
 
   /**
    * Creates test wallets for signers
@@ -70,6 +113,79 @@ export class TestDataGenerator {
     };
   }
 
+  /**
+   * Creates a valid document with a chain of any length and number of signers
+   *
+   * Signers beyond the three named test signers get deterministic wallets
+   * (`signer-4`, `signer-5`, ...), so generated chains are reproducible.
+   *
+   * @param options - Length, signers, header and signing order of the chain
+   * @returns The document and the registry of its signers
+   */
+  async generateChain(options: ChainOptions): Promise<{ document: SignedDocument; signerRegistry: SignerRegistry }> {
+    const signerIds = this.signerIds(options.signerCount ?? 3);
+    const payload: Payload = {
+      documentId: `CHAIN-${options.length}-${signerIds.length}`,
+      content: `Generated agreement signed ${options.length} times by ${signerIds.length} signers.`
+    };
+    const header = options.header ?? {};
+    const hasher = new ChainHasher(payload, header);
+    const signatures: Signature[] = [];
+    const start = Date.parse('2025-01-01T00:00:00.000Z');
+
+    for (let i = 0; i < options.length; i++) {
+      const signerId = options.random ? signerIds[randomInt(options.random, signerIds.length)] : signerIds[i % signerIds.length];
+      const signedHash = hasher.currentHash();
+      const signature: Signature = {
+        signerId,
+        signature: await signMessage(signedHash, this.getWallet(signerId)!),
+        signedAt: new Date(start + i * 60 * 1000).toISOString(),
+        signedHash
+      };
+      hasher.append(signature);
+      signatures.push(signature);
+    }
+
+    const signerRegistry: SignerRegistry = {};
+    for (const signerId of signerIds) {
+      signerRegistry[signerId] = this.getWallet(signerId)!.address;
+    }
+
+    return {
+      document: { ...(options.header && { header }), payload, signatures },
+      signerRegistry
+    };
+  }
+
+  /**
+   * Generates a random chain and applies every kind of mutation to it
+   *
+   * The seed decides the chain's length, signers, format and every mutation,
+   * so a failing run is reproduced by generating it again with its seed.
+   *
+   * @param seed - Seed of the run
+   * @param options - Bounds of the generated chain and the mutations to apply
+   * @returns The chain and its mutations
+   */
+  async generateMutationRun(seed: number, options: MutationRunOptions = {}): Promise<MutationRun> {
+    const random = seededRandom(seed);
+    const length = 1 + randomInt(random, options.maxLength ?? 6);
+    const signerCount = 1 + randomInt(random, options.maxSigners ?? 5);
+    const header: DocumentHeader | undefined = random() < 0.5 ? { canonicalization: 'jcs' } : undefined;
+    const { document, signerRegistry } = await this.generateChain({ length, signerCount, header, random });
+
+    // Reordering and truncation need at least two signatures
+    const kinds = (options.kinds ?? MUTATION_KINDS)
+      .filter(kind => length > 1 || (kind !== 'reorder' && kind !== 'truncate'));
+
+    return {
+      seed,
+      original: document,
+      signerRegistry,
+      mutations: kinds.map(kind => mutateChain(document, kind, random, Object.keys(signerRegistry)))
+    };
+  }
+
   /**
    * Creates a document with a tampered payload
    */
@@ -88,9 +204,9 @@ export class TestDataGenerator {
   async generateDocumentWithInvalidSignature(): Promise<SignedDocument> {
     const validDoc = await this.generateValidDocument();
     
-    // Corrupt one of the signatures
+    // Corrupt one of the signatures, the same way on every run
     if (validDoc.signatures.length > 1) {
-      validDoc.signatures[1].signature = validDoc.signatures[1].signature.replace('a', 'b');
+      validDoc.signatures[1].signature = flipHexDigit(validDoc.signatures[1].signature, seededRandom(1)).value;
     }
     
     return validDoc;
@@ -102,19 +218,32 @@ export class TestDataGenerator {
   async generateDocumentWithBrokenHashChain(): Promise<SignedDocument> {
     const validDoc = await this.generateValidDocument();
     
-    // Corrupt one of the signed hashes
+    // Corrupt one of the signed hashes, the same way on every run
     if (validDoc.signatures.length > 1) {
-      validDoc.signatures[1].signedHash = validDoc.signatures[1].signedHash.replace('a', 'b');
+      validDoc.signatures[1].signedHash = flipHexDigit(validDoc.signatures[1].signedHash, seededRandom(2)).value;
     }
     
     return validDoc;
   }
 
+  /**
+   * IDs of the first n test signers, creating wallets for signers beyond the named three
+   */
+  private signerIds(count: number): string[] {
+    const signerIds = Object.keys(this.wallets).slice(0, count);
+    for (let n = signerIds.length + 1; n <= count; n++) {
+      const signerId = `signer-${n}`;
+      this.generatedWallets[signerId] ??= new ethers.Wallet(ethers.id(`test-signer-${n}`));
+      signerIds.push(signerId);
+    }
+    return signerIds;
+  }
+
   /**
    * Gets a wallet by signer ID (for testing)
    */
   getWallet(signerId: string): ethers.Wallet | undefined {
-    return this.wallets[signerId];
+    return this.wallets[signerId] ?? this.generatedWallets[signerId];
   }
 }
 
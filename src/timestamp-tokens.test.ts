@@ -0,0 +1,204 @@
+import { ethers } from 'ethers';
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { traverseAsync } from './async-traversal';
+import { InMemorySignerResolver } from './signer-resolver';
+import { IncrementalVerifier } from './incremental-verifier';
+import { parseSignedDocument } from './document-validation';
+import {
+  LocalTimestampAuthority,
+  TimestampAuthority,
+  calculateMessageImprint,
+  checkTimestampToken,
+  timestampSignature
+} from './timestamp-tokens';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry, TimeAwareSignerRegistry, Signature, ChainStep, CoSignedStep } from './types';
+
+describe('Timestamp Tokens', () => {
+  const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+  const payload = { documentId: 'PO-2025-008', content: 'Purchase order: 5 units at $1200' };
+  const tsaTime = new Date('2025-06-15T09:00:00.000Z');
+  const tsa = new LocalTimestampAuthority('tsa-acme', new ethers.Wallet('0x' + '24'.repeat(32)), () => tsaTime);
+  const timestampAuthorities = { 'tsa-acme': tsa.address };
+  let signerRegistry: SignerRegistry;
+  let document: SignedDocument;
+
+  beforeAll(async () => {
+    signerRegistry = testDataGenerator.getSignerRegistry();
+    const signer = new DocumentSigner(signerRegistry, {}, tsa);
+    document = signer.createDocument(payload);
+    document = await signer.sign(document, 'developer-alice', wallet('developer-alice'), new Date('2025-06-15T08:59:00.000Z'));
+    document = await signer.sign(document, 'qa-bob', wallet('qa-bob'), new Date('2025-06-15T08:59:30.000Z'));
+  });
+
+  it('should attach a token covering each signature', () => {
+    const [alice, bob] = document.signatures;
+
+    expect(alice.timestampToken).toMatchObject({
+      tsaId: 'tsa-acme',
+      hashAlgorithm: 'sha256',
+      messageImprint: calculateMessageImprint(alice.signature),
+      genTime: '2025-06-15T09:00:00.000Z',
+      serialNumber: '1'
+    });
+    expect(bob.timestampToken!.serialNumber).toBe('2');
+    expect(traverse(document, signerRegistry, { timestampAuthorities }).isValid).toBe(true);
+  });
+
+  it('should ignore tokens when no authorities are trusted', () => {
+    const [alice, bob] = document.signatures;
+    const foreign = { ...document, signatures: [alice, { ...bob, timestampToken: { ...bob.timestampToken!, tsaId: 'tsa-other' } }] };
+
+    expect(traverse(document, signerRegistry).isValid).toBe(true);
+    expect(traverse(foreign, signerRegistry).isValid).toBe(true);
+    expect(traverse(foreign, signerRegistry, { timestampAuthorities }).errorCode).toBe('INVALID_TIMESTAMP_TOKEN');
+  });
+
+  it('should reject tokens that are untrusted, moved or altered', () => {
+    const [alice, bob] = document.signatures;
+
+    const untrusted = traverse(document, signerRegistry, { timestampAuthorities: { 'tsa-other': tsa.address } });
+    expect(untrusted.errorCode).toBe('INVALID_TIMESTAMP_TOKEN');
+    expect(untrusted.signatureResults[1].error).toBe('Timestamp token of qa-bob is from untrusted authority tsa-acme');
+    expect(untrusted.errorDetails).toMatchObject({ tsaId: 'tsa-acme', signerId: 'qa-bob', index: 1 });
+
+    const moved = { ...document, signatures: [alice, { ...bob, timestampToken: alice.timestampToken }] };
+    expect(traverse(moved, signerRegistry, { timestampAuthorities }).signatureResults[1].error)
+      .toBe('Timestamp token of qa-bob does not cover the signature');
+
+    const backdated = { ...document, signatures: [alice, { ...bob, timestampToken: { ...bob.timestampToken!, genTime: '2025-06-15T08:30:00.000Z' } }] };
+    expect(traverse(backdated, signerRegistry, { timestampAuthorities }).signatureResults[1].error)
+      .toBe('Timestamp token of qa-bob is not signed by authority tsa-acme');
+  });
+
+  it('should reject tokens issued far from the signing time', async () => {
+    const signer = new DocumentSigner(signerRegistry, {}, tsa);
+    const early = await signer.sign(signer.createDocument(payload), 'developer-alice', wallet('developer-alice'), new Date('2025-06-15T07:00:00.000Z'));
+
+    const result = traverse(early, signerRegistry, { timestampAuthorities });
+    expect(result.errorCode).toBe('INVALID_TIMESTAMP_TOKEN');
+    expect(result.signatureResults[0].error).toBe('Timestamp token of developer-alice time 2025-06-15T09:00:00.000Z ' +
+      'is more than 3600000 ms from signedAt 2025-06-15T07:00:00.000Z');
+
+    expect(traverse(early, signerRegistry, { timestampAuthorities, maxTimestampTokenDriftMs: 3 * 60 * 60 * 1000 }).isValid)
+      .toBe(true);
+  });
+
+  it('should cover every field of the token in the next step, even in legacy mode', async () => {
+    const signer = new DocumentSigner(signerRegistry, {}, tsa);
+    let legacy = signer.createDocument(payload, {});
+    legacy = await signer.sign(legacy, 'developer-alice', wallet('developer-alice'));
+    legacy = await signer.sign(legacy, 'qa-bob', wallet('qa-bob'));
+    const [alice, bob] = legacy.signatures;
+    const altered = { ...legacy, signatures: [{ ...alice, timestampToken: { ...alice.timestampToken!, serialNumber: '99' } }, bob] };
+
+    expect(traverse(legacy, signerRegistry).isValid).toBe(true);
+    const result = traverse(altered, signerRegistry);
+    expect(result.signatureResults.map(sigResult => sigResult.errorCode)).toEqual([undefined, 'HASH_MISMATCH']);
+  });
+
+  it('should reject tokens with an invalid time or imprint algorithm', () => {
+    const [alice] = document.signatures;
+    const withToken = (changes: object) => ({ ...alice, timestampToken: { ...alice.timestampToken!, ...changes } });
+
+    expect(checkTimestampToken(withToken({ genTime: 'yesterday' }), timestampAuthorities)?.message)
+      .toBe('Timestamp token of developer-alice has an invalid time: yesterday');
+    expect(checkTimestampToken(withToken({ hashAlgorithm: 'md5' }), timestampAuthorities)?.message)
+      .toBe('Timestamp token of developer-alice uses an unsupported hash algorithm: md5');
+    expect(checkTimestampToken({ ...alice, timestampToken: undefined }, timestampAuthorities)).toBeUndefined();
+  });
+
+  it('should hash signatures that are not hex as text', () => {
+    expect(calculateMessageImprint('c2lnbmF0dXJl')).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(calculateMessageImprint('c2lnbmF0dXJl')).not.toBe(calculateMessageImprint('0xc2'));
+  });
+
+  it('should timestamp every co-signature', async () => {
+    const signer = new DocumentSigner(signerRegistry, {}, tsa);
+    const signedAt = new Date('2025-06-15T08:59:00.000Z');
+    let coSigned: SignedDocument<ChainStep> = signer.openCoSignedStep(signer.createDocument(payload), 2);
+    coSigned = await signer.coSign(coSigned, 'qa-bob', wallet('qa-bob'), signedAt);
+    coSigned = await signer.coSign(coSigned, 'manager-charlie', wallet('manager-charlie'), signedAt);
+
+    const step = coSigned.signatures[0] as CoSignedStep;
+    expect(step.signatures.every(signature => signature.timestampToken?.tsaId === 'tsa-acme')).toBe(true);
+    const timestamps = { notBefore: new Date('2025-06-15T08:59:30.000Z') };
+    expect(traverse(coSigned, signerRegistry, { timestampAuthorities, requireTimestampTokens: true, timestamps }).isValid)
+      .toBe(true);
+  });
+
+  it('should date tokens by the system clock by default', async () => {
+    const systemTsa = new LocalTimestampAuthority('tsa-system', new ethers.Wallet('0x' + '25'.repeat(32)));
+    const before = Date.now();
+    const token = await systemTsa.requestTimestamp({ hashAlgorithm: 'sha256', messageImprint: '0x00', nonce: '0x01' });
+
+    expect(Date.parse(token.genTime)).toBeGreaterThanOrEqual(before);
+    expect(Date.parse(token.genTime)).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should require tokens when asked to', async () => {
+    const signer = new DocumentSigner(signerRegistry);
+    const unstamped = await signer.sign(signer.createDocument(payload), 'developer-alice', wallet('developer-alice'));
+
+    const result = traverse(unstamped, signerRegistry, { timestampAuthorities, requireTimestampTokens: true });
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe('MISSING_TIMESTAMP_TOKEN');
+    expect(result.signatureResults[0].error).toBe('Signature of developer-alice has no timestamp token');
+  });
+
+  describe('trusted signing time', () => {
+    const compromised: TimeAwareSignerRegistry = {
+      'developer-alice': {
+        keys: [{ address: wallet('developer-alice').address }],
+        revocations: [{ address: wallet('developer-alice').address, reason: 'key compromise', effectiveAt: '2025-06-15T08:45:00.000Z' }]
+      }
+    };
+    let backdated: SignedDocument;
+
+    beforeAll(async () => {
+      // Whoever holds the compromised key dates the signature before the revocation
+      const signer = new DocumentSigner(compromised, {}, tsa);
+      backdated = await signer.sign(signer.createDocument(payload), 'developer-alice', wallet('developer-alice'), new Date('2025-06-15T08:30:00.000Z'));
+    });
+
+    it('should resolve keys at the token time', async () => {
+      expect(traverse(backdated, compromised).isValid).toBe(true);
+
+      const result = traverse(backdated, compromised, { timestampAuthorities });
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('KEY_REVOKED');
+
+      const asyncResult = await traverseAsync(backdated, new InMemorySignerResolver(compromised), { timestampAuthorities });
+      expect(asyncResult.errorCode).toBe('KEY_REVOKED');
+
+      const verifier = new IncrementalVerifier(backdated.payload, compromised, backdated.header, { timestampAuthorities });
+      expect(verifier.verifyNext(backdated.signatures[0]).errorCode).toBe('KEY_REVOKED');
+    });
+
+    it('should apply timestamp checks to the token time', () => {
+      const timestamps = { notBefore: new Date('2025-06-15T08:59:45.000Z') };
+
+      expect(traverse(document, signerRegistry, { timestamps }).errorCode).toBe('TIMESTAMP_VIOLATION');
+      expect(traverse(document, signerRegistry, { timestamps, timestampAuthorities }).isValid).toBe(true);
+    });
+  });
+
+  it('should refuse a token for another request', async () => {
+    const misbehaving: TimestampAuthority = {
+      requestTimestamp: request => tsa.requestTimestamp({ ...request, nonce: '0x00' })
+    };
+    const signature: Signature = { ...document.signatures[0], timestampToken: undefined };
+
+    await expect(timestampSignature(signature, misbehaving))
+      .rejects.toThrow('Timestamp authority tsa-acme returned a token for another request');
+  });
+
+  it('should validate the token', () => {
+    const malformed = JSON.parse(JSON.stringify(document));
+    delete malformed.signatures[0].timestampToken.genTime;
+
+    expect(() => parseSignedDocument(malformed))
+      .toThrow('signatures[0].timestampToken.genTime: is required');
+  });
+});
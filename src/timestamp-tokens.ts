@@ -0,0 +1,226 @@
+import { ethers } from 'ethers';
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  Signature,
+  ChainStep,
+  HashAlgorithm,
+  TimestampToken,
+  TimestampAuthorityRegistry,
+  VerificationError
+} from './types';
+import { createHash, createHasher, isCoSignedStep, signMessage, verifySignature } from './crypto-utils';
+import { canonicalize } from './canonical-json';
+
+/**
+ * Hash algorithm of the message imprints in timestamp requests
+ */
+export const DEFAULT_IMPRINT_ALGORITHM: HashAlgorithm = 'sha256';
+
+/**
+ * Default maximum difference between a signature's `signedAt` and its token's time
+ */
+export const DEFAULT_MAX_TOKEN_DRIFT_MS = 60 * 60 * 1000;
+
+/**
+ * A request for a timestamp token
+ */
+export interface TimestampRequest {
+  /** Hash algorithm of the message imprint */
+  hashAlgorithm: HashAlgorithm;
+  /** Hash of the signature bytes to timestamp */
+  messageImprint: string;
+  /** Random value the token must echo */
+  nonce: string;
+}
+
+/**
+ * Client of a timestamp authority
+ */
+export interface TimestampAuthority {
+  /**
+   * Requests a timestamp token
+   * @param request - What to timestamp
+   * @returns The token issued by the authority
+   */
+  requestTimestamp(request: TimestampRequest): Promise<TimestampToken>;
+}
+
+/**
+ * Calculates the message imprint of a signature
+ * @param signature - The signature value; hex signatures are hashed as bytes
+ * @param algorithm - The hash algorithm (defaults to sha256)
+ * @returns The imprint as a 0x-prefixed hex string
+ */
+export function calculateMessageImprint(signature: string, algorithm: HashAlgorithm = DEFAULT_IMPRINT_ALGORITHM): string {
+  const bytes = ethers.isHexString(signature) && signature.length % 2 === 0
+    ? ethers.getBytes(signature)
+    : ethers.toUtf8Bytes(signature);
+  return `0x${bytesToHex(createHasher(algorithm).update(bytes).digest())}`;
+}
+
+/**
+ * Calculates the hash a timestamp authority signs for a token
+ * @param token - The token, with or without its signature
+ * @returns The hash as a 0x-prefixed hex string
+ */
+export function calculateTokenHash(token: Omit<TimestampToken, 'signature'>): string {
+  const { tsaId, hashAlgorithm, messageImprint, genTime, serialNumber, nonce } = token;
+  return createHash(canonicalize({ tsaId, hashAlgorithm, messageImprint, genTime, serialNumber, nonce }), 'sha256');
+}
+
+/**
+ * Timestamps a signature and attaches the token
+ *
+ * The next step's hash covers the token in both canonicalization modes, so
+ * a signature must be timestamped before anybody signs after it.
+ *
+ * @param signature - The signature to timestamp
+ * @param authority - The timestamp authority
+ * @returns The signature with its timestamp token
+ * @throws If the authority answers with a token for another request
+ */
+export async function timestampSignature<S extends Signature>(signature: S, authority: TimestampAuthority): Promise<S> {
+  const request: TimestampRequest = {
+    hashAlgorithm: DEFAULT_IMPRINT_ALGORITHM,
+    messageImprint: calculateMessageImprint(signature.signature),
+    nonce: ethers.hexlify(ethers.randomBytes(16))
+  };
+  const token = await authority.requestTimestamp(request);
+  if (token.messageImprint !== request.messageImprint || token.nonce !== request.nonce) {
+    throw new Error(`Timestamp authority ${token.tsaId} returned a token for another request`);
+  }
+
+  return { ...signature, timestampToken: token };
+}
+
+/**
+ * Checks the timestamp token of a signature
+ * @param signature - The signature
+ * @param authorities - The trusted timestamp authorities
+ * @param required - Whether a signature without a token fails
+ * @param maxDriftMs - Maximum difference between the signature's `signedAt` and the token's time
+ * @returns The problem with the token, or undefined if it verifies (or is absent and not required)
+ */
+export function checkTimestampToken(
+  signature: Signature,
+  authorities: TimestampAuthorityRegistry | undefined,
+  required = false,
+  maxDriftMs = DEFAULT_MAX_TOKEN_DRIFT_MS
+): VerificationError | undefined {
+  const token = signature.timestampToken;
+  if (!token) {
+    return required
+      ? { code: 'MISSING_TIMESTAMP_TOKEN', message: `Signature of ${signature.signerId} has no timestamp token` }
+      : undefined;
+  }
+
+  const invalid = (reason: string): VerificationError => ({
+    code: 'INVALID_TIMESTAMP_TOKEN',
+    message: `Timestamp token of ${signature.signerId} ${reason}`,
+    details: { tsaId: token.tsaId }
+  });
+
+  const authorityKey = authorities?.[token.tsaId];
+  if (!authorityKey) {
+    return invalid(`is from untrusted authority ${token.tsaId}`);
+  }
+  const genTime = Date.parse(token.genTime);
+  if (Number.isNaN(genTime)) {
+    return invalid(`has an invalid time: ${token.genTime}`);
+  }
+  // A token long before or after signedAt was issued for the signature at another time
+  if (!(Math.abs(genTime - Date.parse(signature.signedAt)) <= maxDriftMs)) {
+    return invalid(`time ${token.genTime} is more than ${maxDriftMs} ms from signedAt ${signature.signedAt}`);
+  }
+
+  let imprint: string;
+  try {
+    imprint = calculateMessageImprint(signature.signature, token.hashAlgorithm);
+  } catch {
+    return invalid(`uses an unsupported hash algorithm: ${token.hashAlgorithm}`);
+  }
+  if (typeof token.messageImprint !== 'string' || imprint !== token.messageImprint.toLowerCase()) {
+    return invalid('does not cover the signature');
+  }
+
+  let signedByAuthority: boolean;
+  try {
+    signedByAuthority = verifySignature(calculateTokenHash(token), token.signature, authorityKey);
+  } catch {
+    signedByAuthority = false;
+  }
+  return signedByAuthority ? undefined : invalid(`is not signed by authority ${token.tsaId}`);
+}
+
+/**
+ * Replaces a signature's self-asserted time by the time of its timestamp token
+ * @param signature - The signature
+ * @param authorities - The trusted timestamp authorities
+ * @param maxDriftMs - Maximum difference between the signature's `signedAt` and the token's time
+ * @returns The signature dated at its token's time, or unchanged if it has no verified token
+ */
+export function withTrustedTime<S extends Signature>(
+  signature: S,
+  authorities: TimestampAuthorityRegistry,
+  maxDriftMs = DEFAULT_MAX_TOKEN_DRIFT_MS
+): S {
+  if (!signature.timestampToken || checkTimestampToken(signature, authorities, false, maxDriftMs)) {
+    return signature;
+  }
+  return { ...signature, signedAt: signature.timestampToken.genTime };
+}
+
+/**
+ * Dates a chain step, or each co-signature of a co-signed step, at its timestamp token's time
+ * @param step - The chain step
+ * @param authorities - The trusted timestamp authorities
+ * @param maxDriftMs - Maximum difference between a signature's `signedAt` and its token's time
+ * @returns The step with trusted signing times
+ */
+export function stepWithTrustedTime(
+  step: ChainStep,
+  authorities: TimestampAuthorityRegistry,
+  maxDriftMs = DEFAULT_MAX_TOKEN_DRIFT_MS
+): ChainStep {
+  if (isCoSignedStep(step)) {
+    return { ...step, signatures: step.signatures.map(signature => withTrustedTime(signature, authorities, maxDriftMs)) };
+  }
+  return withTrustedTime(step, authorities, maxDriftMs);
+}
+
+/**
+ * Timestamp authority running in-process, for tests and local deployments
+ */
+export class LocalTimestampAuthority implements TimestampAuthority {
+  private serialNumber = 0;
+
+  /**
+   * @param tsaId - ID of the authority, as known to verifiers
+   * @param wallet - The authority's key, which signs its tokens
+   * @param now - Clock of the authority (defaults to the system clock)
+   */
+  constructor(
+    readonly tsaId: string,
+    private readonly wallet: ethers.Wallet,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Address of the key that signs the authority's tokens
+   */
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  async requestTimestamp(request: TimestampRequest): Promise<TimestampToken> {
+    const token: Omit<TimestampToken, 'signature'> = {
+      tsaId: this.tsaId,
+      hashAlgorithm: request.hashAlgorithm,
+      messageImprint: request.messageImprint,
+      genTime: this.now().toISOString(),
+      serialNumber: String(++this.serialNumber),
+      nonce: request.nonce
+    };
+    return { ...token, signature: await signMessage(calculateTokenHash(token), this.wallet) };
+  }
+}
@@ -0,0 +1,170 @@
+import { validateTimestamps } from './timestamp-validation';
+import { traverse } from './traversal';
+import { testDataGenerator } from './test-data-generator';
+import { ChainStep, Signature, SignerRegistry } from './types';
+
+describe('Timestamp Validation', () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = () => new Date('2025-06-01T12:00:00Z');
+
+  function signaturesAt(...times: string[]): Signature[] {
+    return times.map((signedAt, index) => ({
+      signerId: `signer-${index}`,
+      signature: '0x',
+      signedAt,
+      signedHash: '0x'
+    }));
+  }
+
+  describe('validateTimestamps', () => {
+    it('should accept a well-ordered chain', () => {
+      const signatures = signaturesAt('2025-06-01T09:00:00Z', '2025-06-01T10:00:00Z', '2025-06-01T11:00:00Z');
+      const errors = validateTimestamps(signatures, {
+        requireIncreasing: true,
+        maxClockSkewMs: 0,
+        maxGapMs: HOUR,
+        maxSigningWindowMs: 2 * HOUR,
+        now
+      });
+
+      expect(errors).toEqual([[], [], []]);
+    });
+
+    it('should report timestamps that go backwards', () => {
+      const signatures = signaturesAt('2025-06-01T10:00:00Z', '2025-06-01T09:00:00Z');
+      const errors = validateTimestamps(signatures, { requireIncreasing: true });
+
+      expect(errors[0]).toEqual([]);
+      expect(errors[1][0]).toContain('earlier than the previous signature');
+    });
+
+    it('should report timestamps beyond the allowed clock skew', () => {
+      const signatures = signaturesAt('2025-06-01T12:04:00Z', '2025-06-01T12:06:00Z');
+      const errors = validateTimestamps(signatures, { maxClockSkewMs: 5 * 60 * 1000, now });
+
+      expect(errors[0]).toEqual([]);
+      expect(errors[1][0]).toContain('in the future');
+    });
+
+    it('should report timestamps before the earliest allowed date', () => {
+      const signatures = signaturesAt('1970-01-01T00:00:00Z');
+      const errors = validateTimestamps(signatures, { notBefore: new Date('2020-01-01T00:00:00Z') });
+
+      expect(errors[0][0]).toContain('is before 2020-01-01T00:00:00.000Z');
+    });
+
+    it('should report gaps that are too long', () => {
+      const signatures = signaturesAt('2025-06-01T08:00:00Z', '2025-06-01T08:30:00Z', '2025-06-01T11:00:00Z');
+      const errors = validateTimestamps(signatures, { maxGapMs: HOUR });
+
+      expect(errors[1]).toEqual([]);
+      expect(errors[2][0]).toContain('since the previous signature');
+    });
+
+    it('should report signatures outside the signing window', () => {
+      const signatures = signaturesAt('2025-06-01T08:00:00Z', '2025-06-01T09:00:00Z', '2025-06-01T10:30:00Z');
+      const errors = validateTimestamps(signatures, { maxSigningWindowMs: 2 * HOUR });
+
+      expect(errors[1]).toEqual([]);
+      expect(errors[2]).toEqual(['Signature widens the signing window to 9000000ms, maximum is 7200000ms']);
+    });
+
+    it('should report signatures dated before the start of the signing window', () => {
+      const signatures = signaturesAt('2025-06-01T00:00:00Z', '2020-01-01T00:00:00Z', '2025-05-31T12:00:00Z');
+      const errors = validateTimestamps(signatures, { maxSigningWindowMs: 24 * HOUR });
+
+      expect(errors[0]).toEqual([]);
+      expect(errors[1]).toEqual([
+        `Signature widens the signing window to ${Date.parse('2025-06-01') - Date.parse('2020-01-01')}ms, maximum is ${24 * HOUR}ms`
+      ]);
+      expect(errors[2]).toEqual([]);
+    });
+
+    it('should report unparseable timestamps', () => {
+      const signatures = signaturesAt('yesterday', '2025-06-01T09:00:00Z');
+      const errors = validateTimestamps(signatures, { requireIncreasing: true });
+
+      expect(errors[0]).toEqual(['Invalid timestamp: yesterday']);
+      expect(errors[1]).toEqual([]);
+    });
+
+    describe('co-signed steps', () => {
+      function coSignedAt(...times: string[]): ChainStep {
+        return { type: 'co-signed', threshold: times.length, signedHash: '0x', signatures: signaturesAt(...times) };
+      }
+
+      it('should check every co-signature', () => {
+        const steps = [...signaturesAt('2025-06-01T09:00:00Z'), coSignedAt('1970-01-01T00:00:00Z', '2025-06-01T10:00:00Z')];
+        const errors = validateTimestamps(steps, { requireIncreasing: true, notBefore: new Date('2020-01-01T00:00:00Z') });
+
+        expect(errors[0]).toEqual([]);
+        expect(errors[1]).toEqual([
+          'Timestamp 1970-01-01T00:00:00Z is before 2020-01-01T00:00:00.000Z',
+          'Timestamp 1970-01-01T00:00:00Z is earlier than the previous signature'
+        ]);
+      });
+
+      it('should date the next step against the last co-signature', () => {
+        const steps = [
+          coSignedAt('2025-06-01T10:00:00Z', '2025-06-01T09:00:00Z'),
+          ...signaturesAt('2025-06-01T09:30:00Z', '2025-06-01T12:00:00Z')
+        ];
+        const errors = validateTimestamps(steps, { requireIncreasing: true, maxSigningWindowMs: 2 * HOUR });
+
+        expect(errors[0]).toEqual([]);
+        expect(errors[1]).toEqual(['Timestamp 2025-06-01T09:30:00Z is earlier than the previous signature']);
+        expect(errors[2]).toEqual(['Signature widens the signing window to 10800000ms, maximum is 7200000ms']);
+      });
+
+      it('should report unparseable co-signature times and empty steps', () => {
+        const errors = validateTimestamps(
+          [coSignedAt('2025-06-01T09:00:00Z', 'noon'), coSignedAt(), ...signaturesAt('2025-06-01T10:00:00Z')],
+          { requireIncreasing: true }
+        );
+
+        expect(errors).toEqual([['Invalid timestamp: noon'], ['Invalid timestamp: '], []]);
+      });
+    });
+  });
+
+  describe('traverse with timestamp checks', () => {
+    let signerRegistry: SignerRegistry;
+
+    beforeAll(() => {
+      signerRegistry = testDataGenerator.getSignerRegistry();
+    });
+
+    it('should not check timestamps unless asked to', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const result = traverse(document, signerRegistry);
+
+      expect(result.isValid).toBe(true);
+      expect(result.signatureResults[0].timestampValid).toBeUndefined();
+    });
+
+    it('should accept the generated chain with reasonable limits', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const result = traverse(document, signerRegistry, {
+        timestamps: { requireIncreasing: true, maxClockSkewMs: 4 * HOUR, maxGapMs: 2 * HOUR }
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.signatureResults.every(sigResult => sigResult.timestampValid)).toBe(true);
+    });
+
+    it('should flag the offending signature when timestamps are violated', async () => {
+      const document = await testDataGenerator.generateValidDocument();
+      const result = traverse(document, signerRegistry, {
+        timestamps: { maxClockSkewMs: 0, now: () => new Date(Date.parse(document.signatures[0].signedAt)) }
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[0].isValid).toBe(true);
+      expect(result.signatureResults[1].isValid).toBe(false);
+      expect(result.signatureResults[1].hashChainValid).toBe(true);
+      expect(result.signatureResults[1].signatureValid).toBe(true);
+      expect(result.signatureResults[1].timestampValid).toBe(false);
+      expect(result.signatureResults[1].error).toContain('in the future');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { ChainStep, TimestampPolicy } from './types';
+import { isCoSignedStep } from './crypto-utils';
+
+/**
+ * Checks the `signedAt` timestamps of a chain against a timestamp policy
+ *
+ * Every violation is attributed to the signature that introduced it, e.g. a
+ * gap that is too long is reported on the later of the two signatures, and a
+ * signing window that is too wide on the signature that widened it. Each
+ * co-signature of a co-signed step is checked on its own; the step counts as
+ * signed, for the checks of the next step, when its last co-signature was made.
+ *
+ * @param steps - The signatures (or co-signed steps) in chain order
+ * @param policy - The timestamp constraints to enforce
+ * @returns One list of violation messages per signature (empty when valid)
+ */
+export function validateTimestamps(steps: ChainStep[], policy: TimestampPolicy): string[][] {
+  const now = (policy.now ?? (() => new Date()))().getTime();
+  const signedAts = steps.map(stepSignedAts);
+  const times = signedAts.map(stepTimes => stepTimes.map(signedAt => Date.parse(signedAt)));
+  // A step with an unparseable time has no time as a whole
+  const completedAt = times.map(stepTimes => stepTimes.some(Number.isNaN) ? NaN : Math.max(...stepTimes));
+  const errors: string[][] = steps.map(() => []);
+
+  // Earliest and latest parseable times so far, which span the signing window
+  let earliest = Infinity;
+  let latest = -Infinity;
+
+  for (let i = 0; i < steps.length; i++) {
+    if (Number.isNaN(completedAt[i])) {
+      signedAts[i]
+        .filter((_, j) => Number.isNaN(times[i][j]))
+        .forEach(signedAt => errors[i].push(`Invalid timestamp: ${signedAt}`));
+      continue;
+    }
+
+    const previousTime = i > 0 ? completedAt[i - 1] : NaN;
+
+    times[i].forEach((time, j) => {
+      const signedAt = signedAts[i][j];
+
+      if (policy.maxClockSkewMs !== undefined && time > now + policy.maxClockSkewMs) {
+        errors[i].push(`Timestamp ${signedAt} is in the future`);
+      }
+
+      if (policy.notBefore && time < policy.notBefore.getTime()) {
+        errors[i].push(`Timestamp ${signedAt} is before ${policy.notBefore.toISOString()}`);
+      }
+
+      // Times dated before the earliest signature widen the window as much as later ones
+      const widens = time < earliest || time > latest;
+      earliest = Math.min(earliest, time);
+      latest = Math.max(latest, time);
+      if (policy.maxSigningWindowMs !== undefined && widens && latest - earliest > policy.maxSigningWindowMs) {
+        errors[i].push(`Signature widens the signing window to ${latest - earliest}ms, maximum is ${policy.maxSigningWindowMs}ms`);
+      }
+
+      // Checks against the previous signature
+      if (Number.isNaN(previousTime)) {
+        return;
+      }
+
+      if (policy.requireIncreasing && time < previousTime) {
+        errors[i].push(`Timestamp ${signedAt} is earlier than the previous signature`);
+      }
+
+      if (policy.maxGapMs !== undefined && time - previousTime > policy.maxGapMs) {
+        errors[i].push(`Gap of ${time - previousTime}ms since the previous signature exceeds ${policy.maxGapMs}ms`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Times of a chain step: one per co-signature of a co-signed step
+ */
+function stepSignedAts(step: ChainStep): string[] {
+  if (!isCoSignedStep(step)) {
+    return [step.signedAt];
+  }
+  // A co-signed step without co-signatures has no valid time
+  return step.signatures.length > 0 ? step.signatures.map(signature => signature.signedAt) : [''];
+}
@@ -0,0 +1,219 @@
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { DocumentSigner } from './document-signer';
+import { traverse } from './traversal';
+import { traverseAsync } from './async-traversal';
+import { InMemorySignerResolver } from './signer-resolver';
+import { TransparencyLog, FileLogStorage } from './transparency-log';
+import {
+  calculateChainHead,
+  calculateMerkleRoot,
+  buildInclusionProof,
+  buildConsistencyProof,
+  verifyInclusionProof,
+  verifyConsistencyProof,
+  verifyTreeHead
+} from './merkle-log';
+import { createHash } from './crypto-utils';
+import { testDataGenerator } from './test-data-generator';
+import { SignedDocument, SignerRegistry } from './types';
+
+describe('Transparency Log', () => {
+  const leaves = Array.from({ length: 12 }, (_, i) => createHash(`leaf ${i}`, 'sha256'));
+
+  describe('Merkle proofs', () => {
+    it('should hash the empty tree to the hash of nothing', () => {
+      expect(calculateMerkleRoot([])).toBe(createHash('', 'sha256'));
+      expect(calculateMerkleRoot(leaves.slice(0, 1))).toBe(leaves[0]);
+    });
+
+    it('should prove the inclusion of every leaf in trees of every size', () => {
+      for (let size = 1; size <= leaves.length; size++) {
+        const tree = leaves.slice(0, size);
+        const root = calculateMerkleRoot(tree);
+        for (let index = 0; index < size; index++) {
+          const proof = buildInclusionProof(index, tree);
+          expect(verifyInclusionProof(tree[index], index, size, proof, root)).toBe(true);
+          expect(verifyInclusionProof(tree[(index + 1) % size], index, size, proof, root)).toBe(size === 1);
+        }
+      }
+    });
+
+    it('should reject inclusion proofs for another position or tree', () => {
+      const tree = leaves.slice(0, 7);
+      const root = calculateMerkleRoot(tree);
+      const proof = buildInclusionProof(3, tree);
+
+      expect(verifyInclusionProof(tree[3], 2, 7, proof, root)).toBe(false);
+      expect(verifyInclusionProof(tree[3], 3, 4, proof, root)).toBe(false);
+      expect(verifyInclusionProof(tree[3], 3, 7, proof.slice(1), root)).toBe(false);
+      expect(verifyInclusionProof(tree[3], 7, 7, proof, root)).toBe(false);
+      expect(verifyInclusionProof(tree[3], 3, 7, ['not hex', ...proof.slice(1)], root)).toBe(false);
+    });
+
+    it('should prove that every tree extends every smaller tree', () => {
+      for (let second = 1; second <= leaves.length; second++) {
+        const secondRoot = calculateMerkleRoot(leaves.slice(0, second));
+        for (let first = 1; first <= second; first++) {
+          const firstRoot = calculateMerkleRoot(leaves.slice(0, first));
+          const proof = buildConsistencyProof(first, leaves.slice(0, second));
+          expect(verifyConsistencyProof(first, firstRoot, second, secondRoot, proof)).toBe(true);
+        }
+      }
+    });
+
+    it('should reject consistency proofs for a rewritten history', () => {
+      const rewritten = [...leaves.slice(0, 2), createHash('forged', 'sha256'), ...leaves.slice(3, 10)];
+      const firstRoot = calculateMerkleRoot(leaves.slice(0, 5));
+      const proof = buildConsistencyProof(5, rewritten);
+
+      expect(verifyConsistencyProof(5, firstRoot, 10, calculateMerkleRoot(rewritten), proof)).toBe(false);
+      expect(verifyConsistencyProof(5, firstRoot, 10, calculateMerkleRoot(leaves.slice(0, 10)), proof)).toBe(false);
+      expect(verifyConsistencyProof(10, firstRoot, 5, firstRoot, proof)).toBe(false);
+    });
+  });
+
+  describe('log', () => {
+    const wallet = (signerId: string) => testDataGenerator.getWallet(signerId)!;
+    const logWallet = new ethers.Wallet('0x' + '42'.repeat(32));
+    let signerRegistry: SignerRegistry;
+    let signer: DocumentSigner;
+    let document: SignedDocument;
+    let dir: string;
+
+    beforeAll(async () => {
+      signerRegistry = testDataGenerator.getSignerRegistry();
+      signer = new DocumentSigner(signerRegistry);
+      document = signer.createDocument({ documentId: 'PO-2025-006', content: 'Purchase order: 20 units at $90' });
+      document = await signer.sign(document, 'developer-alice', wallet('developer-alice'));
+    });
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'sst-log-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record verified chain heads and prove their inclusion', async () => {
+      const log = new TransparencyLog(logWallet);
+      const entry = await log.append(document, signerRegistry, {}, new Date('2025-03-01T12:00:00.000Z'));
+
+      expect(entry).toEqual({
+        documentId: 'PO-2025-006',
+        headHash: calculateChainHead(document),
+        recordedAt: '2025-03-01T12:00:00.000Z'
+      });
+      expect(log.treeHead).toMatchObject({ treeSize: 1, timestamp: '2025-03-01T12:00:00.000Z' });
+      expect(verifyTreeHead(log.treeHead!, logWallet.address)).toBe(true);
+      expect(verifyTreeHead(log.treeHead!, wallet('qa-bob').address)).toBe(false);
+
+      const again = await log.append(document, signerRegistry);
+      expect(again).toEqual(entry);
+      expect(log.size).toBe(1);
+    });
+
+    it('should only record documents that verify', async () => {
+      const log = new TransparencyLog(logWallet);
+      const tampered = { ...document, payload: { ...document.payload, content: 'Purchase order: 200 units' } };
+
+      await expect(log.append(tampered, signerRegistry))
+        .rejects.toThrow('Only verified documents can be logged: Signature chain broken at signer: developer-alice');
+      await expect(log.append(document, signerRegistry, { policy: { requiredSigners: ['qa-bob'] } }))
+        .rejects.toThrow('Only verified documents can be logged: Signing policy not satisfied');
+      expect(log.size).toBe(0);
+    });
+
+    it('should fail documents whose log answers with a malformed proof', async () => {
+      const log = new TransparencyLog(logWallet);
+      await log.append(document, signerRegistry);
+      const sources = [
+        { proveInclusion: () => { throw new Error('log unreachable'); } },
+        { proveInclusion: (headHash: string) => ({ ...log.proveInclusion(headHash)!, treeHead: null as any }) },
+        { proveInclusion: () => ({ leafIndex: 0 }) as any }
+      ];
+
+      for (const source of sources) {
+        const result = traverse(document, signerRegistry, { transparencyLog: { log: source, logKey: log.logKey } });
+        expect(result.isValid).toBe(false);
+        expect(result.errorCode).toBe('INVALID_LOG_PROOF');
+        expect(result.error).toContain(`Inclusion of chain head ${calculateChainHead(document)} could not be checked`);
+      }
+    });
+
+    it('should require the chain head to be in the log', async () => {
+      const log = new TransparencyLog(logWallet);
+      await log.append(document, signerRegistry);
+      const transparencyLog = { log, logKey: log.logKey };
+
+      const result = traverse(document, signerRegistry, { transparencyLog });
+      expect(result.isValid).toBe(true);
+      expect(result.logInclusion).toMatchObject({ leafIndex: 0, treeHead: { treeSize: 1 } });
+
+      // A signature appended after logging moves the chain head
+      const extended = await signer.sign(document, 'qa-bob', wallet('qa-bob'));
+      const unlogged = traverse(extended, signerRegistry, { transparencyLog });
+      expect(unlogged.isValid).toBe(false);
+      expect(unlogged.errorCode).toBe('NOT_IN_LOG');
+      expect(unlogged.errorDetails).toEqual({ headHash: calculateChainHead(extended) });
+      expect(unlogged.signatureResults.every(r => r.isValid)).toBe(true);
+
+      await log.append(extended, signerRegistry);
+      const logged = await traverseAsync(extended, new InMemorySignerResolver(signerRegistry), { transparencyLog });
+      expect(logged.isValid).toBe(true);
+      expect(logged.logInclusion!.leafIndex).toBe(1);
+    });
+
+    it('should reject proofs the log key did not sign or that do not lead to the root', async () => {
+      const log = new TransparencyLog(logWallet);
+      await log.append(document, signerRegistry);
+
+      const wrongKey = traverse(document, signerRegistry, { transparencyLog: { log, logKey: wallet('qa-bob').address } });
+      expect(wrongKey.errorCode).toBe('INVALID_LOG_PROOF');
+      expect(wrongKey.error).toBe(`Tree head of size 1 is not signed by the log key ${wallet('qa-bob').address}`);
+
+      const forged = {
+        proveInclusion: (headHash: string) => {
+          const inclusion = log.proveInclusion(headHash)!;
+          return { ...inclusion, entry: { ...inclusion.entry, recordedAt: '2020-01-01T00:00:00.000Z' } };
+        }
+      };
+      const backdated = traverse(document, signerRegistry, { transparencyLog: { log: forged, logKey: log.logKey } });
+      expect(backdated.errorCode).toBe('INVALID_LOG_PROOF');
+      expect(backdated.error).toBe('Inclusion proof of log entry 0 does not match the tree head of size 1');
+    });
+
+    it('should prove that later tree heads extend earlier ones', async () => {
+      const log = new TransparencyLog(logWallet);
+      await log.append(document, signerRegistry);
+      const first = log.treeHead!;
+
+      const extended = await signer.sign(document, 'qa-bob', wallet('qa-bob'));
+      await log.append(extended, signerRegistry);
+      const second = log.treeHead!;
+
+      expect(verifyConsistencyProof(first.treeSize, first.rootHash, second.treeSize, second.rootHash, log.proveConsistency(1)))
+        .toBe(true);
+      expect(() => log.proveConsistency(1, 3)).toThrow('The log has only 2 entries, not 3');
+    });
+
+    it('should persist the log in a directory', async () => {
+      const log = new TransparencyLog(logWallet, new FileLogStorage(dir));
+      await log.append(document, signerRegistry);
+
+      const reopened = new TransparencyLog(logWallet, new FileLogStorage(dir));
+      expect(reopened.size).toBe(1);
+      expect(reopened.treeHead).toEqual(log.treeHead);
+      expect(traverse(document, signerRegistry, { transparencyLog: { log: reopened, logKey: logWallet.address } }).isValid)
+        .toBe(true);
+
+      const entriesFile = path.join(dir, 'entries.jsonl');
+      writeFileSync(entriesFile, readFileSync(entriesFile, 'utf8').replace('PO-2025-006', 'PO-2025-007'));
+      expect(() => new TransparencyLog(logWallet, new FileLogStorage(dir)))
+        .toThrow('Stored tree head of size 1 does not match the stored entries');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import {
+  SignedDocument,
+  ChainStep,
+  AnySignerRegistry,
+  TraversalOptions,
+  LogEntry,
+  LogInclusion,
+  LogProofSource,
+  SignedTreeHead
+} from './types';
+import { signMessage } from './crypto-utils';
+import { traverse } from './traversal';
+import {
+  calculateChainHead,
+  hashLeaf,
+  calculateMerkleRoot,
+  buildInclusionProof,
+  buildConsistencyProof,
+  calculateTreeHeadHash
+} from './merkle-log';
+
+/**
+ * Durable storage of a transparency log
+ *
+ * Entries are only ever appended; the tree head is replaced whenever the
+ * log signs a new one.
+ */
+export interface LogStorage {
+  /**
+   * Reads every entry in log order
+   */
+  readEntries(): LogEntry[];
+  /**
+   * Appends an entry
+   * @param entry - The new entry
+   */
+  appendEntry(entry: LogEntry): void;
+  /**
+   * Reads the latest signed tree head
+   * @returns The tree head, or undefined for a log that never signed one
+   */
+  readTreeHead(): SignedTreeHead | undefined;
+  /**
+   * Replaces the latest signed tree head
+   * @param treeHead - The new tree head
+   */
+  writeTreeHead(treeHead: SignedTreeHead): void;
+}
+
+/**
+ * Log storage that lives as long as the process
+ */
+export class InMemoryLogStorage implements LogStorage {
+  private readonly entries: LogEntry[] = [];
+  private treeHead?: SignedTreeHead;
+
+  readEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  appendEntry(entry: LogEntry): void {
+    this.entries.push({ ...entry });
+  }
+
+  readTreeHead(): SignedTreeHead | undefined {
+    return this.treeHead;
+  }
+
+  writeTreeHead(treeHead: SignedTreeHead): void {
+    this.treeHead = { ...treeHead };
+  }
+}
+
+/**
+ * Log storage in a directory: `entries.jsonl` holds one entry per line and
+ * `tree-head.json` the latest signed tree head
+ */
+export class FileLogStorage implements LogStorage {
+  private readonly entriesFile: string;
+  private readonly treeHeadFile: string;
+
+  /**
+   * @param directory - Directory of the log, created if missing
+   */
+  constructor(directory: string) {
+    mkdirSync(directory, { recursive: true });
+    this.entriesFile = path.join(directory, 'entries.jsonl');
+    this.treeHeadFile = path.join(directory, 'tree-head.json');
+  }
+
+  readEntries(): LogEntry[] {
+    if (!existsSync(this.entriesFile)) {
+      return [];
+    }
+    return readFileSync(this.entriesFile, 'utf8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as LogEntry);
+  }
+
+  appendEntry(entry: LogEntry): void {
+    appendFileSync(this.entriesFile, `${JSON.stringify(entry)}\n`);
+  }
+
+  readTreeHead(): SignedTreeHead | undefined {
+    if (!existsSync(this.treeHeadFile)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(this.treeHeadFile, 'utf8')) as SignedTreeHead;
+  }
+
+  writeTreeHead(treeHead: SignedTreeHead): void {
+    // Replace the file in one step so a crash never leaves half a tree head
+    const temporaryFile = `${this.treeHeadFile}.tmp`;
+    writeFileSync(temporaryFile, JSON.stringify(treeHead, null, 2));
+    renameSync(temporaryFile, this.treeHeadFile);
+  }
+}
+
+/**
+ * Append-only Merkle log of verified document chain heads
+ *
+ * Every recorded head becomes a leaf of an RFC 9162 Merkle tree, and the log
+ * signs a tree head after each append. An inclusion proof against a signed
+ * tree head shows that the document was in that state at the tree head's
+ * timestamp; consistency proofs show that a later tree head extends an
+ * earlier one without rewriting it.
+ */
+export class TransparencyLog implements LogProofSource {
+  private readonly entries: LogEntry[];
+  private readonly leafHashes: string[];
+  private readonly positions = new Map<string, number>();
+  private latestTreeHead?: SignedTreeHead;
+
+  /**
+   * @param wallet - The log's key, which signs its tree heads
+   * @param storage - Where entries and tree heads are kept (in memory by default)
+   * @throws If the stored tree head does not match the stored entries
+   */
+  constructor(private readonly wallet: ethers.Wallet, private readonly storage: LogStorage = new InMemoryLogStorage()) {
+    this.entries = storage.readEntries();
+    this.leafHashes = this.entries.map(hashLeaf);
+    this.entries.forEach((entry, index) => {
+      if (!this.positions.has(entry.headHash)) {
+        this.positions.set(entry.headHash, index);
+      }
+    });
+
+    const treeHead = storage.readTreeHead();
+    if (treeHead) {
+      if (treeHead.treeSize > this.entries.length
+        || calculateMerkleRoot(this.leafHashes.slice(0, treeHead.treeSize)) !== treeHead.rootHash) {
+        throw new Error(`Stored tree head of size ${treeHead.treeSize} does not match the stored entries`);
+      }
+      this.latestTreeHead = treeHead;
+    }
+  }
+
+  /**
+   * Number of entries in the log
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Address of the key that signs the log's tree heads
+   */
+  get logKey(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * The latest signed tree head, if the log has signed one
+   */
+  get treeHead(): SignedTreeHead | undefined {
+    return this.latestTreeHead;
+  }
+
+  /**
+   * Verifies a document and records its chain head
+   *
+   * A head that is already in the log is not recorded again: its first entry,
+   * with the earliest time, is returned.
+   *
+   * @param document - The document
+   * @param signerRegistry - The signer registry to verify the document against
+   * @param options - Traversal options, passed to traverse()
+   * @param recordedAt - Time of recording (defaults to now)
+   * @returns The log entry of the chain head
+   * @throws If the document does not verify
+   */
+  async append(
+    document: SignedDocument<ChainStep>,
+    signerRegistry: AnySignerRegistry,
+    options: TraversalOptions = {},
+    recordedAt: Date = new Date()
+  ): Promise<LogEntry> {
+    const result = traverse(document, signerRegistry, options);
+    if (!result.isValid) {
+      throw new Error(`Only verified documents can be logged: ${result.error}`);
+    }
+
+    const headHash = calculateChainHead(document);
+    const position = this.positions.get(headHash);
+    if (position !== undefined) {
+      return this.entries[position];
+    }
+
+    const entry: LogEntry = {
+      documentId: document.payload.documentId,
+      headHash,
+      recordedAt: recordedAt.toISOString()
+    };
+    this.storage.appendEntry(entry);
+    this.entries.push(entry);
+    this.leafHashes.push(hashLeaf(entry));
+    this.positions.set(headHash, this.entries.length - 1);
+
+    await this.signTreeHead(recordedAt);
+    return entry;
+  }
+
+  /**
+   * Signs a tree head over every entry recorded so far
+   * @param timestamp - Time of signing (defaults to now)
+   * @returns The signed tree head, which becomes the latest unless a larger one was signed meanwhile
+   */
+  async signTreeHead(timestamp: Date = new Date()): Promise<SignedTreeHead> {
+    const unsigned = {
+      treeSize: this.entries.length,
+      rootHash: calculateMerkleRoot(this.leafHashes),
+      timestamp: timestamp.toISOString()
+    };
+    const treeHead: SignedTreeHead = {
+      ...unsigned,
+      signature: await signMessage(calculateTreeHeadHash(unsigned), this.wallet)
+    };
+
+    // Appends racing each other may finish signing out of order
+    if (!this.latestTreeHead || treeHead.treeSize >= this.latestTreeHead.treeSize) {
+      this.latestTreeHead = treeHead;
+      this.storage.writeTreeHead(treeHead);
+    }
+    return treeHead;
+  }
+
+  /**
+   * Proves that a chain head is included in the latest signed tree head
+   * @param headHash - The chain head
+   * @returns The inclusion proof, or undefined if the head is not covered by a signed tree head
+   */
+  proveInclusion(headHash: string): LogInclusion | undefined {
+    const leafIndex = this.positions.get(headHash.toLowerCase());
+    const treeHead = this.latestTreeHead;
+    if (leafIndex === undefined || !treeHead || leafIndex >= treeHead.treeSize) {
+      return undefined;
+    }
+
+    return {
+      entry: { ...this.entries[leafIndex] },
+      leafIndex,
+      auditPath: buildInclusionProof(leafIndex, this.leafHashes.slice(0, treeHead.treeSize)),
+      treeHead
+    };
+  }
+
+  /**
+   * Proves that the log at one size extends the log at an earlier size
+   * @param firstSize - Size of an earlier tree head
+   * @param secondSize - Size of a later tree head (defaults to the current size)
+   * @returns The consistency proof
+   */
+  proveConsistency(firstSize: number, secondSize: number = this.entries.length): string[] {
+    if (secondSize > this.entries.length) {
+      throw new Error(`The log has only ${this.entries.length} entries, not ${secondSize}`);
+    }
+    return buildConsistencyProof(firstSize, this.leafHashes.slice(0, secondSize));
+  }
+}
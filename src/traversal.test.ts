@@ -1,6 +1,16 @@
 import { traverse, createSignerRegistry } from './traversal';
+import { traverseAsync } from './async-traversal';
+import { InMemorySignerResolver } from './signer-resolver';
 import { testDataGenerator } from './test-data-generator';
-import { SignedDocument, VerificationResult, SignatureVerificationResult } from './types';
+import { signMessage, calculateExpectedHash, calculateCoSignedHash } from './crypto-utils';
+import {
+  SignedDocument,
+  ChainStep,
+  CoSignedStep,
+  Signature,
+  VerificationResult,
+  SignatureVerificationResult
+} from './types';
 
 describe('Secure Signature Traversal', () => {
   let signerRegistry: any;
@@ -61,6 +71,32 @@ describe('Secure Signature Traversal', () => {
         expect(result.error).toBe('Document has no payload');
       });
 
+      it('should reject unsupported canonicalization modes', async () => {
+        const document = await testDataGenerator.generateValidDocument();
+        document.header = { canonicalization: 'xml' as any };
+
+        const result = traverse(document, signerRegistry);
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe('Unsupported canonicalization: xml');
+      });
+
+      it('should reject unsupported hash algorithms', async () => {
+        const document = await testDataGenerator.generateValidDocument();
+        document.header = { hashAlgorithm: 'md5' as any };
+
+        const result = traverse(document, signerRegistry);
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe('Hash algorithm not allowed: md5');
+      });
+
+      it('should reject hash algorithms outside the allowlist', async () => {
+        const document = await testDataGenerator.generateValidDocument();
+
+        const result = traverse(document, signerRegistry, { allowedHashAlgorithms: ['sha256', 'sha3-256'] });
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe('Hash algorithm not allowed: keccak256');
+      });
+
       it('should handle null/undefined documents', () => {
         const result1 = traverse(null as any, signerRegistry);
         expect(result1.isValid).toBe(false);
@@ -144,6 +180,67 @@ describe('Secure Signature Traversal', () => {
       });
     });
 
+    describe('Error Codes', () => {
+      it('should report an empty chain', () => {
+        const result = traverse({ payload: { documentId: 'doc', content: '' }, signatures: [] }, signerRegistry);
+        expect(result.errorCode).toBe('EMPTY_CHAIN');
+      });
+
+      it('should report hash mismatches with both hashes', async () => {
+        const document = await testDataGenerator.generateDocumentWithTamperedPayload();
+        const result = traverse(document, signerRegistry);
+
+        expect(result.errorCode).toBe('HASH_MISMATCH');
+        expect(result.errorDetails).toMatchObject({ signerId: 'manager-charlie', index: 2 });
+        expect(result.signatureResults[0].errorDetails).toEqual({
+          signerId: 'developer-alice',
+          expectedHash: expect.stringMatching(/^0x/),
+          actualHash: document.signatures[0].signedHash
+        });
+      });
+
+      it('should report the address a signature recovers to', async () => {
+        const document = await testDataGenerator.generateValidDocument();
+        const alice = testDataGenerator.getWallet('developer-alice')!;
+        document.signatures[1].signature = await signMessage(document.signatures[1].signedHash, alice);
+
+        const sigResult = traverse(document, signerRegistry).signatureResults[1];
+        expect(sigResult.errorCode).toBe('RECOVERED_ADDRESS_MISMATCH');
+        expect(sigResult.errorDetails?.recoveredAddress).toBe(alice.address);
+        expect(sigResult.errorDetails?.expectedKeys).toEqual([signerRegistry['qa-bob']]);
+        expect(sigResult.error).toBe('Invalid cryptographic signature for qa-bob');
+      });
+
+      it.each([
+        ['not hex', 'not-a-signature'],
+        ['truncated', '0x1234']
+      ])('should report malformed signatures (%s)', async (_, signature) => {
+        const document = await testDataGenerator.generateValidDocument();
+        document.signatures[2].signature = signature;
+
+        expect(traverse(document, signerRegistry).signatureResults[2].errorCode).toBe('MALFORMED_SIGNATURE');
+      });
+
+      it('should report unknown signers and schemes', async () => {
+        const document = await testDataGenerator.generateValidDocument();
+        document.signatures[2].scheme = 'rot13';
+        const limitedRegistry = createSignerRegistry([['developer-alice', signerRegistry['developer-alice']]]);
+
+        const result = traverse(document, limitedRegistry);
+        expect(result.signatureResults.map(sigResult => sigResult.errorCode))
+          .toEqual([undefined, 'UNKNOWN_SIGNER', 'UNKNOWN_SIGNER']);
+        expect(traverse(document, signerRegistry).signatureResults[2].errorCode).toBe('UNSUPPORTED_SCHEME');
+      });
+
+      it('should report policy violations', async () => {
+        const document = await testDataGenerator.generateValidDocument();
+        const result = traverse(document, signerRegistry, { policy: { maxSignatures: 2 } });
+
+        expect(result.errorCode).toBe('POLICY_VIOLATION');
+        expect(result.errorDetails).toBeUndefined();
+      });
+    });
+
     describe('Edge Cases', () => {
       it('should handle single signature documents', async () => {
         const payload = { documentId: 'single-sig', content: 'test content' };
@@ -167,6 +264,61 @@ describe('Secure Signature Traversal', () => {
         expect(result.signatureResults).toHaveLength(1);
       });
 
+      it('should verify jcs documents and detect nested tampering', async () => {
+        const payload = {
+          documentId: 'nested',
+          content: 'invoice',
+          lineItems: [{ sku: 'A-1', quantity: 10 }]
+        };
+        const header = { canonicalization: 'jcs' as const };
+        const alice = testDataGenerator.getWallet('developer-alice')!;
+        const { calculateExpectedHash, signMessage } = await import('./crypto-utils');
+        const expectedHash = calculateExpectedHash(payload, [], header);
+
+        const document: SignedDocument = {
+          header,
+          payload,
+          signatures: [{
+            signerId: 'developer-alice',
+            signature: await signMessage(expectedHash, alice),
+            signedAt: new Date().toISOString(),
+            signedHash: expectedHash
+          }]
+        };
+
+        expect(traverse(document, signerRegistry).isValid).toBe(true);
+
+        payload.lineItems[0].quantity = 1000;
+        const result = traverse(document, signerRegistry);
+        expect(result.isValid).toBe(false);
+        expect(result.signatureResults[0].hashChainValid).toBe(false);
+      });
+
+      it('should verify documents hashed with SHA-256', async () => {
+        const payload = { documentId: 'sha-doc', content: 'compliance' };
+        const header = { canonicalization: 'jcs' as const, hashAlgorithm: 'sha256' as const };
+        const alice = testDataGenerator.getWallet('developer-alice')!;
+        const { calculateExpectedHash, signMessage } = await import('./crypto-utils');
+        const expectedHash = calculateExpectedHash(payload, [], header);
+
+        const document: SignedDocument = {
+          header,
+          payload,
+          signatures: [{
+            signerId: 'developer-alice',
+            signature: await signMessage(expectedHash, alice),
+            signedAt: new Date().toISOString(),
+            signedHash: expectedHash
+          }]
+        };
+
+        expect(traverse(document, signerRegistry, { allowedHashAlgorithms: ['sha256'] }).isValid).toBe(true);
+
+        // Relabelling the algorithm breaks the chain
+        document.header = { ...header, hashAlgorithm: 'sha3-256' };
+        expect(traverse(document, signerRegistry).signatureResults[0].hashChainValid).toBe(false);
+      });
+
       it('should handle documents with many signatures', async () => {
         // This test ensures the algorithm scales properly
         const document = await testDataGenerator.generateValidDocument();
@@ -184,6 +336,142 @@ describe('Secure Signature Traversal', () => {
     });
   });
 
+  describe('co-signed steps', () => {
+    /**
+     * Builds alice -> (bob + charlie, threshold of 2) -> alice
+     */
+    async function coSignedDocument(threshold = 2): Promise<SignedDocument<ChainStep>> {
+      const payload = { documentId: 'CO-1', content: 'Contract requiring manager and legal approval' };
+      const header = { canonicalization: 'jcs' as const };
+      const sign = async (signerId: string, hash: string): Promise<Signature> => ({
+        signerId,
+        signature: await signMessage(hash, testDataGenerator.getWallet(signerId)!),
+        signedAt: '2025-01-01T10:00:00.000Z',
+        signedHash: hash
+      });
+
+      const steps: ChainStep[] = [await sign('developer-alice', calculateExpectedHash(payload, [], header))];
+      const stepHash = calculateCoSignedHash(calculateExpectedHash(payload, steps, header), { type: 'co-signed', threshold }, header);
+      steps.push({
+        type: 'co-signed',
+        threshold,
+        signedHash: stepHash,
+        signatures: [await sign('qa-bob', stepHash), await sign('manager-charlie', stepHash)]
+      });
+      steps.push(await sign('developer-alice', calculateExpectedHash(payload, steps, header)));
+
+      return { header, payload, signatures: steps };
+    }
+
+    function withStep(document: SignedDocument<ChainStep>, change: Partial<CoSignedStep>): SignedDocument<ChainStep> {
+      const signatures = [...document.signatures];
+      signatures[1] = { ...(signatures[1] as CoSignedStep), ...change };
+      return { ...document, signatures };
+    }
+
+    it('should verify a chain with a co-signed step', async () => {
+      const result = traverse(await coSignedDocument(), signerRegistry);
+
+      expect(result.isValid).toBe(true);
+      expect(result.signatureResults.map(r => r.signerId))
+        .toEqual(['developer-alice', 'qa-bob + manager-charlie', 'developer-alice']);
+      expect(result.signatureResults[1].threshold).toBe(2);
+      expect(result.signatureResults[1].cosignerResults!.map(r => [r.signerId, r.isValid]))
+        .toEqual([['qa-bob', true], ['manager-charlie', true]]);
+    });
+
+    it('should fail a step below its threshold and report each co-signer', async () => {
+      const document = await coSignedDocument();
+      const step = document.signatures[1] as CoSignedStep;
+      const forged = { ...step.signatures[1], signature: await signMessage(step.signedHash, testDataGenerator.getWallet('qa-bob')!) };
+
+      // The step's bytes changed, so the last signature breaks too; the step itself fails its threshold
+      const result = traverse(withStep(document, { signatures: [step.signatures[0], forged] }), signerRegistry);
+      const stepResult = result.signatureResults[1];
+
+      expect(stepResult.isValid).toBe(false);
+      expect(stepResult.hashChainValid).toBe(true);
+      expect(stepResult.errorCode).toBe('THRESHOLD_NOT_MET');
+      expect(stepResult.errorDetails).toMatchObject({ threshold: 2, validCosigners: 1 });
+      expect(stepResult.cosignerResults!.map(r => r.errorCode)).toEqual([undefined, 'RECOVERED_ADDRESS_MISMATCH']);
+      expect(result.signatureResults[2].errorCode).toBe('HASH_MISMATCH');
+    });
+
+    it('should count a co-signer only once', async () => {
+      const document = await coSignedDocument();
+      const step = document.signatures[1] as CoSignedStep;
+      const result = traverse(withStep(document, { signatures: [step.signatures[0], step.signatures[0]] }), signerRegistry);
+
+      expect(result.signatureResults[1].errorDetails).toMatchObject({ validCosigners: 1 });
+    });
+
+    it('should accept a step with more co-signatures than its threshold', async () => {
+      const document = await coSignedDocument(1);
+      const step = document.signatures[1] as CoSignedStep;
+
+      expect(traverse(document, signerRegistry).isValid).toBe(true);
+      expect(traverse(withStep(document, { signatures: [step.signatures[0]] }), signerRegistry).signatureResults[1].isValid)
+        .toBe(true);
+    });
+
+    it('should bind the threshold into what the co-signers sign', async () => {
+      const document = await coSignedDocument();
+      const step = document.signatures[1] as CoSignedStep;
+      // Stripping a co-signature and lowering the threshold of the last step
+      const lastStep = { ...document, signatures: document.signatures.slice(0, 2) };
+      const lowered = withStep(lastStep, { threshold: 1, signatures: [step.signatures[0]] });
+
+      expect(traverse(lastStep, signerRegistry).isValid).toBe(true);
+      const result = traverse(lowered, signerRegistry);
+      expect(result.isValid).toBe(false);
+      expect(result.signatureResults[1].errorCode).toBe('HASH_MISMATCH');
+      const chainHash = calculateExpectedHash(document.payload, document.signatures.slice(0, 1), document.header);
+      expect(result.signatureResults[1].errorDetails).toMatchObject({
+        expectedHash: calculateCoSignedHash(chainHash, { type: 'co-signed', threshold: 1 }, document.header),
+        actualHash: step.signedHash
+      });
+    });
+
+    it('should link whole steps into the hash chain', async () => {
+      const document = await coSignedDocument();
+      const step = document.signatures[1] as CoSignedStep;
+      const retimed = { ...step.signatures[1], signedAt: '2025-01-02T10:00:00.000Z' };
+
+      const result = traverse(withStep(document, { signatures: [step.signatures[0], retimed] }), signerRegistry);
+      expect(result.signatureResults[1].isValid).toBe(true);
+      expect(result.signatureResults[2].errorCode).toBe('HASH_MISMATCH');
+
+      // Legacy documents cover the co-signatures' fields as well
+      const legacy = { ...document, header: {} };
+      const legacyHash = calculateExpectedHash(legacy.payload, document.signatures.slice(0, 2));
+      const retimedHash = calculateExpectedHash(legacy.payload, withStep(document, { signatures: [step.signatures[0], retimed] }).signatures.slice(0, 2));
+      expect(retimedHash).not.toBe(legacyHash);
+    });
+
+    it('should reject a step whose signed hash does not fit the chain', async () => {
+      const document = await coSignedDocument();
+      const result = traverse(withStep(document, { signedHash: document.signatures[0].signedHash }), signerRegistry);
+
+      expect(result.signatureResults[1].errorCode).toBe('HASH_MISMATCH');
+      expect(result.errorDetails).toMatchObject({ index: 2 });
+    });
+
+    it('should count verified co-signers towards a signing policy', async () => {
+      const document = await coSignedDocument();
+
+      expect(traverse(document, signerRegistry, {
+        policy: { requiredSigners: ['qa-bob', 'manager-charlie'], signerOrder: ['developer-alice', 'qa-bob', 'manager-charlie'] }
+      }).policyViolations).toEqual([]);
+    });
+
+    it('should resolve co-signers in asynchronous traversal', async () => {
+      const result = await traverseAsync(await coSignedDocument(), new InMemorySignerResolver(signerRegistry));
+
+      expect(result.isValid).toBe(true);
+      expect(result.signatureResults[1].cosignerResults).toHaveLength(2);
+    });
+  });
+
   describe('createSignerRegistry function', () => {
     it('should create a proper registry from pairs', () => {
       const pairs: [string, string][] = [
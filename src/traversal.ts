@@ -2,12 +2,38 @@ import {
   SignedDocument,
   VerificationResult,
   SignatureVerificationResult,
-  SignerRegistry
+  SignerRegistry,
+  AnySignerRegistry,
+  TraversalOptions,
+  DocumentHeader,
+  Signature,
+  ChainStep,
+  CoSignedStep,
+  VerificationError,
+  ChainContext,
+  SigningContext
 } from './types';
+import { ethers } from 'ethers';
 import {
-  calculateExpectedHash,
-  verifySignature
+  verifySignature,
+  recoverSigner,
+  isCoSignedStep,
+  calculateStepHash,
+  SUPPORTED_CANONICALIZATIONS,
+  SUPPORTED_HASH_ALGORITHMS,
+  DEFAULT_HASH_ALGORITHM
 } from './crypto-utils';
+import { evaluatePolicy } from './signing-policy';
+import { validateTimestamps } from './timestamp-validation';
+import { resolveSignerKeys, KeyResolution, CandidateKey } from './key-registry';
+import { DEFAULT_SIGNATURE_SCHEME, getSignatureScheme } from './signature-schemes';
+import { calculateExpectedHashes } from './chain-hasher';
+import { validateSignedDocument, DocumentValidationError } from './document-validation';
+import { checkPayloadContent } from './content-references';
+import { currentPayload, checkWithdrawal, computeEffectiveState, approversInForce } from './chain-records';
+import { checkContext, checkReplay } from './replay-protection';
+import { checkLogInclusion } from './merkle-log';
+import { checkTimestampToken, withTrustedTime, stepWithTrustedTime } from './timestamp-tokens';
 
 /**
  * Performs secure signature traversal verification on a signed document
@@ -16,12 +42,43 @@ import {
  * 1. Working backwards through the signature chain (last to first)
  * 2. Verifying each signature's cryptographic authenticity
  * 3. Ensuring the hash chain is intact (no tampering)
+ * 4. Checking the signers against a signing policy, when one is given
+ * 5. Checking signature timestamps, when timestamp checks are requested
  * 
  * @param document - The signed document to verify
- * @param signerRegistry - Mapping of signer IDs to their public addresses
+ * @param signerRegistry - Mapping of signer IDs to their public addresses, or
+ *   a time-aware registry with key rotation and revocation
+ * @param options - Optional traversal settings (signing policy, timestamp checks)
  * @returns Verification result with detailed information
  */
-export function traverse(document: SignedDocument, signerRegistry: SignerRegistry): VerificationResult {
+export function traverse(
+  document: SignedDocument<ChainStep>,
+  signerRegistry: AnySignerRegistry,
+  options: TraversalOptions = {}
+): VerificationResult {
+  return verifyDocument(
+    document,
+    signature => resolveSignerKeys(signerRegistry, signature.signerId, signature.signedAt),
+    options
+  );
+}
+
+/**
+ * Verifies a document with keys supplied by a lookup function
+ *
+ * Shared by the synchronous and asynchronous traversals, which differ only
+ * in how they find the keys of each signer.
+ *
+ * @param document - The signed document to verify
+ * @param lookupKeys - Returns the key resolution for a signature (or co-signature) of the step at an index
+ * @param options - Optional traversal settings
+ * @returns Verification result with detailed information
+ */
+export function verifyDocument(
+  document: SignedDocument<ChainStep>,
+  lookupKeys: (signature: Signature, index: number) => KeyResolution,
+  options: TraversalOptions = {}
+): VerificationResult {
   const result: VerificationResult = {
     isValid: true,
     signatureResults: []
@@ -32,6 +89,7 @@ export function traverse(document: SignedDocument, signerRegistry: SignerRegistr
     return {
       isValid: false,
       error: 'Document has no signatures',
+      errorCode: 'EMPTY_CHAIN',
       signatureResults: []
     };
   }
@@ -40,23 +98,79 @@ export function traverse(document: SignedDocument, signerRegistry: SignerRegistr
     return {
       isValid: false,
       error: 'Document has no payload',
+      errorCode: 'MISSING_PAYLOAD',
       signatureResults: []
     };
   }
 
-  // Process signatures in reverse order (last signature first)
+  // Reject malformed input before any of it is hashed
+  const validationIssues = validateSignedDocument(document, options.validation);
+  if (validationIssues.length > 0) {
+    return {
+      isValid: false,
+      error: new DocumentValidationError(validationIssues).message,
+      errorCode: 'MALFORMED_DOCUMENT',
+      errorDetails: { path: validationIssues[0].path },
+      validationIssues,
+      signatureResults: []
+    };
+  }
+
+  const header = document.header ?? {};
+  const headerError = checkHeader(header, options);
+  if (headerError) {
+    return {
+      isValid: false,
+      error: headerError.message,
+      errorCode: headerError.code,
+      errorDetails: headerError.details,
+      signatureResults: []
+    };
+  }
+
+  // Referenced content must match the digest the signers signed
+  const contentCheck = checkPayloadContent(currentPayload(document), options);
+  if (contentCheck) {
+    result.contentVerified = contentCheck.verified;
+    if (contentCheck.error) {
+      result.isValid = false;
+      result.error = contentCheck.error.message;
+      result.errorCode = contentCheck.error.code;
+      result.errorDetails = contentCheck.error.details;
+    }
+  }
+
+  // Expected hashes are computed forwards in a single pass over the chain
   const signatures = [...document.signatures];
+  const expectedHashes = calculateExpectedHashes(document.payload, signatures, header);
+
+  // Typed-data schemes also sign the step's document and position
+  const chainContext = (index: number): ChainContext => ({
+    documentId: document.payload.documentId,
+    payloadHash: expectedHashes[0],
+    index,
+    domain: options.typedDataDomain
+  });
+
+  // Process signatures in reverse order (last signature first)
+  const timestampErrors = options.timestamps
+    ? validateTimestamps(withTrustedTimes(signatures, options), options.timestamps)
+    : undefined;
   
   for (let i = signatures.length - 1; i >= 0; i--) {
-    const currentSignature = signatures[i];
-    const previousSignatures = signatures.slice(0, i);
-    
-    const sigResult = verifySignatureAtIndex(
-      document.payload,
-      currentSignature,
-      previousSignatures,
-      signerRegistry
+    const sigResult = verifyStep(
+      signatures,
+      i,
+      expectedHashes[i],
+      header,
+      signature => lookupKeys(signature, i),
+      chainContext(i),
+      options
     );
+
+    if (timestampErrors) {
+      applyTimestampErrors(sigResult, timestampErrors[i]);
+    }
     
     // Add to results (maintain chronological order in results)
     result.signatureResults.unshift(sigResult);
@@ -65,22 +179,213 @@ export function traverse(document: SignedDocument, signerRegistry: SignerRegistr
     if (!sigResult.isValid) {
       result.isValid = false;
       if (!result.error) {
-        result.error = `Signature chain broken at signer: ${currentSignature.signerId}`;
+        result.error = `Signature chain broken at signer: ${sigResult.signerId}`;
+        result.errorCode = sigResult.errorCode;
+        result.errorDetails = { ...sigResult.errorDetails, index: i };
       }
     }
   }
 
+  const effectiveState = computeEffectiveState(document, result.signatureResults);
+  result.effectiveState = effectiveState;
+
+  // Check who signed against the policy, counting only verified approvals of
+  // the payload in force that were not withdrawn; the chain length counts
+  // every signature, records and co-signatures included
+  if (options.policy) {
+    const verifiedSigners = approversInForce(effectiveState);
+    const chainLength = signatures.reduce((count, step) => count + (isCoSignedStep(step) ? step.signatures.length : 1), 0);
+
+    result.policyViolations = evaluatePolicy(verifiedSigners, options.policy, chainLength);
+
+    if (result.policyViolations.length > 0) {
+      result.isValid = false;
+      if (!result.error) {
+        result.error = `Signing policy not satisfied: ${result.policyViolations[0].message}`;
+        result.errorCode = 'POLICY_VIOLATION';
+      }
+    }
+  }
+
+  // The chain head must be provably recorded in the transparency log
+  if (options.transparencyLog) {
+    const logCheck = checkLogInclusion(document, options.transparencyLog);
+    if (logCheck.inclusion) {
+      result.logInclusion = logCheck.inclusion;
+    }
+    if (logCheck.error) {
+      result.isValid = false;
+      if (!result.error) {
+        result.error = logCheck.error.message;
+        result.errorCode = logCheck.error.code;
+        result.errorDetails = logCheck.error.details;
+      }
+    }
+  }
+
+  // Only documents that pass every check are recorded as accepted; checkHeader()
+  // rejects documents without a nonce when a replay store is given
+  if (options.replayStore && result.isValid) {
+    const replayError = checkReplay(options.replayStore, document);
+    if (replayError) {
+      result.isValid = false;
+      result.error = replayError.message;
+      result.errorCode = replayError.code;
+      result.errorDetails = replayError.details;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Verifies one step of a chain with the checks that need no other step's result
+ *
+ * Covers the signature or co-signatures, withdrawal rules and timestamp
+ * tokens; timestamp checks compare neighbouring steps and are left to the
+ * caller. Verified timestamp tokens replace the self-asserted signing times
+ * in key lookups.
+ *
+ * @param steps - The chain steps, at least up to the step
+ * @param index - Position of the step
+ * @param expectedHash - The chain hash before the step
+ * @param header - The document header
+ * @param lookupKeys - Returns the key resolution for a signature (or co-signature) of the step
+ * @param context - Document and position of the step, for schemes that sign them
+ * @param options - Traversal options
+ * @returns The verification result for the step
+ */
+export function verifyStep(
+  steps: ChainStep[],
+  index: number,
+  expectedHash: string,
+  header: DocumentHeader,
+  lookupKeys: (signature: Signature) => KeyResolution,
+  context: ChainContext,
+  options: TraversalOptions
+): SignatureVerificationResult {
+  const step = steps[index];
+  const authorities = options.timestampAuthorities;
+  const lookupAt = (signature: Signature) =>
+    lookupKeys(authorities ? withTrustedTime(signature, authorities, options.maxTimestampTokenDriftMs) : signature);
+
+  const stepHash = calculateStepHash(expectedHash, step, header);
+  const result = isCoSignedStep(step)
+    ? verifyCoSignedStep(step, stepHash, lookupAt, context)
+    : verifyChainLink(step, stepHash, lookupAt(step), context);
+
+  const withdrawalError = result.isValid ? checkWithdrawal(steps, index) : undefined;
+  if (withdrawalError) {
+    failLink(result, withdrawalError);
+  }
+
+  if ((authorities !== undefined || options.requireTimestampTokens === true) && result.isValid) {
+    applySignatureCheck(step, result, signature =>
+      checkTimestampToken(signature, authorities, options.requireTimestampTokens, options.maxTimestampTokenDriftMs));
+  }
+
   return result;
 }
 
+/**
+ * Dates chain steps at their verified timestamp tokens' times, for timestamp checks
+ * @param steps - The chain steps
+ * @param options - Traversal options holding the trusted timestamp authorities
+ * @returns The steps with trusted signing times, or the steps unchanged without authorities
+ */
+export function withTrustedTimes(steps: ChainStep[], options: TraversalOptions): ChainStep[] {
+  const authorities = options.timestampAuthorities;
+  return authorities
+    ? steps.map(step => stepWithTrustedTime(step, authorities, options.maxTimestampTokenDriftMs))
+    : steps;
+}
+
+/**
+ * Checks that a document header uses supported and allowed formats
+ * @param header - The document header
+ * @param options - Traversal options holding the hash algorithm allowlist, expected context and replay store
+ * @returns The error, or undefined if the header is acceptable
+ */
+export function checkHeader(header: DocumentHeader, options: TraversalOptions): VerificationError | undefined {
+  if (header.canonicalization && !SUPPORTED_CANONICALIZATIONS.includes(header.canonicalization)) {
+    return {
+      code: 'UNSUPPORTED_CANONICALIZATION',
+      message: `Unsupported canonicalization: ${header.canonicalization}`,
+      details: { canonicalization: header.canonicalization }
+    };
+  }
+
+  const hashAlgorithm = header.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM;
+  const allowedHashAlgorithms = options.allowedHashAlgorithms ?? SUPPORTED_HASH_ALGORITHMS;
+  if (!SUPPORTED_HASH_ALGORITHMS.includes(hashAlgorithm) || !allowedHashAlgorithms.includes(hashAlgorithm)) {
+    return {
+      code: 'HASH_ALGORITHM_NOT_ALLOWED',
+      message: `Hash algorithm not allowed: ${hashAlgorithm}`,
+      details: { hashAlgorithm }
+    };
+  }
+
+  return checkContext(header.context, options.expectedContext, options.replayStore !== undefined);
+}
+
+/**
+ * Fails a verified step whose signature, or any of whose verified co-signatures, fails a check
+ * @param step - The verified chain step
+ * @param result - The step's verification result
+ * @param check - Returns the problem with a signature, if any
+ */
+function applySignatureCheck(
+  step: ChainStep,
+  result: SignatureVerificationResult,
+  check: (signature: Signature) => VerificationError | undefined
+): void {
+  if (!isCoSignedStep(step)) {
+    const error = check(step);
+    if (error) {
+      failLink(result, error);
+    }
+    return;
+  }
+
+  step.signatures.forEach((signature, index) => {
+    const cosignerResult = result.cosignerResults?.[index];
+    const error = cosignerResult?.isValid ? check(signature) : undefined;
+    if (error) {
+      failLink(cosignerResult!, error);
+      if (result.isValid) {
+        failLink(result, error);
+      }
+    }
+  });
+}
+
+/**
+ * Records timestamp violations on a signature result
+ * @param result - The signature result to update
+ * @param errors - Timestamp violations for the signature
+ */
+export function applyTimestampErrors(result: SignatureVerificationResult, errors: string[]): void {
+  result.timestampValid = errors.length === 0;
+  result.timestampErrors = errors;
+
+  if (errors.length > 0 && result.isValid) {
+    failLink(result, { code: 'TIMESTAMP_VIOLATION', message: errors[0] });
+  }
+}
+
 /**
  * Verifies a single signature in the chain
+ * @param signature - The signature to verify
+ * @param expectedHash - The hash of everything before it in the chain
+ * @param keys - The signer's keys at the time of signing
+ * @param context - Document and position of the step, for schemes that sign them
+ * @returns The verification result for this signature
  */
-function verifySignatureAtIndex(
-  payload: any,
-  signature: any,
-  previousSignatures: any[],
-  signerRegistry: SignerRegistry
+export function verifyChainLink(
+  signature: Signature,
+  expectedHash: string,
+  keys: KeyResolution,
+  context?: ChainContext
 ): SignatureVerificationResult {
   const result: SignatureVerificationResult = {
     signerId: signature.signerId,
@@ -89,44 +394,187 @@ function verifySignatureAtIndex(
     signatureValid: false
   };
 
-  // Check if signer is in registry
-  const signerAddress = signerRegistry[signature.signerId];
-  if (!signerAddress) {
-    result.isValid = false;
-    result.error = `Signer ${signature.signerId} not found in registry`;
-    return result;
+  // Check if signer is in registry and had a key at the time of signing
+  if (keys.error) {
+    return failLink(result, {
+      code: keys.errorCode ?? (keys.found ? 'NO_VALID_KEY' : 'UNKNOWN_SIGNER'),
+      message: keys.error,
+      details: { signedAt: signature.signedAt }
+    });
   }
 
   // Step 1: Verify hash chain integrity
-  const expectedHash = calculateExpectedHash(payload, previousSignatures);
   const hashChainValid = expectedHash === signature.signedHash;
   result.hashChainValid = hashChainValid;
 
   if (!hashChainValid) {
-    result.isValid = false;
-    result.error = `Hash chain broken: expected ${expectedHash}, got ${signature.signedHash}`;
-    return result;
+    return failLink(result, {
+      code: 'HASH_MISMATCH',
+      message: `Hash chain broken: expected ${expectedHash}, got ${signature.signedHash}`,
+      details: { expectedHash, actualHash: signature.signedHash }
+    });
   }
 
-  // Step 2: Verify cryptographic signature
-  const signatureValid = verifySignature(
-    signature.signedHash,
-    signature.signature,
-    signerAddress
-  );
-  result.signatureValid = signatureValid;
+  // Step 2: Verify cryptographic signature against the candidate keys
+  const signingKey = findSigningKey(signature, signature.signedHash, keys.candidates, context);
+  result.signatureValid = signingKey !== undefined;
 
-  if (!signatureValid) {
-    result.isValid = false;
-    result.error = `Invalid cryptographic signature for ${signature.signerId}`;
-    return result;
+  if (!signingKey) {
+    const scheme = signature.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+    const schemeKeys = keys.candidates.filter(key => key.scheme === undefined || key.scheme === scheme);
+    return failLink(result, diagnoseSignature(signature, scheme, schemeKeys, signingContext(signature, context)));
   }
 
-  // Both checks passed
+  // Step 3: Reject signatures made with a key that was already revoked
+  if (signingKey.revocation) {
+    return failLink(result, {
+      code: 'KEY_REVOKED',
+      message: `Key of ${signature.signerId} was revoked at ` +
+        `${signingKey.revocation.effectiveAt}: ${signingKey.revocation.reason}`,
+      details: {
+        signedAt: signature.signedAt,
+        revokedAt: signingKey.revocation.effectiveAt,
+        revocationReason: signingKey.revocation.reason
+      }
+    });
+  }
+
+  // All checks passed
   result.isValid = true;
   return result;
 }
 
+/**
+ * Verifies a co-signed step in the chain
+ *
+ * Each co-signature is verified like a single signature; the step is valid
+ * when its signed hash fits the chain and at least `threshold` distinct
+ * co-signers verify.
+ *
+ * @param step - The co-signed step to verify
+ * @param expectedHash - The hash the co-signers must sign, from calculateCoSignedHash()
+ * @param lookupKeys - Returns the keys of a co-signer at the time of signing
+ * @param context - Document and position of the step, for schemes that sign them
+ * @returns The verification result for the step, with one result per co-signature
+ */
+export function verifyCoSignedStep(
+  step: CoSignedStep,
+  expectedHash: string,
+  lookupKeys: (signature: Signature) => KeyResolution,
+  context?: ChainContext
+): SignatureVerificationResult {
+  const cosignerResults = step.signatures.map(signature =>
+    verifyChainLink(signature, expectedHash, lookupKeys(signature), context)
+  );
+  const result: SignatureVerificationResult = {
+    signerId: step.signatures.map(signature => signature.signerId).join(' + '),
+    isValid: true,
+    hashChainValid: expectedHash === step.signedHash,
+    signatureValid: false,
+    threshold: step.threshold,
+    cosignerResults
+  };
+
+  if (!result.hashChainValid) {
+    return failLink(result, {
+      code: 'HASH_MISMATCH',
+      message: `Hash chain broken: expected ${expectedHash}, got ${step.signedHash}`,
+      details: { expectedHash, actualHash: step.signedHash }
+    });
+  }
+
+  // A signer who co-signed twice still counts once
+  const validCosigners = new Set(
+    cosignerResults.filter(cosigner => cosigner.isValid).map(cosigner => cosigner.signerId)
+  ).size;
+  result.signatureValid = validCosigners >= step.threshold;
+
+  if (!result.signatureValid) {
+    return failLink(result, {
+      code: 'THRESHOLD_NOT_MET',
+      message: `Co-signed step has ${validCosigners} of ${step.threshold} required valid signatures`,
+      details: { threshold: step.threshold, validCosigners }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Finds the candidate key that produced a signature over a message
+ * @param signature - The signature, whose scheme selects the eligible keys
+ * @param message - The hash the signature should cover
+ * @param candidates - The signer's candidate keys
+ * @param context - Document and position of the step, for schemes that sign them
+ * @returns The signing key, or undefined if no candidate verifies
+ */
+export function findSigningKey(
+  signature: Signature,
+  message: string,
+  candidates: CandidateKey[],
+  context?: ChainContext
+): CandidateKey | undefined {
+  const scheme = signature.scheme ?? DEFAULT_SIGNATURE_SCHEME;
+  const signing = signingContext(signature, context);
+  return candidates
+    .filter(key => key.scheme === undefined || key.scheme === scheme)
+    .find(key => verifySignature(message, signature.signature, key.publicKey, scheme, signing));
+}
+
+/**
+ * Completes a step's chain context with the signer of one of its signatures
+ */
+function signingContext(signature: Signature, context?: ChainContext): SigningContext | undefined {
+  return context && { ...context, signerId: signature.signerId, signedAt: signature.signedAt };
+}
+
+/**
+ * Marks a signature result as invalid with the given error
+ */
+function failLink(result: SignatureVerificationResult, error: VerificationError): SignatureVerificationResult {
+  result.isValid = false;
+  result.error = error.message;
+  result.errorCode = error.code;
+  result.errorDetails = { signerId: result.signerId, ...error.details };
+  return result;
+}
+
+/**
+ * Works out why a signature did not verify against any of the signer's keys
+ */
+function diagnoseSignature(
+  signature: Signature,
+  scheme: string,
+  keys: CandidateKey[],
+  context?: SigningContext
+): VerificationError {
+  const message = `Invalid cryptographic signature for ${signature.signerId}`;
+  const details = { scheme, expectedKeys: keys.map(key => key.publicKey) };
+  const signatureScheme = getSignatureScheme(scheme);
+
+  if (!signatureScheme) {
+    return { code: 'UNSUPPORTED_SCHEME', message, details };
+  }
+  if (keys.length === 0) {
+    return { code: 'SCHEME_MISMATCH', message, details };
+  }
+  if (typeof signature.signature !== 'string' || !ethers.isHexString(signature.signature, true)) {
+    return { code: 'MALFORMED_SIGNATURE', message, details };
+  }
+  if (!signatureScheme.recover) {
+    return { code: 'BAD_SIGNATURE', message, details };
+  }
+
+  let recoveredAddress: string | undefined;
+  try {
+    recoveredAddress = recoverSigner(signature.signedHash, signature.signature, scheme, context);
+  } catch (error) {
+    return { code: 'MALFORMED_SIGNATURE', message, details };
+  }
+
+  return { code: 'RECOVERED_ADDRESS_MISMATCH', message, details: { ...details, recoveredAddress } };
+}
+
 /**
  * Creates a simple signer registry for testing
  * @param signerMappings - Array of [signerId, address] pairs
@@ -10,6 +10,166 @@ export interface Signature {
   signedAt: string;
   /** Hash of the data that was signed */
   signedHash: string;
+  /** Signature scheme used (defaults to `eip191`) */
+  scheme?: string;
+  /** Token of a timestamp authority proving when the signature existed */
+  timestampToken?: TimestampToken;
+}
+
+/**
+ * A timestamp authority's signed statement that a signature existed at a time
+ *
+ * Modelled on RFC 3161 tokens: the message imprint is the hash of the
+ * signature bytes, so the token cannot be moved to another signature.
+ */
+export interface TimestampToken {
+  /** ID of the timestamp authority */
+  tsaId: string;
+  /** Hash algorithm of the message imprint */
+  hashAlgorithm: HashAlgorithm;
+  /** Hash of the timestamped signature's bytes */
+  messageImprint: string;
+  /** When the authority issued the token (ISO 8601) */
+  genTime: string;
+  /** Serial number, unique per authority */
+  serialNumber: string;
+  /** Nonce of the request, echoed by the authority */
+  nonce?: string;
+  /** EIP-191 signature of the authority over the token hash */
+  signature: string;
+}
+
+/**
+ * A chain step signed by several signers in parallel
+ *
+ * Every co-signature covers the same `signedHash`, which binds the chain
+ * before the step together with the step's type and threshold; the step is
+ * valid when at least `threshold` distinct co-signers verify. The next step's
+ * hash covers the whole step, including all of its co-signatures.
+ */
+export interface CoSignedStep {
+  /** Marks the step as co-signed */
+  type: 'co-signed';
+  /** Minimum number of valid co-signatures */
+  threshold: number;
+  /** Hash of the chain before this step and of the step's type and threshold, signed by every co-signer */
+  signedHash: string;
+  /** The co-signatures */
+  signatures: Signature[];
+}
+
+/**
+ * A signed record withdrawing an earlier approval
+ *
+ * Only the signer of the withdrawn step (or one of its co-signers) can
+ * withdraw it. The record's `signedHash` covers the chain before it and the
+ * record's own fields, so the withdrawal cannot be redirected to another step.
+ */
+export interface WithdrawalStep extends Signature {
+  /** Marks the step as a withdrawal */
+  type: 'withdrawal';
+  /** Position of the withdrawn step in the chain */
+  withdraws: number;
+  /** Why the approval was withdrawn */
+  reason?: string;
+}
+
+/**
+ * A signed record replacing the payload from this point of the chain on
+ *
+ * Steps after the amendment approve the amended payload; steps before it
+ * keep approving the version they signed. The record's `signedHash` covers
+ * the chain before it and the record's own fields, including the new payload.
+ */
+export interface AmendmentStep extends Signature {
+  /** Marks the step as an amendment */
+  type: 'amendment';
+  /** The amended payload; its document ID must not change */
+  payload: Payload;
+  /** Why the payload was amended */
+  reason?: string;
+}
+
+/**
+ * A chain step that records a change instead of approving the payload
+ */
+export type RecordStep = WithdrawalStep | AmendmentStep;
+
+/**
+ * One step of a signature chain: a single signature, a co-signed step, or a
+ * withdrawal or amendment record
+ */
+export type ChainStep = Signature | CoSignedStep | RecordStep;
+
+/**
+ * Content kept outside the document, identified by its digest
+ *
+ * The hash chain covers the reference, so the digest binds every signer to
+ * the exact bytes of the content without embedding them in the document.
+ */
+export interface ContentReference {
+  /** Marks the content as a reference */
+  type: 'content-reference';
+  /** Hash of the content bytes as a 0x-prefixed hex string */
+  digest: string;
+  /** Algorithm of `digest` (defaults to `sha256`) */
+  algorithm?: HashAlgorithm;
+  /** Size of the content in bytes */
+  size: number;
+  /** Media type of the content, e.g. `application/pdf` */
+  mediaType: string;
+  /** Where the content can be fetched from, if anywhere */
+  uri?: string;
+}
+
+/**
+ * Source of the bytes behind content references
+ *
+ * `traverse()` needs a synchronous loader; `traverseAsync()` also accepts
+ * loaders that return a promise.
+ */
+export interface ContentLoader {
+  /**
+   * Loads referenced content
+   * @param reference - The content reference
+   * @returns The content bytes, or undefined if the content is not available
+   */
+  load(reference: ContentReference): Uint8Array | undefined | Promise<Uint8Array | undefined>;
+}
+
+/**
+ * Content key of an encrypted payload, wrapped for one recipient
+ */
+export interface WrappedKey {
+  /** Identifies the recipient, e.g. `auditor-carol` */
+  recipientId: string;
+  /** Key wrapping algorithm */
+  algorithm: 'RSA-OAEP-256';
+  /** The content key encrypted with the recipient's public key, base64 */
+  wrappedKey: string;
+}
+
+/**
+ * Payload content encrypted for a set of recipients
+ *
+ * The hash chain covers the ciphertext and the commitment, so the chain can
+ * be verified without any decryption key.
+ */
+export interface EncryptedContent {
+  /** Marks the content as encrypted */
+  type: 'encrypted';
+  /** Content encryption algorithm */
+  algorithm: 'AES-256-GCM';
+  /** GCM nonce, base64 */
+  iv: string;
+  /** The encrypted content, base64 */
+  ciphertext: string;
+  /** GCM authentication tag, base64 */
+  tag: string;
+  /** HMAC-SHA256 of the plaintext under the content's MAC key, as 0x-prefixed hex */
+  commitment: string;
+  /** The content key, wrapped for every recipient */
+  recipients: WrappedKey[];
 }
 
 /**
@@ -18,19 +178,193 @@ export interface Signature {
 export interface Payload {
   /** Unique document identifier */
   documentId: string;
-  /** The actual document content */
-  content: string;
+  /** The actual document content: inline, a reference to external content, or encrypted */
+  content: string | ContentReference | EncryptedContent;
   [key: string]: any; // Allow additional properties
 }
 
+/**
+ * How payloads and signatures are serialized before hashing
+ *
+ * - `legacy`: top-level keys sorted; nested objects are not canonicalized
+ * - `jcs`: JSON Canonicalization Scheme (RFC 8785) at every nesting level
+ */
+export type CanonicalizationMode = 'legacy' | 'jcs';
+
+/**
+ * Hash algorithm used to build a document's hash chain
+ */
+export type HashAlgorithm = 'keccak256' | 'sha256' | 'sha512' | 'sha3-256' | 'sha3-512';
+
+/**
+ * Format markers describing how a document's chain was built
+ */
+export interface DocumentHeader {
+  /** Serialization used for hashing (defaults to `legacy`) */
+  canonicalization?: CanonicalizationMode;
+  /** Hash algorithm of the chain (defaults to `keccak256`) */
+  hashAlgorithm?: HashAlgorithm;
+  /** Where and what the document is for; hashed ahead of the payload */
+  context?: DocumentContext;
+}
+
+/**
+ * Deployment and purpose a document is signed for
+ *
+ * The context is hashed into the chain, so signatures made for one
+ * application, environment or document type do not verify in another, and
+ * the nonce makes the chains of otherwise identical documents differ.
+ */
+export interface DocumentContext {
+  /** Application the document belongs to, e.g. `acme-procurement` */
+  applicationId?: string;
+  /** Deployment environment, e.g. `production` */
+  environment?: string;
+  /** Kind of document, e.g. `purchase-order` */
+  documentType?: string;
+  /** Random value unique to the document */
+  nonce?: string;
+}
+
 /**
  * Represents a complete signed document with signature chain
+ *
+ * `SignedDocument` is a linear chain of single signatures;
+ * `SignedDocument<ChainStep>` may also contain co-signed steps.
  */
-export interface SignedDocument {
+export interface SignedDocument<Step extends ChainStep = Signature> {
+  /** Format markers; documents without a header use the legacy format */
+  header?: DocumentHeader;
   /** The original document data */
   payload: Payload;
-  /** Array of signatures in chronological order (first signer to last signer) */
-  signatures: Signature[];
+  /** Chain steps in chronological order (first signer to last signer) */
+  signatures: Step[];
+}
+
+/**
+ * Stable, machine-readable reason a verification failed
+ *
+ * Document level:
+ * - `EMPTY_CHAIN`: the document has no signatures
+ * - `MISSING_PAYLOAD`: the document has no payload
+ * - `MALFORMED_DOCUMENT`: the document does not match the SignedDocument schema
+ * - `UNSUPPORTED_CANONICALIZATION`: the header names an unknown canonicalization
+ * - `HASH_ALGORITHM_NOT_ALLOWED`: the header's hash algorithm is unsupported or not allowed
+ * - `POLICY_VIOLATION`: the verified signers do not satisfy the signing policy
+ * - `CONTEXT_MISMATCH`: the document's context differs from the expected context, or
+ *   lacks the nonce a replay store needs
+ * - `REPLAYED_DOCUMENT`: the replay store already accepted a version of the document that this one does not extend
+ *
+ * Signature level:
+ * - `UNKNOWN_SIGNER`: the signer is not in the registry
+ * - `NO_VALID_KEY`: the signer had no key valid at the time of signing
+ * - `RESOLVER_FAILURE`: the signer's keys could not be fetched
+ * - `HASH_MISMATCH`: the signed hash does not match the chain
+ * - `UNSUPPORTED_SCHEME`: the signature names an unregistered scheme
+ * - `SCHEME_MISMATCH`: none of the signer's keys signs with the signature's scheme
+ * - `MALFORMED_SIGNATURE`: the signature cannot be decoded
+ * - `RECOVERED_ADDRESS_MISMATCH`: the signature recovers to an address other than the signer's
+ * - `BAD_SIGNATURE`: the signature does not verify against the signer's keys
+ * - `KEY_REVOKED`: the signing key was revoked at the time of signing
+ * - `TIMESTAMP_VIOLATION`: the signature's timestamp fails the timestamp checks
+ * - `CONTENT_UNAVAILABLE`: referenced content could not be loaded (and chain-only mode is off)
+ * - `CONTENT_MISMATCH`: referenced content does not match its digest or size
+ * - `THRESHOLD_NOT_MET`: fewer co-signatures of a co-signed step verified than its threshold requires
+ * - `INVALID_WITHDRAWAL`: a withdrawal names a step its signer did not sign, or one already withdrawn
+ * - `NOT_IN_LOG`: the document's chain head is not recorded in the required transparency log
+ * - `INVALID_LOG_PROOF`: the log's inclusion proof or tree head does not verify
+ * - `MISSING_TIMESTAMP_TOKEN`: timestamp tokens are required and the signature has none
+ * - `INVALID_TIMESTAMP_TOKEN`: the timestamp token is not from a trusted authority, or does not cover the signature
+ */
+export type VerificationErrorCode =
+  | 'EMPTY_CHAIN'
+  | 'MISSING_PAYLOAD'
+  | 'MALFORMED_DOCUMENT'
+  | 'UNSUPPORTED_CANONICALIZATION'
+  | 'HASH_ALGORITHM_NOT_ALLOWED'
+  | 'POLICY_VIOLATION'
+  | 'UNKNOWN_SIGNER'
+  | 'NO_VALID_KEY'
+  | 'RESOLVER_FAILURE'
+  | 'HASH_MISMATCH'
+  | 'UNSUPPORTED_SCHEME'
+  | 'SCHEME_MISMATCH'
+  | 'MALFORMED_SIGNATURE'
+  | 'RECOVERED_ADDRESS_MISMATCH'
+  | 'BAD_SIGNATURE'
+  | 'KEY_REVOKED'
+  | 'TIMESTAMP_VIOLATION'
+  | 'THRESHOLD_NOT_MET'
+  | 'CONTENT_UNAVAILABLE'
+  | 'CONTENT_MISMATCH'
+  | 'INVALID_WITHDRAWAL'
+  | 'CONTEXT_MISMATCH'
+  | 'REPLAYED_DOCUMENT'
+  | 'NOT_IN_LOG'
+  | 'INVALID_LOG_PROOF'
+  | 'MISSING_TIMESTAMP_TOKEN'
+  | 'INVALID_TIMESTAMP_TOKEN';
+
+/**
+ * Structured context of a verification error; only the fields relevant to the code are set
+ */
+export interface VerificationErrorDetails {
+  /** The signer of the failing signature */
+  signerId?: string;
+  /** Position of the failing signature in the chain (document-level errors only) */
+  index?: number;
+  /** Timestamp of the failing signature */
+  signedAt?: string;
+  /** Hash the chain requires at this position */
+  expectedHash?: string;
+  /** Hash the signature actually signed */
+  actualHash?: string;
+  /** Scheme of the failing signature */
+  scheme?: string;
+  /** Keys or addresses the signature was checked against */
+  expectedKeys?: string[];
+  /** Address the signature recovers to (Ethereum schemes) */
+  recoveredAddress?: string;
+  /** When the signing key was revoked */
+  revokedAt?: string;
+  /** Why the signing key was revoked */
+  revocationReason?: string;
+  /** Canonicalization named by the header */
+  canonicalization?: string;
+  /** Hash algorithm named by the header */
+  hashAlgorithm?: string;
+  /** Location of the offending value in the document, e.g. `signatures[1].signedHash` */
+  path?: string;
+  /** Co-signatures a co-signed step requires */
+  threshold?: number;
+  /** Distinct co-signers of a co-signed step that verified */
+  validCosigners?: number;
+  /** Size of referenced content given by its reference */
+  expectedSize?: number;
+  /** Actual size of the loaded content */
+  actualSize?: number;
+  /** Position of the step a withdrawal names */
+  withdraws?: number;
+  /** Number of steps of the accepted version a replayed document repeats or rolls back */
+  acceptedLength?: number;
+  /** Hash of the document's whole chain, as recorded in a transparency log */
+  headHash?: string;
+  /** Size of the log tree a proof was checked against */
+  treeSize?: number;
+  /** Timestamp authority of a failing timestamp token */
+  tsaId?: string;
+}
+
+/**
+ * A verification failure with its code, message and details
+ */
+export interface VerificationError {
+  /** Machine-readable reason */
+  code: VerificationErrorCode;
+  /** Human readable description, as reported in `error` */
+  message: string;
+  /** Structured context */
+  details?: VerificationErrorDetails;
 }
 
 /**
@@ -41,8 +375,55 @@ export interface VerificationResult {
   isValid: boolean;
   /** Detailed error message if validation fails */
   error?: string;
+  /** Machine-readable reason for `error` */
+  errorCode?: VerificationErrorCode;
+  /** Structured context for `error` */
+  errorDetails?: VerificationErrorDetails;
   /** Details about each signature verification */
   signatureResults: SignatureVerificationResult[];
+  /** Signing policy rules that were not satisfied (only set when a policy was given) */
+  policyViolations?: PolicyViolation[];
+  /** Schema problems of a malformed document */
+  validationIssues?: ValidationIssue[];
+  /**
+   * Whether referenced content was checked against its digest (only set for
+   * payloads with a content reference; false in chain-only mode)
+   */
+  contentVerified?: boolean;
+  /** The payload and approvals in force after every amendment and withdrawal */
+  effectiveState?: EffectiveState;
+  /** Proof that the chain head is in the transparency log (only set when inclusion was required) */
+  logInclusion?: LogInclusion;
+}
+
+/**
+ * An approval of the payload by one signer
+ */
+export interface Approval {
+  /** The approving signer */
+  signerId: string;
+  /** Position of the approving step in the chain */
+  index: number;
+  /** When the approval was signed */
+  signedAt: string;
+  /** Payload version approved: 0 for the original, n after the nth amendment */
+  payloadVersion: number;
+  /** Position of the withdrawal, if the approval was withdrawn */
+  withdrawnAt?: number;
+}
+
+/**
+ * State of a document after applying its amendments and withdrawals
+ */
+export interface EffectiveState {
+  /** The payload in force: the last amendment's, or the original */
+  payload: Payload;
+  /** Version of the payload in force */
+  payloadVersion: number;
+  /** Every verified approval in chain order, including withdrawn ones */
+  approvals: Approval[];
+  /** Signers with an approval of the payload in force that was not withdrawn */
+  currentApprovers: string[];
 }
 
 /**
@@ -55,10 +436,22 @@ export interface SignatureVerificationResult {
   isValid: boolean;
   /** Error message for this signature if invalid */
   error?: string;
+  /** Machine-readable reason for `error` */
+  errorCode?: VerificationErrorCode;
+  /** Structured context for `error` */
+  errorDetails?: VerificationErrorDetails;
   /** Whether the hash chain is intact up to this point */
   hashChainValid: boolean;
   /** Whether the cryptographic signature is valid */
   signatureValid: boolean;
+  /** Whether the timestamp checks passed (only set when timestamp checks were requested) */
+  timestampValid?: boolean;
+  /** Timestamp violations for this signature */
+  timestampErrors?: string[];
+  /** Co-signatures a co-signed step requires (co-signed steps only) */
+  threshold?: number;
+  /** Result of each co-signature, in step order (co-signed steps only) */
+  cosignerResults?: SignatureVerificationResult[];
 }
 
 /**
@@ -67,3 +460,333 @@ export interface SignatureVerificationResult {
 export interface SignerRegistry {
   [signerId: string]: string; // signerId -> public address
 }
+
+/**
+ * Trusted timestamp authorities
+ */
+export interface TimestampAuthorityRegistry {
+  [tsaId: string]: string; // tsaId -> address of the key signing its tokens
+}
+
+/**
+ * A public key of a signer, valid for a period of time
+ */
+export interface SignerKey {
+  /** The key's public address (Ethereum schemes) */
+  address?: string;
+  /** The public key in the format its scheme expects, e.g. PEM for `ed25519` */
+  publicKey?: string;
+  /** Scheme the key signs with (defaults to `eip191`) */
+  scheme?: string;
+  /** Start of the validity interval, inclusive (unbounded if omitted) */
+  validFrom?: string;
+  /** End of the validity interval, exclusive (unbounded if omitted) */
+  validUntil?: string;
+}
+
+/**
+ * Revocation of a signer key
+ */
+export interface KeyRevocation {
+  /** The revoked key's public address */
+  address?: string;
+  /** The revoked public key, for keys registered by public key */
+  publicKey?: string;
+  /** Why the key was revoked, e.g. "key compromise" */
+  reason: string;
+  /** Signatures dated at or after this instant are rejected; an unparseable value revokes the key from the start */
+  effectiveAt: string;
+}
+
+/**
+ * All keys a signer has used, along with their revocations
+ */
+export interface SignerKeyHistory {
+  /** Keys of the signer, in any order; validity intervals may overlap */
+  keys: SignerKey[];
+  /** Revocations of any of the signer's keys */
+  revocations?: KeyRevocation[];
+}
+
+/**
+ * Registry that supports key rotation and revocation
+ */
+export interface TimeAwareSignerRegistry {
+  [signerId: string]: SignerKeyHistory;
+}
+
+/**
+ * EIP-712 domain separator fields; omitted fields are not part of the domain
+ */
+export interface TypedDataDomain {
+  /** Name of the signing application */
+  name?: string;
+  /** Version of the signing application */
+  version?: string;
+  /** EVM chain the signatures are meant for */
+  chainId?: number | string;
+  /** Contract that verifies the signatures */
+  verifyingContract?: string;
+  /** Disambiguating salt, as 0x-prefixed 32-byte hex */
+  salt?: string;
+}
+
+/**
+ * Where in which document a chain step is signed
+ */
+export interface ChainContext {
+  /** ID of the document */
+  documentId: string;
+  /** Hash of the original payload, i.e. the hash the first step signs */
+  payloadHash: string;
+  /** Position of the step in the chain */
+  index: number;
+  /** EIP-712 domain, for schemes that sign typed data */
+  domain?: TypedDataDomain;
+}
+
+/**
+ * Everything a context-aware signature scheme signs besides the chain hash
+ */
+export interface SigningContext extends ChainContext {
+  /** The signer, as named in the signature */
+  signerId: string;
+  /** Time of signing, as stored in the signature */
+  signedAt: string;
+}
+
+/**
+ * A private key together with the scheme it signs with
+ */
+export interface SchemePrivateKey {
+  /** The signature scheme, e.g. `ed25519` */
+  scheme: string;
+  /** The private key in the format the scheme expects */
+  privateKey: string;
+}
+
+/**
+ * Any registry accepted by traverse()
+ */
+export type AnySignerRegistry = SignerRegistry | TimeAwareSignerRegistry;
+
+/**
+ * Requirement that a number of signers from a role group sign the document
+ */
+export interface RoleGroupRequirement {
+  /** Name of the role, e.g. "qa" */
+  role: string;
+  /** Signer IDs that belong to this role */
+  signerIds: string[];
+  /** Minimum number of distinct signers from this role */
+  minSignatures: number;
+}
+
+/**
+ * Declarative policy describing who must sign a document and how
+ */
+export interface SigningPolicy {
+  /** Signer IDs that must all appear in the chain */
+  requiredSigners?: string[];
+  /** Signer IDs that must appear in this relative order (when present) */
+  signerOrder?: string[];
+  /** Quorum requirements per role */
+  roleGroups?: RoleGroupRequirement[];
+  /** Maximum number of signatures allowed in the chain, counting records and every co-signature */
+  maxSignatures?: number;
+}
+
+/**
+ * A single signing policy rule that was not satisfied
+ */
+export interface PolicyViolation {
+  /** The rule that was violated */
+  rule: 'requiredSigner' | 'signerOrder' | 'roleGroup' | 'maxSignatures';
+  /** Human readable description of the violation */
+  message: string;
+}
+
+/**
+ * Constraints on the `signedAt` timestamps of a chain
+ */
+export interface TimestampPolicy {
+  /** Reject signatures whose time is earlier than the previous signature's */
+  requireIncreasing?: boolean;
+  /** How far in the future (relative to `now`) a signature may be dated */
+  maxClockSkewMs?: number;
+  /** Reject signatures dated before this instant */
+  notBefore?: Date;
+  /** Maximum time between two consecutive signatures */
+  maxGapMs?: number;
+  /** Maximum time between the earliest and the latest signature, in whatever order they were made */
+  maxSigningWindowMs?: number;
+  /** Clock used for skew checks (defaults to the system clock) */
+  now?: () => Date;
+}
+
+/**
+ * A problem found while validating an untrusted document
+ */
+export interface ValidationIssue {
+  /** Location of the offending value, e.g. `signatures[1].signedHash` (empty for the root) */
+  path: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Strictness and size limits for document validation
+ */
+export interface DocumentValidationOptions {
+  /** Reject signature fields other than the known ones (defaults to false) */
+  rejectUnknownSignatureFields?: boolean;
+  /** Maximum number of signatures, counting every co-signature (defaults to 1000) */
+  maxSignatures?: number;
+  /** Maximum nesting depth of the payload (defaults to 64) */
+  maxDepth?: number;
+  /** Maximum length of any string in the document (defaults to 1,048,576) */
+  maxStringLength?: number;
+  /** Maximum size of JSON text input in UTF-8 bytes (defaults to 5 MiB) */
+  maxBytes?: number;
+}
+
+/**
+ * Options controlling signature traversal
+ */
+export interface TraversalOptions {
+  /** Signing policy the chain must satisfy in addition to being valid */
+  policy?: SigningPolicy;
+  /** Timestamp checks applied to every signature */
+  timestamps?: TimestampPolicy;
+  /** Hash algorithms the document may use (any supported algorithm if omitted) */
+  allowedHashAlgorithms?: HashAlgorithm[];
+  /** Strictness and limits of the schema validation run before verification */
+  validation?: DocumentValidationOptions;
+  /** Source of referenced content */
+  contentLoader?: ContentLoader;
+  /** Verify only the chain when referenced content cannot be loaded (defaults to false) */
+  chainOnly?: boolean;
+  /** EIP-712 domain of `eip712-step` signatures (defaults to DEFAULT_STEP_DOMAIN) */
+  typedDataDomain?: TypedDataDomain;
+  /** Context fields the document's header must carry with exactly these values */
+  expectedContext?: Omit<DocumentContext, 'nonce'>;
+  /** Store that remembers accepted documents to detect them being presented again; requires a context nonce */
+  replayStore?: ReplayStore;
+  /** Transparency log the document's chain head must be recorded in */
+  transparencyLog?: LogInclusionRequirement;
+  /**
+   * Timestamp authorities whose tokens are trusted; signatures with a
+   * verified token are checked at the token's time instead of `signedAt`
+   */
+  timestampAuthorities?: TimestampAuthorityRegistry;
+  /** Fail signatures without a verified timestamp token (defaults to false) */
+  requireTimestampTokens?: boolean;
+  /** Maximum difference between a signature's `signedAt` and its token's time (defaults to 1 hour) */
+  maxTimestampTokenDriftMs?: number;
+}
+
+/**
+ * A version of a document that a verifier accepted
+ */
+export interface DocumentAcceptance {
+  /** ID of the document */
+  documentId: string;
+  /** Nonce of the document's context */
+  nonce: string;
+  /** Number of steps in the chain */
+  length: number;
+  /** Hash of the document's payload and whole chain */
+  headHash: string;
+}
+
+/**
+ * Remembers the documents accepted across verifications
+ *
+ * `traverse()` calls the store once per document that verified, so it must
+ * answer synchronously; back it with a local cache if the shared state lives
+ * in a remote database.
+ */
+export interface ReplayStore {
+  /**
+   * Finds the accepted version of a document
+   * @param documentId - ID of the document
+   * @param nonce - Nonce of the document's context
+   * @returns The latest accepted version, if any
+   */
+  findAccepted(documentId: string, nonce: string): DocumentAcceptance | undefined;
+  /**
+   * Records an accepted version of a document, replacing the one accepted before
+   * @param acceptance - The accepted version
+   */
+  recordAccepted(acceptance: DocumentAcceptance): void;
+}
+
+/**
+ * A document chain head recorded in a transparency log
+ */
+export interface LogEntry {
+  /** ID of the document */
+  documentId: string;
+  /** Hash of the document's payload and whole chain */
+  headHash: string;
+  /** When the log recorded the head (ISO 8601) */
+  recordedAt: string;
+}
+
+/**
+ * The log's signed statement of its size and Merkle root at a point in time
+ */
+export interface SignedTreeHead {
+  /** Number of entries in the tree */
+  treeSize: number;
+  /** Merkle root of the first `treeSize` entries */
+  rootHash: string;
+  /** When the tree head was signed (ISO 8601) */
+  timestamp: string;
+  /** EIP-191 signature of the log's key over the tree head hash */
+  signature: string;
+}
+
+/**
+ * Proof that an entry is included in a signed tree head
+ */
+export interface LogInclusion {
+  /** The recorded entry */
+  entry: LogEntry;
+  /** Position of the entry in the log */
+  leafIndex: number;
+  /** Sibling hashes from the entry's leaf up to the root */
+  auditPath: string[];
+  /** The tree head the audit path leads to */
+  treeHead: SignedTreeHead;
+}
+
+/**
+ * Source of inclusion proofs, such as a local `TransparencyLog` or a client of a remote one
+ */
+export interface LogProofSource {
+  /**
+   * Proves that a chain head is in the log
+   * @param headHash - The chain head
+   * @returns The inclusion proof, or undefined if the head was never recorded
+   */
+  proveInclusion(headHash: string): LogInclusion | undefined;
+}
+
+/**
+ * Transparency log a document must be recorded in
+ */
+export interface LogInclusionRequirement {
+  /** Where to get inclusion proofs from */
+  log: LogProofSource;
+  /** Address of the key that signs the log's tree heads */
+  logKey: string;
+}
+
+/**
+ * Options controlling asynchronous signature traversal
+ */
+export interface AsyncTraversalOptions extends TraversalOptions {
+  /** Time allowed for signer resolution before lookups are failed (unlimited if omitted) */
+  resolverTimeoutMs?: number;
+}
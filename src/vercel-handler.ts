@@ -0,0 +1,12 @@
+/**
+ * Serverless entry point for Vercel, mounted under `/api`
+ *
+ * Registries are configured through the same environment variables as the
+ * standalone server; `REGISTRIES_JSON` suits serverless deployments best.
+ */
+
+import { createRequestHandler, serverOptionsFromEnv } from './server';
+
+const options = serverOptionsFromEnv();
+
+export default createRequestHandler({ ...options, basePath: options.basePath ?? '/api' });